@@ -1,47 +1,61 @@
-import { useEffect, useState } from 'preact/hooks'
+import { useEffect, useRef, useState } from 'preact/hooks'
 import { createContext } from 'preact'
 import App from './App'
 import { isDevelopmentMode, getMockCameraDevices, getMockRawData } from './utils/mockData'
+import { ChunkBuffer, addChunk, isChunkSetComplete, joinChunks, parseMetadata, toChunkIssue } from './utils/chunkUtils'
+import { normalizeEntityData } from './utils/normalization'
+import {
+  MergeStore,
+  DataLoadedMarker,
+  createMergeStore,
+  startPush,
+  upsertRecord,
+  parseDataLoadedMarker,
+  applyDataLoadedMarker,
+  completePendingRebuild,
+  hasMergeChanges
+} from './utils/mergeStore'
+import {
+  DiagnosticsEvent,
+  appendDiagnosticsEvent,
+  countPoints,
+  createDiagnosticsEvent,
+  finishDiagnosticsEvent,
+  recordAccepted,
+  recordIssue
+} from 'uor-tagoio-widget-diagnostics'
+import { SUMMARY_VARIABLES, readLoadSummary } from './utils/loadSummary'
+import { ChunkIssue, DataCorrection, LoadSummary, MergeSummary, RecordFreshness } from './types/dashboard'
+import { DecodeFailure, DecodeResult, decodeValue, readEncoding } from 'udx-baie-entity-codec'
 import "@tago-io/custom-widget"
 import "@tago-io/custom-widget/dist/custom-widget.css"
 
-// Decompress gzip/base64 encoded data
-const decompressData = async (base64String: string): Promise<string> => {
-  // Decode base64 to binary
-  const binaryString = atob(base64String)
-  const bytes = new Uint8Array(binaryString.length)
-  for (let i = 0; i < binaryString.length; i++) {
-    bytes[i] = binaryString.charCodeAt(i)
-  }
-
-  // Decompress using DecompressionStream (native browser API)
-  const ds = new DecompressionStream('gzip')
-  const decompressedStream = new Blob([bytes]).stream().pipeThrough(ds)
-  const decompressedBlob = await new Response(decompressedStream).blob()
-  return await decompressedBlob.text()
+// Name shown for a data point in diagnostics
+const getPointLabel = (dp: any): string | null => {
+  const metadata = parseMetadata(dp.metadata)
+  return metadata.name || metadata.unique_id || dp.id || null
 }
 
-// Check if string looks like base64-encoded gzip (starts with H4sI which is gzip magic bytes in base64)
-const isCompressedData = (value: string): boolean => {
-  return typeof value === 'string' && value.startsWith('H4sI')
+const recordDecodeFailure = (diagnostics: DiagnosticsEvent, variable: string, failure: DecodeFailure, detail: string | null) => {
+  if (failure.stage === 'decompression') {
+    recordIssue(diagnostics, 'decompression', variable, 'Could not decompress gzip/base64 value', detail)
+  } else if (failure.stage === 'encoding') {
+    recordIssue(diagnostics, 'rejected', variable, 'Unknown encoding metadata', detail)
+  } else {
+    recordIssue(diagnostics, 'rejected', variable, 'Value is not valid JSON', detail)
+  }
 }
 
-// Parse value that might be compressed JSON
-const parseValue = async (value: any): Promise<any> => {
-  if (typeof value !== 'string') return value
+// Decode a data point value by its encoding metadata; failures are recorded in diagnostics
+const decodePoint = async (diagnostics: DiagnosticsEvent, dp: any): Promise<DecodeResult<any>> => {
+  if (typeof dp.value !== 'string') return { ok: true, value: dp.value }
 
-  try {
-    // Check if it's compressed data
-    if (isCompressedData(value)) {
-      const decompressed = await decompressData(value)
-      return JSON.parse(decompressed)
-    }
-    // Try regular JSON parse
-    return JSON.parse(value)
-  } catch (e) {
-    console.error('Error parsing value:', e)
-    return null
+  const result = await decodeValue(dp.value, readEncoding(parseMetadata(dp.metadata)))
+  if (!result.ok) {
+    console.error(`Error decoding ${dp.variable}:`, result.error, dp.value.substring(0, 50))
+    recordDecodeFailure(diagnostics, dp.variable, result, getPointLabel(dp))
   }
+  return result
 }
 
 // Camera device interface from TagoIO devices
@@ -137,6 +151,15 @@ interface WidgetContextType {
   widget: any
   realtimeEventCount: number
   lastUpdate: Date | null
+  chunkIssues: ChunkIssue[]
+  dataCorrections: DataCorrection[]
+  recordFreshness: Map<string, RecordFreshness>
+  // Latest push that added, updated or removed entity records
+  lastMerge: MergeSummary | null
+  // Most recent first, capped at MAX_DIAGNOSTICS_EVENTS
+  diagnosticsEvents: DiagnosticsEvent[]
+  // Counts the analysis reported for its latest run, null until the summary points arrive
+  loadSummary: LoadSummary | null
 }
 
 export const WidgetContext = createContext<WidgetContextType>({
@@ -145,7 +168,13 @@ export const WidgetContext = createContext<WidgetContextType>({
   isLoading: true,
   widget: null,
   realtimeEventCount: 0,
-  lastUpdate: null
+  lastUpdate: null,
+  chunkIssues: [],
+  dataCorrections: [],
+  recordFreshness: new Map(),
+  lastMerge: null,
+  diagnosticsEvents: [],
+  loadSummary: null
 })
 
 declare global {
@@ -162,20 +191,43 @@ export const WidgetView = () => {
   const [widget, setWidget] = useState<any>(null)
   const [realtimeEventCount, setRealtimeEventCount] = useState(0)
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null)
+  const [chunkIssues, setChunkIssues] = useState<ChunkIssue[]>([])
+  const [dataCorrections, setDataCorrections] = useState<DataCorrection[]>([])
+  const [recordFreshness, setRecordFreshness] = useState<Map<string, RecordFreshness>>(new Map())
+  const [lastMerge, setLastMerge] = useState<MergeSummary | null>(null)
+  const [diagnosticsEvents, setDiagnosticsEvents] = useState<DiagnosticsEvent[]>([])
+  const [loadSummary, setLoadSummary] = useState<LoadSummary | null>(null)
+
+  // Chunked records can span several realtime batches, so partial sets persist between calls
+  const chunkBufferRef = useRef<ChunkBuffer>(new Map())
+  // Last camera list, used to normalize hostnames in batches that carry no camera_device points
+  const lastCamerasRef = useRef<CameraDevice[]>([])
+  // Entity records merged across batches, with per-record freshness
+  const mergeStoreRef = useRef<MergeStore>(createMergeStore())
+  const diagnosticsIdRef = useRef(0)
+  // Tail of the processing queue: each delivery waits for the previous one to finish
+  const processingRef = useRef<Promise<void>>(Promise.resolve())
 
   const processRealtimeData = async (realtimeData: any) => {
-    console.log('Processing realtime data:', realtimeData)
+    const startedAt = performance.now()
+    const diagnostics = createDiagnosticsEvent(++diagnosticsIdRef.current)
 
     // Entity data now comes as multiple entity_record variables, each containing a single JSON record
     let records: EntityRecord[] = []
     let cameras: CameraDevice[] = []
+    const markers: DataLoadedMarker[] = []
+    const summaryPoints: any[] = []
     let latestTimestamp: Date | null = null
+    // Chunk sets keep their error across batches, so report each one once per event
+    const reportedChunkErrors = new Set<string>()
 
     if (Array.isArray(realtimeData)) {
       // Check if it's the TagoIO realtime format with result arrays
       if (realtimeData[0]?.result) {
         for (const dataGroup of realtimeData) {
           if (dataGroup.result && Array.isArray(dataGroup.result)) {
+            countPoints(diagnostics, dataGroup.result)
+
             // Track the most recent timestamp from data points
             dataGroup.result.forEach((dp: any) => {
               if (dp.time) {
@@ -191,39 +243,53 @@ export const WidgetView = () => {
 
             for (const dp of entityRecordPoints) {
               if (dp.value) {
-                try {
-                  const parsed = await parseValue(dp.value)
-                  if (parsed && typeof parsed === 'object') {
-                    // Handle both single record and array of records
-                    if (Array.isArray(parsed)) {
-                      records.push(...parsed)
-                    } else {
-                      records.push(parsed)
-                    }
+                const decoded = await decodePoint(diagnostics, dp)
+                if (!decoded.ok) continue
+
+                const parsed = decoded.value
+                if (parsed && typeof parsed === 'object') {
+                  // Handle both single record and array of records
+                  if (Array.isArray(parsed)) {
+                    records.push(...parsed)
+                  } else {
+                    records.push(parsed)
                   }
-                } catch (e) {
-                  console.error('Error parsing entity record:', e, dp.value?.substring?.(0, 50))
+                } else {
+                  recordIssue(diagnostics, 'rejected', dp.variable, 'Value is not a JSON object', getPointLabel(dp))
                 }
               }
             }
 
+            // Buffer entity_record_chunk variables until every chunk of a record has arrived
+            const chunkPoints = dataGroup.result.filter((dp: any) => dp.variable === 'entity_record_chunk')
+            chunkPoints.forEach((dp: any) => {
+              const set = addChunk(chunkBufferRef.current, dp)
+              if (!set) {
+                recordIssue(diagnostics, 'rejected', 'entity_record_chunk', 'Chunk has no chunk_id metadata', dp.id || null)
+              } else if (set.error && !reportedChunkErrors.has(set.chunkId)) {
+                reportedChunkErrors.add(set.chunkId)
+                recordIssue(diagnostics, 'rejected', 'entity_record_chunk', set.error, set.name || set.chunkId)
+              }
+            })
+
             // Find all camera_device variables and parse each one
             const cameraDevicePoints = dataGroup.result.filter((dp: any) => dp.variable === 'camera_device')
 
             for (const dp of cameraDevicePoints) {
               if (dp.value) {
-                try {
-                  const parsed = await parseValue(dp.value)
-                  if (parsed && typeof parsed === 'object') {
-                    // Handle both single device and array of devices
-                    if (Array.isArray(parsed)) {
-                      cameras.push(...parsed)
-                    } else {
-                      cameras.push(parsed)
-                    }
+                const decoded = await decodePoint(diagnostics, dp)
+                if (!decoded.ok) continue
+
+                const parsed = decoded.value
+                if (parsed && typeof parsed === 'object') {
+                  // Handle both single device and array of devices
+                  if (Array.isArray(parsed)) {
+                    cameras.push(...parsed)
+                  } else {
+                    cameras.push(parsed)
                   }
-                } catch (e) {
-                  console.error('Error parsing camera device:', e, dp.value?.substring?.(0, 50))
+                } else {
+                  recordIssue(diagnostics, 'rejected', dp.variable, 'Value is not a JSON object', getPointLabel(dp))
                 }
               }
             }
@@ -232,16 +298,29 @@ export const WidgetView = () => {
             if (records.length === 0) {
               const entityDataPoint = dataGroup.result.find((dp: any) => dp.variable === 'entity_data')
               if (entityDataPoint && entityDataPoint.value) {
-                try {
-                  const parsed = await parseValue(entityDataPoint.value)
-                  if (Array.isArray(parsed)) {
-                    records = parsed
-                  }
-                } catch (e) {
-                  console.error('Error parsing entity data:', e)
+                const decoded = await decodePoint(diagnostics, entityDataPoint)
+                if (decoded.ok && Array.isArray(decoded.value)) {
+                  records = decoded.value
+                } else if (decoded.ok) {
+                  recordIssue(diagnostics, 'rejected', entityDataPoint.variable, 'Value is not a JSON array', getPointLabel(entityDataPoint))
                 }
               }
             }
+
+            // Counts written by the analysis, checked against what was parsed
+            summaryPoints.push(...dataGroup.result.filter((dp: any) => SUMMARY_VARIABLES.includes(dp.variable)))
+
+            // data_loaded closes a run and lists the records it deleted
+            dataGroup.result
+              .filter((dp: any) => dp.variable === 'data_loaded')
+              .forEach((dp: any) => {
+                const marker = parseDataLoadedMarker(dp)
+                if (marker) {
+                  markers.push(marker)
+                } else {
+                  recordIssue(diagnostics, 'rejected', 'data_loaded', 'Marker has no usable record_count metadata', dp.group || null)
+                }
+              })
           }
         }
       } else {
@@ -250,32 +329,62 @@ export const WidgetView = () => {
       }
     }
 
-    // Deduplicate records by id (keep the latest version of each record)
-    const recordMap = new Map<string, EntityRecord>()
-    records.forEach(record => {
-      if (record.id) {
-        // If we already have this record, keep the one with the later updated_at
-        const existing = recordMap.get(record.id)
-        if (!existing || new Date(record.updated_at) >= new Date(existing.updated_at)) {
-          recordMap.set(record.id, record)
-        }
+    // Reassemble complete chunk sets and decode them by the encoding their chunks declare
+    const chunkBuffer = chunkBufferRef.current
+    let assembledCount = 0
+    for (const [key, set] of chunkBuffer) {
+      if (set.error || !isChunkSetComplete(set)) continue
+
+      const decoded = await decodeValue<any>(joinChunks(set), readEncoding({ encoding: set.encoding }))
+      if (decoded.ok && decoded.value && typeof decoded.value === 'object' && !Array.isArray(decoded.value)) {
+        records.push(decoded.value)
+        assembledCount++
+        chunkBuffer.delete(key)
+      } else if (!decoded.ok) {
+        set.error = `Failed to decode ${set.totalChunks} reassembled chunks (${decoded.stage})`
+        recordDecodeFailure(diagnostics, 'entity_record_chunk', decoded, set.name || set.chunkId)
+      } else {
+        set.error = `Reassembled ${set.totalChunks} chunks are not a JSON object`
+        recordIssue(diagnostics, 'rejected', 'entity_record_chunk', set.error, set.name || set.chunkId)
       }
-    })
-    records = Array.from(recordMap.values())
+    }
+    if (assembledCount > 0) {
+      diagnostics.notes.push(`Reassembled ${assembledCount} chunked entity records`)
+    }
+    setChunkIssues(Array.from(chunkBuffer.values()).map(toChunkIssue))
+    if (summaryPoints.length > 0) {
+      setLoadSummary(prev => readLoadSummary(summaryPoints, prev))
+    }
 
-    // Sort records by index from metadata if available, otherwise by name
-    records.sort((a: any, b: any) => {
-      if (a.metadata?.index !== undefined && b.metadata?.index !== undefined) {
-        return a.metadata.index - b.metadata.index
+    // Merge into the records from earlier batches instead of replacing them
+    const store = mergeStoreRef.current
+    const summary = startPush(store)
+    records.forEach(record => {
+      const outcome = upsertRecord(store, summary, record)
+      if (outcome === 'invalid') {
+        recordIssue(diagnostics, 'rejected', 'entity_record', 'Record has no id', record?.name || null)
+      } else if (outcome === 'stale') {
+        recordIssue(diagnostics, 'rejected', 'entity_record', 'Older updated_at than the stored version', record.name || record.id)
+      } else {
+        recordAccepted(diagnostics)
       }
-      return (a.name || '').localeCompare(b.name || '')
     })
+    markers.forEach(marker => applyDataLoadedMarker(store, summary, marker))
+    if (completePendingRebuild(store, summary)) {
+      diagnostics.notes.push('Rebuilt entity records from this push, dropping records it did not carry')
+    } else if (store.rebuildRecordCount !== null) {
+      diagnostics.notes.push(`Deletions unknown: waiting for a push with all ${store.rebuildRecordCount} records to rebuild`)
+    }
+    const recordsChanged = hasMergeChanges(summary)
 
     // Deduplicate camera devices by id
     const cameraMap = new Map<string, CameraDevice>()
     cameras.forEach(camera => {
       if (camera.id) {
         cameraMap.set(camera.id, camera)
+        recordAccepted(diagnostics)
+      } else {
+        recordIssue(diagnostics, 'rejected', 'camera_device', 'Camera device has no id', camera?.name || null)
       }
     })
     cameras = Array.from(cameraMap.values())
@@ -283,20 +392,70 @@ export const WidgetView = () => {
     // Sort camera devices by name
     cameras.sort((a, b) => (a.name || '').localeCompare(b.name || ''))
 
-    console.log(`Processed ${records.length} entity records and ${cameras.length} camera devices`)
+    // Renormalize the merged records when they or the cameras whose hostnames they follow changed
+    const renormalize = recordsChanged || cameras.length > 0
+    const mergedRecords = renormalize ? Array.from(store.records.values()) : []
+
+    // Sort records by index from metadata if available, otherwise by name
+    mergedRecords.sort((a: any, b: any) => {
+      if (a.metadata?.index !== undefined && b.metadata?.index !== undefined) {
+        return a.metadata.index - b.metadata.index
+      }
+      return (a.name || '').localeCompare(b.name || '')
+    })
+
+    // Canonicalize misspelled venue types, directions, parks and hostname case
+    const hostnameSource = cameras.length > 0 ? cameras : lastCamerasRef.current
+    const normalized = normalizeEntityData(mergedRecords, cameras, hostnameSource)
+    cameras = normalized.cameras
+    if (cameras.length > 0) {
+      lastCamerasRef.current = cameras
+    }
+    if (normalized.corrections.length > 0) {
+      diagnostics.notes.push(`Normalized ${normalized.corrections.length} field values during ingestion`)
+    }
+
+    const mergeMessage = `Merged push ${summary.push}: ${summary.added.length} added, ${summary.updated.length} updated, ` +
+      `${summary.removed.length} removed, ${summary.unchanged} unchanged, ${summary.stale} stale ` +
+      `(${store.records.size} entity records, ${cameras.length} camera devices)`
+    diagnostics.notes.push(mergeMessage)
+    setDiagnosticsEvents(prev => appendDiagnosticsEvent(prev, finishDiagnosticsEvent(diagnostics, startedAt)))
     setRealtimeEventCount(prev => prev + 1)
     setLastUpdate(latestTimestamp)
 
-    if (records.length > 0) {
-      setEntityData(records)
+    if (renormalize) {
+      setEntityData(normalized.records)
+      setDataCorrections(prev => [
+        ...normalized.corrections.filter(c => c.source === 'entity_record'),
+        ...(cameras.length > 0
+          ? normalized.corrections.filter(c => c.source === 'camera_device')
+          : prev.filter(c => c.source === 'camera_device'))
+      ])
+    }
+    if (store.records.size > 0) {
       setIsLoading(false)
     }
 
+    if (recordsChanged) {
+      setRecordFreshness(new Map(store.freshness))
+      setLastMerge(summary)
+    }
+
     if (cameras.length > 0) {
       setCameraDevices(cameras)
     }
   }
 
+  // Deliveries can overlap while one is still decoding, and processing reads and writes the chunk
+  // buffer, merge store and camera list, so they are processed one at a time in arrival order
+  const enqueueRealtimeData = (realtimeData: any): Promise<void> => {
+    const processed = processingRef.current.then(() => processRealtimeData(realtimeData))
+    processingRef.current = processed.catch(error => {
+      console.error('Error processing realtime data:', error)
+    })
+    return processed
+  }
+
   useEffect(() => {
     console.log('Initializing Entity Data Widget')
 
@@ -307,8 +466,9 @@ export const WidgetView = () => {
         const mockRawData = getMockRawData()
         const mockCameras = getMockCameraDevices()
         // Wrap in TagoIO realtime format so processRealtimeData can extract timestamps
-        await processRealtimeData([{ result: mockRawData }])
-        setCameraDevices(mockCameras)
+        await enqueueRealtimeData([{ result: mockRawData }])
+        // Keep the normalized cameras from the raw data; only fall back to generated ones
+        setCameraDevices(prev => prev.length > 0 ? prev : mockCameras)
         console.log(`Loaded ${mockCameras.length} mock camera devices`)
       }, 500)
       return
@@ -335,8 +495,7 @@ export const WidgetView = () => {
 
     // Handle real-time data
     window.TagoIO.onRealtime(async function(realtimeData: any) {
-      console.log('Data received from onRealtime:', realtimeData)
-      await processRealtimeData(realtimeData)
+      await enqueueRealtimeData(realtimeData)
     })
 
     // Signal that widget is ready
@@ -355,7 +514,13 @@ export const WidgetView = () => {
     isLoading,
     widget,
     realtimeEventCount,
-    lastUpdate
+    lastUpdate,
+    chunkIssues,
+    dataCorrections,
+    recordFreshness,
+    lastMerge,
+    diagnosticsEvents,
+    loadSummary
   }
 
   return (
@@ -1,4 +1,14 @@
 import { CameraWithScenarios } from '../types/dashboard'
+import { CAMERA_STATUS_LABELS, formatLastInputAge } from '../utils/cameraStatus'
+
+const CameraStatusBadge = ({ camera, className = '' }: { camera: CameraWithScenarios, className?: string }) => (
+  <span
+    className={`${className} badge camera-status status-${camera.status}`}
+    title={camera.last_input ? `Last input ${new Date(camera.last_input).toLocaleString()}` : 'No input received'}
+  >
+    {CAMERA_STATUS_LABELS[camera.status]} · {formatLastInputAge(camera.lastInputAgeMs)}
+  </span>
+)
 
 interface CameraDeviceDetailsProps {
   camera: CameraWithScenarios
@@ -33,6 +43,16 @@ export const CameraDeviceDetails = ({ camera }: CameraDeviceDetailsProps) => (
             {camera.is_configured ? 'Configured' : 'Unconfigured'}
           </span>
         </div>
+        <div className="detail-item">
+          <span className="detail-label">Connection</span>
+          <CameraStatusBadge camera={camera} className="detail-value" />
+        </div>
+        <div className="detail-item">
+          <span className="detail-label">Last Input</span>
+          <span className="detail-value">
+            {camera.last_input ? new Date(camera.last_input).toLocaleString() : 'Never'}
+          </span>
+        </div>
       </div>
     </div>
 
@@ -108,6 +128,7 @@ export const CameraDeviceSummary = ({ camera, isUnconfigured = false }: CameraDe
     {isUnconfigured && (
       <span className="summary-item badge badge-warning">Unconfigured</span>
     )}
+    <CameraStatusBadge camera={camera} className="summary-item" />
     <span className="summary-item">
       <span className="summary-label">Scenarios:</span> {camera.scenarios.length}
     </span>
@@ -0,0 +1,136 @@
+import { ChangeKind, RecordType, RECORD_TYPE_ICONS, SnapshotChange, SnapshotSummary } from '../types/dashboard'
+import { CHANGE_KIND_LABELS } from '../utils/snapshotUtils'
+
+interface ChangesViewProps {
+  changes: SnapshotChange[]
+  snapshots: SnapshotSummary[]
+  baseSnapshot: SnapshotSummary | null
+  currentSnapshot: SnapshotSummary | null
+  onSelectBase: (takenAt: string | null) => void
+  onClearHistory: () => void
+  copiedId: string | null
+  onCopy: (text: string) => void
+}
+
+const formatSnapshot = (snapshot: SnapshotSummary): string => {
+  return `${new Date(snapshot.takenAt).toLocaleString()} (${snapshot.recordCount} records, ${snapshot.cameraCount} cameras)`
+}
+
+export const ChangesView = ({
+  changes,
+  snapshots,
+  baseSnapshot,
+  currentSnapshot,
+  onSelectBase,
+  onClearHistory,
+  copiedId,
+  onCopy
+}: ChangesViewProps) => {
+  const previousSnapshots = snapshots.filter(s => s.takenAt !== currentSnapshot?.takenAt).reverse()
+  const kindCounts = changes.reduce((acc, change) => {
+    acc[change.kind] = (acc[change.kind] || 0) + 1
+    return acc
+  }, {} as Partial<Record<ChangeKind, number>>)
+
+  return (
+    <div className="changes-section">
+      <div className="changes-header">
+        <h2>What Changed</h2>
+        <p className="changes-description">
+          Configuration differences between data refreshes. Metrics are not compared.
+          The last {snapshots.length} snapshot{snapshots.length !== 1 ? 's are' : ' is'} kept in this browser.
+        </p>
+        {baseSnapshot && currentSnapshot && (
+          <div className="changes-controls">
+            <label className="changes-label">
+              Compare
+              <select
+                className="changes-select"
+                value={baseSnapshot.takenAt}
+                onChange={(e) => onSelectBase((e.target as HTMLSelectElement).value)}
+              >
+                {previousSnapshots.map(snapshot => (
+                  <option key={snapshot.takenAt} value={snapshot.takenAt}>{formatSnapshot(snapshot)}</option>
+                ))}
+              </select>
+            </label>
+            <span className="changes-label">with {formatSnapshot(currentSnapshot)}</span>
+            <button className="expand-btn" onClick={onClearHistory}>Clear History</button>
+          </div>
+        )}
+      </div>
+
+      {!baseSnapshot ? (
+        <div className="no-results">
+          <p>Only one snapshot so far. Changes will show here after the next data refresh.</p>
+        </div>
+      ) : changes.length === 0 ? (
+        <div className="no-results">
+          <p>No configuration changes between these snapshots.</p>
+        </div>
+      ) : (
+        <table className="dup-table changes-table">
+          <thead>
+            <tr>
+              <th>Change</th>
+              <th>Type</th>
+              <th>Name</th>
+              <th>Park</th>
+              <th>Field</th>
+              <th>Before</th>
+              <th>After</th>
+              <th>ID (click to copy)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changes.map(change => {
+              // Added/removed have no field diffs but still get one row
+              const fields = change.fields.length > 0 ? change.fields : [null]
+              return fields.map((field, index) => (
+                <tr key={`${change.source}_${change.id}_${change.kind}_${field?.field || ''}`} className={`change-row change-${change.kind}`}>
+                  <td>
+                    {index === 0 && <span className={`badge change-badge change-${change.kind}`}>{CHANGE_KIND_LABELS[change.kind]}</span>}
+                  </td>
+                  <td className="rec-type">
+                    {index === 0 && (change.source === 'camera_device' ? (
+                      <span className="type-badge-small devices">DEV</span>
+                    ) : (
+                      <span className={`type-badge-small ${change.recordType}`}>
+                        {RECORD_TYPE_ICONS[change.recordType as RecordType] || '?'}
+                      </span>
+                    ))}
+                  </td>
+                  <td className="rec-name">{index === 0 ? change.name : ''}</td>
+                  <td className="rec-park">{index === 0 ? change.park || '-' : ''}</td>
+                  <td className="change-field">{field?.field || '-'}</td>
+                  <td className="change-before">{field ? field.before ?? '(empty)' : ''}</td>
+                  <td className="change-after">{field ? field.after ?? '(empty)' : ''}</td>
+                  <td className="rec-id">
+                    {index === 0 && (
+                      <button
+                        className={`copy-id-btn ${copiedId === change.id ? 'copied' : ''}`}
+                        onClick={() => onCopy(change.id)}
+                        title="Click to copy"
+                      >
+                        {copiedId === change.id ? 'Copied!' : change.id}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div className="changes-summary">
+        <p>
+          <strong>Total changes:</strong> {changes.length}
+          {(Object.keys(kindCounts) as ChangeKind[]).map(kind => (
+            <span key={kind}>{' | '}<strong>{CHANGE_KIND_LABELS[kind]}:</strong> {kindCounts[kind]}</span>
+          ))}
+        </p>
+      </div>
+    </div>
+  )
+}
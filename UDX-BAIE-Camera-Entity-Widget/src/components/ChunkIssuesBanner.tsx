@@ -0,0 +1,42 @@
+import { ChunkIssue, RecordType, RECORD_TYPE_ICONS } from '../types/dashboard'
+
+interface ChunkIssuesBannerProps {
+  chunkIssues: ChunkIssue[]
+}
+
+export const ChunkIssuesBanner = ({ chunkIssues }: ChunkIssuesBannerProps) => {
+  if (chunkIssues.length === 0) {
+    return null
+  }
+
+  const corruptCount = chunkIssues.filter(issue => issue.status === 'corrupt').length
+  const incompleteCount = chunkIssues.length - corruptCount
+
+  return (
+    <div className="details-section alert-section chunk-issues">
+      <h4>
+        Chunked Records Not Loaded ({chunkIssues.length})
+        {corruptCount > 0 && ` | ${corruptCount} corrupt`}
+        {incompleteCount > 0 && ` | ${incompleteCount} incomplete`}
+      </h4>
+      <div className="chunk-issue-list">
+        {chunkIssues.map(issue => (
+          <div key={issue.chunkId} className={`alert-message chunk-issue chunk-${issue.status}`}>
+            <span className="alert-icon">!</span>
+            {issue.recordType && (
+              <span className={`type-badge-small ${issue.recordType}`}>
+                {RECORD_TYPE_ICONS[issue.recordType as RecordType] || '?'}
+              </span>
+            )}
+            <span className="chunk-issue-name">{issue.name || issue.chunkId}</span>
+            {issue.park && <span className="chunk-issue-park">{issue.park}</span>}
+            <span className={`badge ${issue.status === 'corrupt' ? 'badge-danger' : 'badge-warning'}`}>
+              {issue.received}/{issue.total || '?'} chunks
+            </span>
+            <span className="chunk-issue-message">{issue.message}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
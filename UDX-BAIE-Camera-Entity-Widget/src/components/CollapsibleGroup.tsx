@@ -62,6 +62,8 @@ export const CollapsiblePark = ({
 }
 
 interface CollapsibleItemProps {
+  // Element id so other views can scroll to this card
+  anchorId?: string
   isExpanded: boolean
   onToggle: () => void
   header: ComponentChildren
@@ -69,13 +71,14 @@ interface CollapsibleItemProps {
 }
 
 export const CollapsibleItem = ({
+  anchorId,
   isExpanded,
   onToggle,
   header,
   children
 }: CollapsibleItemProps) => {
   return (
-    <div className={`record-item ${isExpanded ? 'expanded' : ''}`}>
+    <div id={anchorId} className={`record-item ${isExpanded ? 'expanded' : ''}`}>
       <div className="record-header" onClick={onToggle}>
         <span className="expand-icon">{isExpanded ? '-' : '+'}</span>
         {header}
@@ -0,0 +1,106 @@
+import { DataCorrection } from '../types/dashboard'
+
+interface CorrectionsViewProps {
+  corrections: DataCorrection[]
+  copiedId: string | null
+  onCopy: (text: string) => void
+}
+
+/**
+ * Builds a patch list that can be applied back to the entity / device tags
+ */
+const buildCorrectionPatch = (corrections: DataCorrection[]): string => {
+  return JSON.stringify(
+    corrections.map(c => ({ source: c.source, id: c.recordId, field: c.field, value: c.to })),
+    null,
+    2
+  )
+}
+
+export const CorrectionsView = ({ corrections, copiedId, onCopy }: CorrectionsViewProps) => {
+  // Group by record so all fixes for one record sit together
+  const groupedByRecord = corrections.reduce((acc, correction) => {
+    const key = `${correction.source}|${correction.recordId}`
+    if (!acc[key]) {
+      acc[key] = []
+    }
+    acc[key].push(correction)
+    return acc
+  }, {} as Record<string, DataCorrection[]>)
+
+  const patch = buildCorrectionPatch(corrections)
+  const fieldCounts = corrections.reduce((acc, c) => {
+    acc[c.field] = (acc[c.field] || 0) + 1
+    return acc
+  }, {} as Record<string, number>)
+
+  return (
+    <div className="corrections-section">
+      <div className="corrections-header">
+        <h2>Data Corrections</h2>
+        <p className="corrections-description">
+          Values normalized during ingestion (misspelled venue types, direction aliases, park aliases, hostname case).
+          The explorer shows the corrected values; copy the fixes to apply them to the entity.
+        </p>
+        {corrections.length > 0 && (
+          <button
+            className={`copy-id-btn corrections-copy ${copiedId === patch ? 'copied' : ''}`}
+            onClick={() => onCopy(patch)}
+          >
+            {copiedId === patch ? 'Copied!' : `Copy ${corrections.length} fixes as JSON`}
+          </button>
+        )}
+      </div>
+
+      {corrections.length === 0 ? (
+        <div className="no-results">
+          <p>No data corrections were needed.</p>
+        </div>
+      ) : (
+        <table className="dup-table corrections-table">
+          <thead>
+            <tr>
+              <th>Record</th>
+              <th>Field</th>
+              <th>Original</th>
+              <th>Corrected</th>
+              <th>ID (click to copy)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(groupedByRecord).map(([key, items]) => items.map((item, index) => (
+              <tr key={`${key}_${item.field}`} className="correction-row">
+                <td className="rec-name">{index === 0 ? item.recordName : ''}</td>
+                <td className="correction-field">{item.field}</td>
+                <td className="correction-from">{item.from}</td>
+                <td className="correction-to">{item.to}</td>
+                <td className="rec-id">
+                  {index === 0 && (
+                    <button
+                      className={`copy-id-btn ${copiedId === item.recordId ? 'copied' : ''}`}
+                      onClick={() => onCopy(item.recordId)}
+                      title="Click to copy"
+                    >
+                      {copiedId === item.recordId ? 'Copied!' : item.recordId}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            )))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="corrections-summary">
+        <p>
+          <strong>Total corrections:</strong> {corrections.length}
+          {' | '}
+          <strong>Records affected:</strong> {Object.keys(groupedByRecord).length}
+          {Object.entries(fieldCounts).map(([field, count]) => (
+            <span key={field}>{' | '}<strong>{field}:</strong> {count}</span>
+          ))}
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,59 @@
+import { DeviceSortOrder } from '../types/dashboard'
+
+interface OfflineParksProps {
+  countsByPark: Record<string, number>
+  onSelectPark: (park: string) => void
+}
+
+/**
+ * Offline camera counts per park, each opening the offline view for that park.
+ * Renders nothing while every camera is online.
+ */
+export const OfflineParks = ({ countsByPark, onSelectPark }: OfflineParksProps) => {
+  const parks = Object.entries(countsByPark).sort(([a], [b]) => a.localeCompare(b))
+  if (parks.length === 0) return null
+
+  return (
+    <>
+      <h3 className="sidebar-title">Offline by Park</h3>
+      <div className="offline-parks">
+        {parks.map(([park, count]) => (
+          <button
+            key={park}
+            className="offline-park-btn"
+            onClick={() => onSelectPark(park)}
+            title={`Show offline cameras in ${park}`}
+          >
+            <span>{park}</span>
+            <span className="badge camera-status status-offline">{count}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="sidebar-divider"></div>
+    </>
+  )
+}
+
+interface DeviceSortControlProps {
+  sortOrder: DeviceSortOrder
+  onChange: (sortOrder: DeviceSortOrder) => void
+}
+
+export const DeviceSortControl = ({ sortOrder, onChange }: DeviceSortControlProps) => (
+  <div className="device-sort">
+    <span className="device-sort-label">Sort devices</span>
+    <button
+      className={`expand-btn ${sortOrder === 'name' ? 'active' : ''}`}
+      onClick={() => onChange('name')}
+    >
+      Name
+    </button>
+    <button
+      className={`expand-btn ${sortOrder === 'last_seen' ? 'active' : ''}`}
+      onClick={() => onChange('last_seen')}
+    >
+      Last Seen
+    </button>
+  </div>
+)
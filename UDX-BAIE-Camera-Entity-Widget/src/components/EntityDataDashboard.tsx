@@ -1,4 +1,4 @@
-import { useContext, useState } from 'preact/hooks'
+import { useContext, useMemo, useState } from 'preact/hooks'
 import { WidgetContext } from '../WidgetView'
 import { version } from '../../package.json'
 import { useDashboardData } from '../hooks/useDashboardData'
@@ -10,39 +10,221 @@ import {
   RecordSummary
 } from './RecordDetails'
 import { CameraDeviceDetails, CameraDeviceSummary } from './CameraDeviceCard'
-import { FilterType, RecordType, RECORD_TYPE_LABELS, RECORD_TYPE_ICONS, UnconfiguredScenario, VenueGroup } from '../types/dashboard'
+import { DeviceSortControl, OfflineParks } from './DeviceControls'
+import { FilterButtons } from './FilterButtons'
+import { ChunkIssuesBanner } from './ChunkIssuesBanner'
+import { IntegrityBanner } from './IntegrityBanner'
+import { TruncationBanner } from './TruncationBanner'
+import { DiagnosticsDrawer, isDiagnosticsEnabled } from 'uor-tagoio-widget-diagnostics'
+import { RecordMetricsPanel, MetricsSummary } from './MetricsPanel'
+import { TimestampHistogram } from './TimestampHistogram'
+import { HealthRuleView } from './HealthRuleView'
+import { CorrectionsView } from './CorrectionsView'
+import { InventoryReconciliationView } from './InventoryReconciliationView'
+import { filterDataCorrection, filterSnapshotChange } from '../utils/searchUtils'
+import { reconcileInventory } from '../utils/inventoryUtils'
+import { isEmptyQuery, getFieldSuggestions, applyFieldSuggestion } from '../utils/queryParser'
+import { SearchDocumentKind } from '../utils/searchIndex'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { useNow } from '../hooks/useNow'
+import { toItemAnchorId, useItemNavigation } from '../hooks/useItemNavigation'
+import { useSnapshotHistory } from '../hooks/useSnapshotHistory'
+import { useViewState } from '../hooks/useViewState'
+import { ViewState } from '../utils/viewState'
+import { ChangesView } from './ChangesView'
+import { TopologyView } from './TopologyView'
+import { HighlightedText } from './HighlightedText'
+import { ExportControls } from './ExportControls'
+import { getRecordPushChange } from '../utils/mergeStore'
+import { checkLoadIntegrity } from '../utils/loadSummary'
+import { isDevelopmentMode } from '../utils/mockData'
+import { isHealthFilter, getHealthRuleId } from '../utils/healthRules'
+import { hasMetrics } from '../utils/metricsUtils'
+import { hasTimestamps } from '../utils/timestampUtils'
+import { NO_PARK_LABEL, compareByLastSeen, readCameraStatusThresholds } from '../utils/cameraStatus'
+import {
+  CameraWithScenarios,
+  DeviceSortOrder,
+  FilterType,
+  RecordPushChange,
+  RecordType,
+  RECORD_TYPE_LABELS,
+  RECORD_TYPE_ICONS,
+  TopologyTarget,
+  UnconfiguredScenario,
+  VenueGroup
+} from '../types/dashboard'
 import './EntityDataDashboard.css'
 
+const SEARCH_DEBOUNCE_MS = 200
+// Camera last-input ages are recomputed this often
+const CAMERA_STATUS_REFRESH_MS = 60 * 1000
+
+type GetSearchScore = (kind: SearchDocumentKind, id: string) => number
+
+type GetPushChange = (id: string) => RecordPushChange | null
+
+const PUSH_CHANGE_LABELS: Record<RecordPushChange, string> = {
+  added: 'New',
+  updated: 'Updated'
+}
+
 const EntityDataDashboard = () => {
-  const { entityData, cameraDevices, isLoading, lastUpdate } = useContext(WidgetContext)
+  const {
+    entityData,
+    cameraDevices,
+    isLoading,
+    lastUpdate,
+    chunkIssues,
+    dataCorrections,
+    recordFreshness,
+    lastMerge,
+    diagnosticsEvents,
+    loadSummary,
+    widget
+  } = useContext(WidgetContext)
   const [searchQuery, setSearchQuery] = useState('')
+  // Filtering waits for a pause in typing; the input and suggestions stay live
+  const debouncedQuery = useDebouncedValue(searchQuery, SEARCH_DEBOUNCE_MS)
   const [filterType, setFilterType] = useState<FilterType>('all')
   const [copiedId, setCopiedId] = useState<string | null>(null)
+  const [deviceSort, setDeviceSort] = useState<DeviceSortOrder>('name')
+  // Installer inventory CSV pasted or uploaded for reconciliation
+  const [inventoryText, setInventoryText] = useState('')
+  const inventoryReport = useMemo(() => {
+    return inventoryText.trim() ? reconcileInventory(inventoryText, cameraDevices) : null
+  }, [inventoryText, cameraDevices])
+  const now = useNow(CAMERA_STATUS_REFRESH_MS)
+  const cameraThresholds = useMemo(() => readCameraStatusThresholds(widget), [widget])
 
   const {
+    parsedQuery,
+    highlightTerms,
+    getSearchScore,
     totalCounts,
     duplicateRecords,
     filteredDuplicateRecords,
     unconfiguredScenarios,
     filteredUnconfiguredScenarios,
+    healthResults,
+    filteredHealthResults,
     groupedCameras,
+    offlineCameras,
+    offlineCountsByPark,
     groupedData,
     stats,
     filteredVenueGroups,
+    topology,
     getScenariosGroupedByCamera
-  } = useDashboardData({ entityData, cameraDevices, searchQuery, filterType })
+  } = useDashboardData({ entityData, cameraDevices, searchQuery: debouncedQuery, filterType, cameraThresholds, now })
+
+  const offlineCameraCount = Object.values(offlineCountsByPark).reduce((sum, count) => sum + count, 0)
+
+  // Show one park's offline cameras; the "No park" row lists cameras without a park tag
+  const showOfflineInPark = (park: string) => {
+    setFilterType('offline')
+    setSearchQuery(park === NO_PARK_LABEL ? 'has_park:false' : `park="${park}"`)
+  }
 
   const {
+    expandedTypes,
+    expandedParks,
+    expandedItems,
     toggleType,
     togglePark,
     toggleItem,
     expandAll,
     collapseAll,
+    revealItem,
+    restoreExpanded,
     isTypeExpanded,
     isParkExpanded,
     isItemExpanded
   } = useExpandState()
 
+  const { selectedId, setSelectedId, showItem } = useItemNavigation()
+
+  // Opening a card makes it the selected record that links and recent views scroll back to
+  const selectItem = (id: string) => {
+    if (!isItemExpanded(id)) setSelectedId(id)
+    toggleItem(id)
+  }
+
+  const getPushChange = (id: string) => getRecordPushChange(recordFreshness.get(id), lastMerge)
+
+  const restoreView = (view: ViewState) => {
+    setFilterType(view.filterType)
+    setSearchQuery(view.query)
+    restoreExpanded(view.expandedTypes, view.expandedParks, view.expandedItems)
+    showItem(view.selectedId)
+  }
+
+  const { recentViews } = useViewState({
+    widgetId: widget?.id || null,
+    isReady: !isLoading,
+    state: {
+      filterType,
+      query: debouncedQuery,
+      expandedTypes: Array.from(expandedTypes),
+      expandedParks: Array.from(expandedParks),
+      expandedItems: Array.from(expandedItems),
+      selectedId
+    },
+    onRestore: restoreView
+  })
+
+  // Open the view holding a topology node's detail card and expand the path to it
+  const navigateToTarget = (target: TopologyTarget) => {
+    // The card may be hidden by the current search
+    setSearchQuery('')
+    setFilterType(target.filterType)
+    revealItem(target.typeKey, target.parkKey, target.itemId)
+    showItem(target.itemId)
+  }
+
+  // Only snapshot once a refresh has fully arrived, so half-assembled chunk sets do not show as removals
+  const {
+    snapshots,
+    baseSnapshot,
+    currentSnapshot,
+    changes,
+    selectBaseSnapshot,
+    clearHistory
+  } = useSnapshotHistory({
+    widgetId: widget?.id || null,
+    entityData,
+    cameraDevices,
+    isSettled: !isLoading && !chunkIssues.some(issue => issue.status === 'incomplete')
+  })
+
+  const filteredChanges = useMemo(() => {
+    if (isEmptyQuery(parsedQuery)) return changes
+    return changes.filter(change => filterSnapshotChange(change, parsedQuery))
+  }, [changes, parsedQuery])
+
+  const filteredCorrections = useMemo(() => {
+    if (isEmptyQuery(parsedQuery)) return dataCorrections
+    return dataCorrections.filter(correction => filterDataCorrection(correction, parsedQuery))
+  }, [dataCorrections, parsedQuery])
+
+  const integrityChecks = useMemo(() => {
+    return checkLoadIntegrity(loadSummary, entityData, cameraDevices, chunkIssues)
+  }, [loadSummary, entityData, cameraDevices, chunkIssues])
+
+  const fieldSuggestions = useMemo(() => getFieldSuggestions(searchQuery), [searchQuery])
+
+  const acceptSuggestion = (field: string) => {
+    setSearchQuery(applyFieldSuggestion(searchQuery, field))
+  }
+
+  const handleSearchKeyDown = (e: KeyboardEvent) => {
+    // Tab completes the first suggested field name
+    if (e.key === 'Tab' && fieldSuggestions.length > 0) {
+      e.preventDefault()
+      acceptSuggestion(fieldSuggestions[0].name)
+    }
+  }
+
   const copyToClipboard = (text: string) => {
     // Use execCommand fallback which works better in iframes
     const textArea = document.createElement('textarea')
@@ -77,6 +259,11 @@ const EntityDataDashboard = () => {
 
   const handleExpandAll = () => expandAll(groupedData, groupedCameras)
 
+  // Also shown while loading, since a payload that fails to parse never finishes loading
+  const diagnosticsDrawer = (isDevelopmentMode() || isDiagnosticsEnabled(widget)) && (
+    <DiagnosticsDrawer events={diagnosticsEvents} />
+  )
+
   if (isLoading) {
     return (
       <div className="entity-dashboard loading">
@@ -84,14 +271,15 @@ const EntityDataDashboard = () => {
           <div className="loading-spinner"></div>
           <p className="loading-text">Loading Entity Data...</p>
         </div>
+        {diagnosticsDrawer}
       </div>
     )
   }
 
   const configuredCameraCount = Object.values(groupedCameras.configured).flat().length
   const unconfiguredCameraCount = groupedCameras.unconfigured.length
-  const hasNoResults = filterType !== 'devices' && filterType !== 'duplicates' && filterType !== 'unconfigured' &&
-    stats.total === 0 && configuredCameraCount === 0 && unconfiguredCameraCount === 0
+  const hasNoResults = filterType !== 'devices' && filterType !== 'offline' && filterType !== 'duplicates' && filterType !== 'unconfigured' &&
+    filterType !== 'inventory' && filterType !== 'corrections' && filterType !== 'changes' && filterType !== 'topology' && !isHealthFilter(filterType) && stats.total === 0 && configuredCameraCount === 0 && unconfiguredCameraCount === 0
 
   return (
     <div className="entity-dashboard">
@@ -99,6 +287,9 @@ const EntityDataDashboard = () => {
         <h1>UDX GSLM Camera Config Explorer</h1>
         <p className="header-subtitle">
           {lastUpdate && ` Updated ${lastUpdate.toLocaleString()}`}
+          {loadSummary?.lastUpdate && ` · Analysis ran ${new Date(loadSummary.lastUpdate).toLocaleString()}`}
+          {lastMerge && !lastMerge.isInitialLoad &&
+            ` · Last push: ${lastMerge.added.length} new, ${lastMerge.updated.length} updated, ${lastMerge.removed.length} removed`}
         </p>
       </header>
 
@@ -106,62 +297,70 @@ const EntityDataDashboard = () => {
         <aside className="dashboard-sidebar">
           <div className="sidebar-card">
             <h3 className="sidebar-title">Filters</h3>
-            <div className="filter-buttons">
-              <button
-                className={`filter-btn ${filterType === 'all' ? 'active' : ''}`}
-                onClick={() => setFilterType('all')}
-              >
-                All ({entityData.length + cameraDevices.length})
-              </button>
-              <button
-                className={`filter-btn filter-camera ${filterType === 'camera_scenario' ? 'active' : ''}`}
-                onClick={() => setFilterType('camera_scenario')}
-              >
-                Cameras ({totalCounts.camera_scenario || 0})
-              </button>
-              <button
-                className={`filter-btn filter-queue ${filterType === 'queue_venue' ? 'active' : ''}`}
-                onClick={() => setFilterType('queue_venue')}
-              >
-                Queues ({totalCounts.queue_venue || 0})
-              </button>
-              <button
-                className={`filter-btn filter-occupancy ${filterType === 'occupancy_venue' ? 'active' : ''}`}
-                onClick={() => setFilterType('occupancy_venue')}
-              >
-                Occupancy ({totalCounts.occupancy_venue || 0})
-              </button>
-              <button
-                className={`filter-btn filter-devices ${filterType === 'devices' ? 'active' : ''}`}
-                onClick={() => setFilterType('devices')}
-              >
-                Devices ({totalCounts.devices || 0})
-              </button>
-              {duplicateRecords?.length > 0 && (
-                <button
-                  className={`filter-btn filter-duplicates ${filterType === 'duplicates' ? 'active' : ''}`}
-                  onClick={() => setFilterType('duplicates')}
-                >
-                  Duplicates ({duplicateRecords.reduce((sum, d) => sum + d.records.length, 0)})
-                </button>
-              )}
-              {unconfiguredScenarios?.length > 0 && (
-                <button
-                  className={`filter-btn filter-unconfigured ${filterType === 'unconfigured' ? 'active' : ''}`}
-                  onClick={() => setFilterType('unconfigured')}
-                >
-                  Unconfigured ({unconfiguredScenarios.length})
-                </button>
-              )}
-            </div>
+            <FilterButtons
+              filterType={filterType}
+              onSelect={setFilterType}
+              totalCount={entityData.length + cameraDevices.length}
+              totalCounts={totalCounts}
+              offlineCameraCount={offlineCameraCount}
+              duplicateRecords={duplicateRecords}
+              unconfiguredCount={unconfiguredScenarios.length}
+              inventoryReport={inventoryReport}
+              correctionCount={dataCorrections.length}
+              snapshotCount={snapshots.length}
+              changeCount={changes.length}
+              healthResults={healthResults}
+            />
 
             <div className="sidebar-divider"></div>
 
+            <OfflineParks countsByPark={offlineCountsByPark} onSelectPark={showOfflineInPark} />
+
             <h3 className="sidebar-title">View</h3>
             <div className="expand-controls">
               <button className="expand-btn" onClick={handleExpandAll}>Expand All</button>
               <button className="expand-btn" onClick={collapseAll}>Collapse All</button>
             </div>
+            <DeviceSortControl sortOrder={deviceSort} onChange={setDeviceSort} />
+
+            <div className="sidebar-divider"></div>
+
+            {recentViews.length > 0 && (
+              <>
+                <h3 className="sidebar-title recent-views-title">Recent Views</h3>
+                <div className="recent-views">
+                  {recentViews.map(view => (
+                    <button
+                      key={view.key}
+                      className={`recent-view-btn ${view.state.filterType === filterType && view.state.query === debouncedQuery ? 'active' : ''}`}
+                      onClick={() => restoreView(view.state)}
+                      title={`Saved ${new Date(view.savedAt).toLocaleString()}`}
+                    >
+                      {view.label}
+                    </button>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <div className="sidebar-divider"></div>
+
+            <ExportControls
+              filterType={filterType}
+              data={{
+                groupedData,
+                groupedCameras,
+                offlineCameras,
+                venueGroups: filteredVenueGroups,
+                duplicateRecords: filteredDuplicateRecords,
+                unconfiguredScenarios: filteredUnconfiguredScenarios,
+                healthResults: filteredHealthResults,
+                corrections: filteredCorrections,
+                changes: filteredChanges,
+                topology,
+                inventoryReport
+              }}
+            />
           </div>
         </aside>
 
@@ -169,19 +368,43 @@ const EntityDataDashboard = () => {
           <div className="search-box">
             <input
               type="text"
-              placeholder="Search by name, park, hostname..."
+              placeholder='Search... e.g. park:epic -direction:exit, current_wait>20, "main entrance" OR hostname:axis'
               value={searchQuery}
               onInput={(e) => setSearchQuery((e.target as HTMLInputElement).value)}
-              className="search-input"
+              onKeyDown={handleSearchKeyDown}
+              className={`search-input ${parsedQuery.errors.length > 0 ? 'has-error' : ''}`}
             />
             {searchQuery && (
               <button className="clear-search" onClick={() => setSearchQuery('')}>
                 x
               </button>
             )}
+            {fieldSuggestions.length > 0 ? (
+              <div className="search-suggestions">
+                {fieldSuggestions.map(field => (
+                  <button
+                    key={field.name}
+                    className="search-suggestion"
+                    onClick={() => acceptSuggestion(field.name)}
+                    title={field.description}
+                  >
+                    <span className="suggestion-field">{field.name}:</span>
+                    <span className="suggestion-description">{field.description}</span>
+                  </button>
+                ))}
+              </div>
+            ) : parsedQuery.errors.length > 0 && (
+              <div className="search-error">
+                {parsedQuery.errors.map(error => error.message).join(' · ')}
+              </div>
+            )}
           </div>
 
           <div className="dashboard-body">
+            <TruncationBanner loadSummary={loadSummary} />
+            <IntegrityBanner loadSummary={loadSummary} checks={integrityChecks} />
+            <ChunkIssuesBanner chunkIssues={chunkIssues} />
+
             {/* Duplicates View */}
             {filterType === 'duplicates' && (
               <DuplicatesView
@@ -200,6 +423,54 @@ const EntityDataDashboard = () => {
               />
             )}
 
+            {/* Inventory Reconciliation View */}
+            {filterType === 'inventory' && (
+              <InventoryReconciliationView
+                report={inventoryReport}
+                inventoryText={inventoryText}
+                onInventoryChange={setInventoryText}
+                copiedId={copiedId}
+                onCopy={copyToClipboard}
+              />
+            )}
+
+            {/* Data Corrections View */}
+            {filterType === 'corrections' && (
+              <CorrectionsView
+                corrections={filteredCorrections}
+                copiedId={copiedId}
+                onCopy={copyToClipboard}
+              />
+            )}
+
+            {/* Topology View */}
+            {filterType === 'topology' && (
+              <TopologyView topology={topology} onNavigate={navigateToTarget} />
+            )}
+
+            {/* Snapshot Changes View */}
+            {filterType === 'changes' && (
+              <ChangesView
+                changes={filteredChanges}
+                snapshots={snapshots}
+                baseSnapshot={baseSnapshot}
+                currentSnapshot={currentSnapshot}
+                onSelectBase={selectBaseSnapshot}
+                onClearHistory={clearHistory}
+                copiedId={copiedId}
+                onCopy={copyToClipboard}
+              />
+            )}
+
+            {/* Health Rule Views */}
+            {isHealthFilter(filterType) && (
+              <HealthRuleView
+                result={filteredHealthResults.find(result => result.rule.id === getHealthRuleId(filterType))}
+                copiedId={copiedId}
+                onCopy={copyToClipboard}
+              />
+            )}
+
             {/* Devices View */}
             {filterType === 'devices' && (
               <DevicesView
@@ -209,7 +480,27 @@ const EntityDataDashboard = () => {
                 isItemExpanded={isItemExpanded}
                 toggleType={toggleType}
                 togglePark={togglePark}
-                toggleItem={toggleItem}
+                toggleItem={selectItem}
+                highlightTerms={highlightTerms}
+                getSearchScore={getSearchScore}
+                sortOrder={deviceSort}
+              />
+            )}
+
+            {/* Offline Cameras View */}
+            {filterType === 'offline' && (
+              <DevicesView
+                groupedCameras={offlineCameras}
+                isTypeExpanded={isTypeExpanded}
+                isParkExpanded={isParkExpanded}
+                isItemExpanded={isItemExpanded}
+                toggleType={toggleType}
+                togglePark={togglePark}
+                toggleItem={selectItem}
+                highlightTerms={highlightTerms}
+                getSearchScore={getSearchScore}
+                sortOrder={deviceSort}
+                emptyMessage="No offline cameras."
               />
             )}
 
@@ -223,7 +514,9 @@ const EntityDataDashboard = () => {
                 isItemExpanded={isItemExpanded}
                 toggleType={toggleType}
                 togglePark={togglePark}
-                toggleItem={toggleItem}
+                toggleItem={selectItem}
+                highlightTerms={highlightTerms}
+                getSearchScore={getSearchScore}
                 getScenariosGroupedByCamera={getScenariosGroupedByCamera}
               />
             )}
@@ -238,7 +531,9 @@ const EntityDataDashboard = () => {
                 isItemExpanded={isItemExpanded}
                 toggleType={toggleType}
                 togglePark={togglePark}
-                toggleItem={toggleItem}
+                toggleItem={selectItem}
+                highlightTerms={highlightTerms}
+                getSearchScore={getSearchScore}
                 getScenariosGroupedByCamera={getScenariosGroupedByCamera}
               />
             )}
@@ -256,7 +551,10 @@ const EntityDataDashboard = () => {
                     isItemExpanded={isItemExpanded}
                     toggleType={toggleType}
                     togglePark={togglePark}
-                    toggleItem={toggleItem}
+                    toggleItem={selectItem}
+                    highlightTerms={highlightTerms}
+                    getSearchScore={getSearchScore}
+                    getPushChange={getPushChange}
                     getScenariosGroupedByCamera={getScenariosGroupedByCamera}
                   />
                 ))}
@@ -270,7 +568,10 @@ const EntityDataDashboard = () => {
                     isItemExpanded={isItemExpanded}
                     toggleType={toggleType}
                     togglePark={togglePark}
-                    toggleItem={toggleItem}
+                    toggleItem={selectItem}
+                    highlightTerms={highlightTerms}
+                    getSearchScore={getSearchScore}
+                    sortOrder={deviceSort}
                   />
                 )}
               </>
@@ -294,6 +595,8 @@ const EntityDataDashboard = () => {
         <span>UDX GSLM Camera Config Explorer v{version}</span>
         <span>Made by Sam Stanton UC - PWS</span>
       </footer>
+
+      {diagnosticsDrawer}
     </div>
   )
 }
@@ -494,7 +797,11 @@ interface DevicesViewProps {
   toggleType: (type: string) => void
   togglePark: (park: string) => void
   toggleItem: (id: string) => void
+  highlightTerms: string[]
+  getSearchScore: GetSearchScore
+  sortOrder: DeviceSortOrder
   hideNoResults?: boolean
+  emptyMessage?: string
 }
 
 const DevicesView = ({
@@ -505,8 +812,18 @@ const DevicesView = ({
   toggleType,
   togglePark,
   toggleItem,
-  hideNoResults = false
+  highlightTerms,
+  getSearchScore,
+  sortOrder,
+  hideNoResults = false,
+  emptyMessage = 'No camera devices found.'
 }: DevicesViewProps) => {
+  // Best search matches first, then the chosen order
+  const compareCameras = (a: CameraWithScenarios, b: CameraWithScenarios) =>
+    getSearchScore('camera', b.id) - getSearchScore('camera', a.id) ||
+    (sortOrder === 'last_seen' ? compareByLastSeen(a, b) : 0) ||
+    a.name.localeCompare(b.name)
+
   const configuredCount = Object.values(groupedCameras.configured).flat().length
   const hasConfigured = configuredCount > 0
   const hasUnconfigured = groupedCameras.unconfigured.length > 0
@@ -532,16 +849,17 @@ const DevicesView = ({
                 isExpanded={isParkExpanded(parkKey)}
                 onToggle={() => togglePark(parkKey)}
               >
-                {cameras.sort((a, b) => a.name.localeCompare(b.name)).map(camera => (
+                {cameras.sort(compareCameras).map(camera => (
                   <CollapsibleItem
                     key={camera.id}
+                    anchorId={toItemAnchorId(camera.id)}
                     isExpanded={isItemExpanded(camera.id)}
                     onToggle={() => toggleItem(camera.id)}
                     header={
                       <>
                         <div className="record-title">
-                          <span className="record-name">{camera.name}</span>
-                          <span className="record-id">{camera.hostname}</span>
+                          <span className="record-name"><HighlightedText text={camera.name} terms={highlightTerms} /></span>
+                          <span className="record-id"><HighlightedText text={camera.hostname} terms={highlightTerms} /></span>
                         </div>
                         <CameraDeviceSummary camera={camera} />
                       </>
@@ -567,16 +885,17 @@ const DevicesView = ({
           className="type-group type-unconfigured"
         >
           <div className="park-content">
-            {groupedCameras.unconfigured.sort((a, b) => a.name.localeCompare(b.name)).map(camera => (
+            {groupedCameras.unconfigured.sort(compareCameras).map(camera => (
               <CollapsibleItem
                 key={camera.id}
+                anchorId={toItemAnchorId(camera.id)}
                 isExpanded={isItemExpanded(camera.id)}
                 onToggle={() => toggleItem(camera.id)}
                 header={
                   <>
                     <div className="record-title">
-                      <span className="record-name">{camera.name}</span>
-                      <span className="record-id">{camera.hostname || 'No hostname'}</span>
+                      <span className="record-name"><HighlightedText text={camera.name} terms={highlightTerms} /></span>
+                      <span className="record-id">{camera.hostname ? <HighlightedText text={camera.hostname} terms={highlightTerms} /> : 'No hostname'}</span>
                     </div>
                     <CameraDeviceSummary camera={camera} isUnconfigured />
                   </>
@@ -591,7 +910,7 @@ const DevicesView = ({
 
       {!hideNoResults && !hasConfigured && !hasUnconfigured && (
         <div className="no-results">
-          <p>No camera devices found.</p>
+          <p>{emptyMessage}</p>
         </div>
       )}
     </>
@@ -611,6 +930,8 @@ interface VenueGroupsViewProps {
   toggleType: (type: string) => void
   togglePark: (park: string) => void
   toggleItem: (id: string) => void
+  highlightTerms: string[]
+  getSearchScore: GetSearchScore
   getScenariosGroupedByCamera: (venueId: string) => Record<string, { camera: import('../WidgetView').CameraDevice | null; scenarios: import('../WidgetView').EntityRecord[] }>
 }
 
@@ -623,6 +944,8 @@ const VenueGroupsView = ({
   toggleType,
   togglePark,
   toggleItem,
+  highlightTerms,
+  getSearchScore,
   getScenariosGroupedByCamera
 }: VenueGroupsViewProps) => {
   // Group venues by park
@@ -666,21 +989,23 @@ const VenueGroupsView = ({
             isExpanded={isParkExpanded(parkKey)}
             onToggle={() => togglePark(parkKey)}
           >
-            {venues.sort((a, b) => a.venueId.localeCompare(b.venueId)).map(venue => (
+            {venues.sort((a, b) => getSearchScore('venue', b.venueId) - getSearchScore('venue', a.venueId) || a.venueId.localeCompare(b.venueId)).map(venue => (
               <CollapsibleItem
                 key={venue.venueId}
+                anchorId={toItemAnchorId(venue.venueId)}
                 isExpanded={isItemExpanded(venue.venueId)}
                 onToggle={() => toggleItem(venue.venueId)}
                 header={
                   <>
                     <div className="record-title">
-                      <span className="record-name">{venue.venueId}</span>
+                      <span className="record-name"><HighlightedText text={venue.venueId} terms={highlightTerms} /></span>
                       <span className="record-id">{venue.scenarios.length} scenario{venue.scenarios.length !== 1 ? 's' : ''}</span>
                     </div>
                     <div className="record-summary">
                       <span className="summary-item">
                         <span className="summary-label">Park:</span> {venue.park}
                       </span>
+                      <MetricsSummary record={venue.venueRecord} />
                     </div>
                   </>
                 }
@@ -731,6 +1056,12 @@ const VenueGroupDetails = ({ venue, getScenariosGroupedByCamera }: VenueGroupDet
         </div>
       </div>
 
+      <RecordMetricsPanel record={venue.venueRecord} title="Venue Metrics" />
+
+      {venue.venueRecord && hasTimestamps(venue.venueRecord) && (
+        <TimestampHistogram record={venue.venueRecord} />
+      )}
+
       <div className="details-section">
         <h4>Linked Cameras & Scenarios ({hostnames.length} camera{hostnames.length !== 1 ? 's' : ''})</h4>
         <div className="linked-cameras-list">
@@ -795,6 +1126,9 @@ interface EntityRecordsSectionProps {
   toggleType: (type: string) => void
   togglePark: (park: string) => void
   toggleItem: (id: string) => void
+  highlightTerms: string[]
+  getSearchScore: GetSearchScore
+  getPushChange: GetPushChange
   getScenariosGroupedByCamera: ReturnType<typeof useDashboardData>['getScenariosGroupedByCamera']
 }
 
@@ -807,6 +1141,9 @@ const EntityRecordsSection = ({
   toggleType,
   togglePark,
   toggleItem,
+  highlightTerms,
+  getSearchScore,
+  getPushChange,
   getScenariosGroupedByCamera
 }: EntityRecordsSectionProps) => {
   const typeCount = Object.values(parks).flat().length
@@ -830,25 +1167,42 @@ const EntityRecordsSection = ({
             isExpanded={isParkExpanded(parkKey)}
             onToggle={() => togglePark(parkKey)}
           >
-            {records.sort((a, b) => a.name.localeCompare(b.name)).map(record => (
-              <CollapsibleItem
-                key={record.id}
-                isExpanded={isItemExpanded(record.id)}
-                onToggle={() => toggleItem(record.id)}
-                header={
-                  <>
-                    <div className="record-title">
-                      <span className="record-name">{record.name}</span>
-                      <span className="record-id">{record.unique_id}</span>
+            {records.sort((a, b) => getSearchScore('entity', b.id) - getSearchScore('entity', a.id) || a.name.localeCompare(b.name)).map(record => {
+              const pushChange = getPushChange(record.id)
+              return (
+                <CollapsibleItem
+                  key={record.id}
+                  anchorId={toItemAnchorId(record.id)}
+                  isExpanded={isItemExpanded(record.id)}
+                  onToggle={() => toggleItem(record.id)}
+                  header={
+                    <>
+                      <div className="record-title">
+                        <span className="record-name"><HighlightedText text={record.name} terms={highlightTerms} /></span>
+                        <span className="record-id"><HighlightedText text={record.unique_id} terms={highlightTerms} /></span>
+                      </div>
+                      {pushChange && (
+                        <span className={`badge push-change push-${pushChange}`} title="Changed in the latest realtime push">
+                          {PUSH_CHANGE_LABELS[pushChange]}
+                        </span>
+                      )}
+                      <RecordSummary record={record} />
+                    </>
+                  }
+                >
+                  {record.record_type === 'camera_scenario' && <CameraScenarioDetails record={record} />}
+                  {(record.record_type !== 'camera_scenario' || hasMetrics(record.metrics) || hasTimestamps(record)) && (
+                    <div className="record-details">
+                      {(record.record_type !== 'camera_scenario' || hasMetrics(record.metrics)) && (
+                        <RecordMetricsPanel record={record} />
+                      )}
+                      {hasTimestamps(record) && <TimestampHistogram record={record} />}
                     </div>
-                    <RecordSummary record={record} />
-                  </>
-                }
-              >
-                {record.record_type === 'camera_scenario' && <CameraScenarioDetails record={record} />}
-                <RecordMetadata record={record} />
-              </CollapsibleItem>
-            ))}
+                  )}
+                  <RecordMetadata record={record} />
+                </CollapsibleItem>
+                )
+            })}
           </CollapsiblePark>
         )
       })}
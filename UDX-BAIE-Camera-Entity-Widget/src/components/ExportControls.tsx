@@ -0,0 +1,31 @@
+import { ExportFormat, ViewExportData, buildViewExportRows, exportRows } from '../utils/exportUtils'
+import { FilterType } from '../types/dashboard'
+
+interface ExportControlsProps {
+  filterType: FilterType
+  // What the current view shows, after search and filter
+  data: ViewExportData
+}
+
+export const ExportControls = ({ filterType, data }: ExportControlsProps) => {
+  const handleExport = (format: ExportFormat) => {
+    const rows = buildViewExportRows(filterType, data)
+
+    if (rows.length === 0) {
+      console.warn('No data to export')
+      return
+    }
+
+    exportRows(rows, format, `camera-config-${filterType.replace(':', '-')}`)
+  }
+
+  return (
+    <>
+      <h3 className="sidebar-title">Export View</h3>
+      <div className="expand-controls">
+        <button className="expand-btn" onClick={() => handleExport('csv')}>Download CSV</button>
+        <button className="expand-btn" onClick={() => handleExport('json')}>Download JSON</button>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,122 @@
+import { ComponentChildren } from 'preact'
+import { toHealthFilter } from '../utils/healthRules'
+import { DuplicateGroup, FilterType, HealthRuleResult, InventoryReport } from '../types/dashboard'
+
+interface FilterButtonProps {
+  filter: FilterType
+  current: FilterType
+  onSelect: (filterType: FilterType) => void
+  className?: string
+  title?: string
+  children: ComponentChildren
+}
+
+const FilterButton = ({ filter, current, onSelect, className, title, children }: FilterButtonProps) => (
+  <button
+    className={`filter-btn ${className || ''} ${current === filter ? 'active' : ''}`}
+    onClick={() => onSelect(filter)}
+    title={title}
+  >
+    {children}
+  </button>
+)
+
+interface FilterButtonsProps {
+  filterType: FilterType
+  onSelect: (filterType: FilterType) => void
+  // Entity records plus camera devices
+  totalCount: number
+  totalCounts: Record<string, number>
+  offlineCameraCount: number
+  duplicateRecords: DuplicateGroup[]
+  unconfiguredCount: number
+  // Null until an inventory has been pasted or uploaded
+  inventoryReport: InventoryReport | null
+  correctionCount: number
+  snapshotCount: number
+  changeCount: number
+  healthResults: HealthRuleResult[]
+}
+
+/**
+ * One button per view. Views for problems (offline cameras, duplicates, corrections, health
+ * rules) only get a button while there is something to show.
+ */
+export const FilterButtons = ({
+  filterType,
+  onSelect,
+  totalCount,
+  totalCounts,
+  offlineCameraCount,
+  duplicateRecords,
+  unconfiguredCount,
+  inventoryReport,
+  correctionCount,
+  snapshotCount,
+  changeCount,
+  healthResults
+}: FilterButtonsProps) => {
+  const buttonProps = { current: filterType, onSelect }
+
+  return (
+    <div className="filter-buttons">
+      <FilterButton filter="all" {...buttonProps}>
+        All ({totalCount})
+      </FilterButton>
+      <FilterButton filter="camera_scenario" className="filter-camera" {...buttonProps}>
+        Cameras ({totalCounts.camera_scenario || 0})
+      </FilterButton>
+      <FilterButton filter="queue_venue" className="filter-queue" {...buttonProps}>
+        Queues ({totalCounts.queue_venue || 0})
+      </FilterButton>
+      <FilterButton filter="occupancy_venue" className="filter-occupancy" {...buttonProps}>
+        Occupancy ({totalCounts.occupancy_venue || 0})
+      </FilterButton>
+      <FilterButton filter="devices" className="filter-devices" {...buttonProps}>
+        Devices ({totalCounts.devices || 0})
+      </FilterButton>
+      {offlineCameraCount > 0 && (
+        <FilterButton filter="offline" className="filter-offline" {...buttonProps}>
+          Offline Cameras ({offlineCameraCount})
+        </FilterButton>
+      )}
+      <FilterButton filter="topology" className="filter-topology" {...buttonProps}>
+        Topology
+      </FilterButton>
+      {duplicateRecords.length > 0 && (
+        <FilterButton filter="duplicates" className="filter-duplicates" {...buttonProps}>
+          Duplicates ({duplicateRecords.reduce((sum, d) => sum + d.records.length, 0)})
+        </FilterButton>
+      )}
+      {unconfiguredCount > 0 && (
+        <FilterButton filter="unconfigured" className="filter-unconfigured" {...buttonProps}>
+          Unconfigured ({unconfiguredCount})
+        </FilterButton>
+      )}
+      <FilterButton filter="inventory" className="filter-inventory" {...buttonProps}>
+        Inventory Check{inventoryReport ? ` (${inventoryReport.counts.missing + inventoryReport.counts.unexpected})` : ''}
+      </FilterButton>
+      {correctionCount > 0 && (
+        <FilterButton filter="corrections" className="filter-corrections" {...buttonProps}>
+          Corrections ({correctionCount})
+        </FilterButton>
+      )}
+      {snapshotCount > 1 && (
+        <FilterButton filter="changes" className="filter-changes" {...buttonProps}>
+          What Changed ({changeCount})
+        </FilterButton>
+      )}
+      {healthResults.filter(result => result.issues.length > 0).map(({ rule, issues }) => (
+        <FilterButton
+          key={rule.id}
+          filter={toHealthFilter(rule.id)}
+          className={`filter-health severity-${rule.severity}`}
+          title={rule.description}
+          {...buttonProps}
+        >
+          {rule.label} ({issues.length})
+        </FilterButton>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,87 @@
+import { HealthRuleResult, RecordType, RECORD_TYPE_ICONS } from '../types/dashboard'
+
+interface HealthRuleViewProps {
+  result: HealthRuleResult | undefined
+  copiedId: string | null
+  onCopy: (text: string) => void
+}
+
+export const HealthRuleView = ({ result, copiedId, onCopy }: HealthRuleViewProps) => {
+  if (!result) {
+    return (
+      <div className="no-results">
+        <p>Unknown health check.</p>
+      </div>
+    )
+  }
+
+  const { rule, issues } = result
+  const parks = new Set(issues.map(issue => issue.park || 'Unknown'))
+
+  return (
+    <div className={`health-section severity-${rule.severity}`}>
+      <div className="health-header">
+        <h2>
+          {rule.label}
+          <span className={`badge health-severity severity-${rule.severity}`}>{rule.severity}</span>
+        </h2>
+        <p className="health-description">
+          {rule.description} Click an ID to copy it.
+        </p>
+      </div>
+
+      {issues.length === 0 ? (
+        <div className="no-results">
+          <p>No issues found for this check.</p>
+        </div>
+      ) : (
+        <table className="dup-table health-table">
+          <thead>
+            <tr>
+              <th>Type</th>
+              <th>Name</th>
+              <th>Park</th>
+              <th>Problem</th>
+              <th>ID (click to copy)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {issues.map(issue => (
+              <tr key={`${issue.ruleId}_${issue.subjectId}`} className="health-row">
+                <td className="rec-type">
+                  {issue.camera ? (
+                    <span className="type-badge-small devices">DEV</span>
+                  ) : (
+                    <span className={`type-badge-small ${issue.record?.record_type || 'venue'}`}>
+                      {issue.record ? RECORD_TYPE_ICONS[issue.record.record_type as RecordType] || '?' : 'VEN'}
+                    </span>
+                  )}
+                </td>
+                <td className="rec-name">{issue.subjectLabel}</td>
+                <td className="rec-park">{issue.park || '-'}</td>
+                <td className="health-message">{issue.message}</td>
+                <td className="rec-id">
+                  <button
+                    className={`copy-id-btn ${copiedId === issue.subjectId ? 'copied' : ''}`}
+                    onClick={() => onCopy(issue.subjectId)}
+                    title="Click to copy"
+                  >
+                    {copiedId === issue.subjectId ? 'Copied!' : issue.subjectId}
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="health-summary">
+        <p>
+          <strong>Issues:</strong> {issues.length}
+          {' | '}
+          <strong>Parks affected:</strong> {issues.length > 0 ? parks.size : 0}
+        </p>
+      </div>
+    </div>
+  )
+}
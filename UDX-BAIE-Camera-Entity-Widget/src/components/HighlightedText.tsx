@@ -0,0 +1,28 @@
+interface HighlightedTextProps {
+  text: string | null | undefined
+  terms: string[]
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Wraps every case-insensitive occurrence of the search terms in a <mark>
+ */
+export const HighlightedText = ({ text, terms }: HighlightedTextProps) => {
+  if (!text) return null
+  if (terms.length === 0) return <>{text}</>
+
+  // Longest first so "entry" wins over "en" when both are terms
+  const pattern = new RegExp(`(${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})`, 'gi')
+  const parts = text.split(pattern)
+
+  return (
+    <>
+      {parts.map((part, index) => (
+        index % 2 === 1
+          ? <mark key={index} className="search-highlight">{part}</mark>
+          : part
+      ))}
+    </>
+  )
+}
@@ -0,0 +1,31 @@
+import { IntegrityCheck, LoadSummary } from '../types/dashboard'
+
+interface IntegrityBannerProps {
+  loadSummary: LoadSummary | null
+  checks: IntegrityCheck[]
+}
+
+export const IntegrityBanner = ({ loadSummary, checks }: IntegrityBannerProps) => {
+  if (!loadSummary || checks.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="details-section alert-section integrity-issues">
+      <h4>
+        Data Does Not Match the Analysis Summary ({checks.length})
+        {loadSummary.lastUpdate && ` | analysis ran ${new Date(loadSummary.lastUpdate).toLocaleString()}`}
+      </h4>
+      <div className="integrity-check-list">
+        {checks.map(check => (
+          <div key={check.key} className="alert-message integrity-check">
+            <span className="alert-icon">!</span>
+            <span className="integrity-check-label">{check.label}</span>
+            <span className="badge badge-danger">{check.parsed}/{check.expected}</span>
+            <span className="integrity-check-message">{check.message}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
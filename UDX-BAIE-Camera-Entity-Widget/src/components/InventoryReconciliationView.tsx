@@ -0,0 +1,204 @@
+import { useMemo, useState } from 'preact/hooks'
+import { InventoryMatch, InventoryReport, InventoryStatus } from '../types/dashboard'
+import {
+  INVENTORY_STATUSES,
+  INVENTORY_STATUS_LABELS,
+  buildInventoryReportCsv,
+  getCameraMacAddresses
+} from '../utils/inventoryUtils'
+
+interface InventoryReconciliationViewProps {
+  // Null until an inventory has been pasted or uploaded
+  report: InventoryReport | null
+  inventoryText: string
+  onInventoryChange: (text: string) => void
+  copiedId: string | null
+  onCopy: (text: string) => void
+}
+
+const MATCHED_BY_LABELS: Record<NonNullable<InventoryMatch['matchedBy']>, string> = {
+  mac: 'MAC',
+  hostname: 'Hostname',
+  ip_address: 'IP address'
+}
+
+const getMatchKey = (match: InventoryMatch): string => {
+  return match.entry ? `line_${match.entry.line}` : `camera_${match.camera?.id}`
+}
+
+/**
+ * Compares the camera devices with an installer's inventory CSV pasted or uploaded by the user
+ */
+export const InventoryReconciliationView = ({
+  report,
+  inventoryText,
+  onInventoryChange,
+  copiedId,
+  onCopy
+}: InventoryReconciliationViewProps) => {
+  const [statusFilter, setStatusFilter] = useState<InventoryStatus | 'all'>('all')
+
+  const reportCsv = useMemo(() => report ? buildInventoryReportCsv(report) : '', [report])
+
+  const visibleMatches = report
+    ? report.matches.filter(match => statusFilter === 'all' || match.status === statusFilter)
+    : []
+
+  const handleFileChange = async (event: Event) => {
+    const input = event.currentTarget as HTMLInputElement
+    const file = input.files?.[0]
+    if (!file) return
+    onInventoryChange(await file.text())
+    // Allow picking the same file again after editing it
+    input.value = ''
+  }
+
+  return (
+    <div className="inventory-section">
+      <div className="inventory-header">
+        <h2>Inventory Reconciliation</h2>
+        <p className="inventory-description">
+          Paste or upload the installer's inventory CSV (MAC, park, location, friendly name; hostname and IP address columns are optional).
+          Cameras are matched by the MAC in their hostname or tags, then by hostname, then by IP address.
+        </p>
+        <textarea
+          className="inventory-input"
+          value={inventoryText}
+          onInput={(e) => onInventoryChange((e.target as HTMLTextAreaElement).value)}
+          placeholder={'mac,park,location,friendly_name\nB8:A4:4F:FF:01:B7,North Park,Gate 1,Entrance Queue'}
+          rows={6}
+          spellcheck={false}
+        />
+        <div className="inventory-actions">
+          <label className="expand-btn inventory-upload">
+            Upload CSV
+            <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={handleFileChange} />
+          </label>
+          {inventoryText && (
+            <button className="expand-btn" onClick={() => onInventoryChange('')}>Clear</button>
+          )}
+          {report && report.matches.length > 0 && (
+            <button
+              className={`copy-id-btn inventory-copy ${copiedId === reportCsv ? 'copied' : ''}`}
+              onClick={() => onCopy(reportCsv)}
+            >
+              {copiedId === reportCsv ? 'Copied!' : 'Copy report as CSV'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {report && report.errors.length > 0 && (
+        <div className="details-section warning-section">
+          <h4>Skipped Inventory Rows ({report.errors.length})</h4>
+          {report.errors.map(error => (
+            <div key={error.line} className="warning-message">
+              <span className="alert-icon">!</span>
+              Line {error.line}: {error.message}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="inventory-status-filters">
+            <button
+              className={`filter-btn ${statusFilter === 'all' ? 'active' : ''}`}
+              onClick={() => setStatusFilter('all')}
+            >
+              All ({report.matches.length})
+            </button>
+            {INVENTORY_STATUSES.map(status => (
+              <button
+                key={status}
+                className={`filter-btn inventory-status-${status} ${statusFilter === status ? 'active' : ''}`}
+                onClick={() => setStatusFilter(status)}
+              >
+                {INVENTORY_STATUS_LABELS[status]} ({report.counts[status]})
+              </button>
+            ))}
+          </div>
+
+          {visibleMatches.length === 0 ? (
+            <div className="no-results">
+              <p>No cameras in this category.</p>
+            </div>
+          ) : (
+            <table className="dup-table inventory-table">
+              <thead>
+                <tr>
+                  <th>Status</th>
+                  <th>MAC</th>
+                  <th>Inventory</th>
+                  <th>Device</th>
+                  <th>Matched By</th>
+                  <th>Device ID (click to copy)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleMatches.map(match => (
+                  <tr key={getMatchKey(match)} className={`inventory-row status-${match.status}`}>
+                    <td>
+                      <span className={`badge inventory-badge status-${match.status}`}>{INVENTORY_STATUS_LABELS[match.status]}</span>
+                    </td>
+                    <td className="rec-unique-id">
+                      {match.entry?.macAddress || (match.camera && getCameraMacAddresses(match.camera)[0]) || '-'}
+                    </td>
+                    <td>
+                      {match.entry ? (
+                        <>
+                          <div className="rec-name">{match.entry.friendlyName || '-'}</div>
+                          <div className="rec-park">
+                            {[match.entry.park, match.entry.location].filter(Boolean).join(' / ') || '-'}
+                            {' '}(line {match.entry.line})
+                          </div>
+                        </>
+                      ) : '-'}
+                    </td>
+                    <td>
+                      {match.camera ? (
+                        <>
+                          <div className="rec-name">{match.camera.name}</div>
+                          <div className="rec-park">
+                            {[match.camera.hostname, match.camera.ip_address, match.camera.park].filter(Boolean).join(' | ')}
+                          </div>
+                        </>
+                      ) : '-'}
+                      {match.differences.map(difference => (
+                        <div key={difference} className="inventory-difference">{difference}</div>
+                      ))}
+                    </td>
+                    <td>{match.matchedBy ? MATCHED_BY_LABELS[match.matchedBy] : '-'}</td>
+                    <td className="rec-id">
+                      {match.camera ? (
+                        <button
+                          className={`copy-id-btn ${copiedId === match.camera.id ? 'copied' : ''}`}
+                          onClick={() => onCopy(match.camera!.id)}
+                          title="Click to copy"
+                        >
+                          {copiedId === match.camera.id ? 'Copied!' : match.camera.id}
+                        </button>
+                      ) : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <div className="inventory-summary">
+            <p>
+              {INVENTORY_STATUSES.map((status, index) => (
+                <span key={status}>
+                  {index > 0 && ' | '}
+                  <strong>{INVENTORY_STATUS_LABELS[status]}:</strong> {report.counts[status]}
+                </span>
+              ))}
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
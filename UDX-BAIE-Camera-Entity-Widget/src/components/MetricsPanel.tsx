@@ -0,0 +1,195 @@
+import { EntityRecord } from '../WidgetView'
+import {
+  hasMetrics,
+  getMetricsAgeMinutes,
+  getMetricsFreshness,
+  getCapacityUtilization,
+  formatMetricValue,
+  formatConfidence,
+  formatAge,
+  formatTime
+} from '../utils/metricsUtils'
+
+interface MetricCardProps {
+  kind: string
+  icon: string
+  label: string
+  value: string
+  detail?: string
+}
+
+const MetricCard = ({ kind, icon, label, value, detail }: MetricCardProps) => (
+  <div className={`metric-card ${kind}`}>
+    <span className="metric-icon">{icon}</span>
+    <div className="metric-info">
+      <span className="metric-label">{label}</span>
+      <span className="metric-number">{value}</span>
+      {detail && <span className="metric-detail">{detail}</span>}
+    </div>
+  </div>
+)
+
+interface StaleBadgeProps {
+  metrics: EntityRecord['metrics'] | null | undefined
+}
+
+export const StaleBadge = ({ metrics }: StaleBadgeProps) => {
+  const freshness = getMetricsFreshness(metrics)
+  const age = getMetricsAgeMinutes(metrics)
+
+  if (freshness === 'unknown' || age === null) {
+    return <span className="badge badge-neutral freshness-badge">No update time</span>
+  }
+
+  return (
+    <span
+      className={`badge ${freshness === 'stale' ? 'badge-warning' : 'badge-success'} freshness-badge`}
+      title={formatTime(metrics?.last_update)}
+    >
+      {freshness === 'stale' ? 'Stale' : 'Live'} - {formatAge(age)}
+    </span>
+  )
+}
+
+interface RecordMetricsPanelProps {
+  record: EntityRecord | null
+  title?: string
+}
+
+export const RecordMetricsPanel = ({ record, title = 'Live Metrics' }: RecordMetricsPanelProps) => {
+  const metrics = record?.metrics
+
+  if (!record || !hasMetrics(metrics)) {
+    return (
+      <div className="details-section metrics-section">
+        <h4>{title}</h4>
+        <p className="no-metrics">No live metrics reported for this record</p>
+      </div>
+    )
+  }
+
+  const m = metrics!
+  const capacity = getCapacityUtilization(m, record.settings)
+
+  // Only show cards for values the record actually reports
+  const cards: MetricCardProps[] = []
+  if (m.current_queue !== undefined) cards.push({ kind: 'queue', icon: 'Q', label: 'Current Queue', value: formatMetricValue(m.current_queue) })
+  if (m.current_wait !== undefined) cards.push({ kind: 'wait', icon: 'W', label: 'Current Wait', value: `${formatMetricValue(m.current_wait)} min` })
+  if (m.current_occupancy !== undefined) cards.push({ kind: 'occupancy', icon: 'O', label: 'Occupancy', value: formatMetricValue(m.current_occupancy) })
+  if (m.throughput !== undefined) cards.push({ kind: 'throughput', icon: 'T', label: 'Throughput', value: formatMetricValue(m.throughput, 1) })
+  if (m.total_entries !== undefined) cards.push({ kind: 'entries', icon: 'IN', label: 'Entries Today', value: formatMetricValue(m.total_entries) })
+  if (m.total_exits !== undefined) cards.push({ kind: 'exits', icon: 'OUT', label: 'Exits Today', value: formatMetricValue(m.total_exits) })
+  if (m.peak_today !== undefined) {
+    cards.push({
+      kind: 'peak',
+      icon: 'P',
+      label: 'Peak Today',
+      value: formatMetricValue(m.peak_today),
+      detail: m.peak_time ? formatTime(m.peak_time) : undefined
+    })
+  }
+  if (m.confidence !== undefined) cards.push({ kind: 'confidence', icon: 'C', label: 'Confidence', value: formatConfidence(m.confidence) })
+  if (m.drift_amount !== undefined) cards.push({ kind: 'drift', icon: 'D', label: 'Drift', value: formatMetricValue(m.drift_amount) })
+
+  const yesterday: { label: string, value: number | undefined }[] = [
+    { label: 'Entries', value: m.yesterday_entries },
+    { label: 'Exits', value: m.yesterday_exits },
+    { label: 'Final Queue', value: m.yesterday_final_queue },
+    { label: 'Max Queue', value: m.yesterday_max_queue },
+    { label: 'Final Count', value: m.yesterday_final_count }
+  ].filter(item => item.value !== undefined)
+
+  return (
+    <div className="details-section metrics-section">
+      <h4 className="metrics-title">
+        <span>{title}</span>
+        <StaleBadge metrics={m} />
+      </h4>
+
+      {cards.length > 0 && (
+        <div className="metric-cards">
+          {cards.map(card => <MetricCard key={card.kind} {...card} />)}
+        </div>
+      )}
+
+      {capacity && (
+        <div className={`capacity-utilization capacity-${capacity.status}`}>
+          <div className="capacity-header">
+            <span className="detail-label">Capacity Utilization</span>
+            <span className="capacity-value">
+              {capacity.current} / {capacity.maxCapacity} ({capacity.percent.toFixed(0)}%)
+            </span>
+          </div>
+          <div className="capacity-bar">
+            <div className="capacity-fill" style={{ width: `${Math.min(capacity.percent, 100)}%` }} />
+            {capacity.warningPercent !== null && capacity.warningPercent < 100 && (
+              <div
+                className="capacity-threshold"
+                style={{ left: `${capacity.warningPercent}%` }}
+                title={`Warning threshold ${capacity.warningPercent.toFixed(0)}%`}
+              />
+            )}
+          </div>
+        </div>
+      )}
+
+      {yesterday.length > 0 && (
+        <div className="yesterday-metrics">
+          <span className="detail-label">Yesterday</span>
+          <div className="detail-grid">
+            {yesterday.map(item => (
+              <div key={item.label} className="detail-item">
+                <span className="detail-label">{item.label}</span>
+                <span className="detail-value">{formatMetricValue(item.value)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(m.last_event || m.reset_reason) && (
+        <div className="detail-grid metrics-footer">
+          {m.last_event && (
+            <div className="detail-item">
+              <span className="detail-label">Last Event</span>
+              <span className="detail-value">{m.last_event}</span>
+            </div>
+          )}
+          {m.reset_reason && (
+            <div className="detail-item">
+              <span className="detail-label">Last Reset</span>
+              <span className="detail-value">{m.reset_reason} ({formatTime(m.last_reset)})</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+interface MetricsSummaryProps {
+  record: EntityRecord | null
+}
+
+/**
+ * Compact current values for collapsed record headers
+ */
+export const MetricsSummary = ({ record }: MetricsSummaryProps) => {
+  const metrics = record?.metrics
+  if (!record || !hasMetrics(metrics)) return null
+
+  return (
+    <>
+      {metrics!.current_queue !== undefined && (
+        <span className="summary-item highlight-queue">Queue: {formatMetricValue(metrics!.current_queue)}</span>
+      )}
+      {metrics!.current_wait !== undefined && (
+        <span className="summary-item highlight-wait">Wait: {formatMetricValue(metrics!.current_wait)} min</span>
+      )}
+      {metrics!.current_occupancy !== undefined && (
+        <span className="summary-item highlight-occupancy">Occ: {formatMetricValue(metrics!.current_occupancy)}</span>
+      )}
+      <StaleBadge metrics={metrics} />
+    </>
+  )
+}
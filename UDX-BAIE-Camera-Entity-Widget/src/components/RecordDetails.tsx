@@ -1,4 +1,6 @@
 import { EntityRecord } from '../WidgetView'
+import { MetricsSummary } from './MetricsPanel'
+import { hasMetrics } from '../utils/metricsUtils'
 
 interface CameraScenarioDetailsProps {
   record: EntityRecord
@@ -96,7 +98,12 @@ interface RecordSummaryProps {
 
 export const RecordSummary = ({ record }: RecordSummaryProps) => {
   if (record.record_type !== 'camera_scenario') {
-    return null
+    if (!hasMetrics(record.metrics)) return null
+    return (
+      <div className="record-summary">
+        <MetricsSummary record={record} />
+      </div>
+    )
   }
 
   return (
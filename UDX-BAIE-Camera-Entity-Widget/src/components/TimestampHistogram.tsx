@@ -0,0 +1,113 @@
+import { useMemo, useState } from 'preact/hooks'
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts'
+import { EntityRecord } from '../WidgetView'
+import { BinMinutes, BIN_OPTIONS, buildTimestampHistogram } from '../utils/timestampUtils'
+
+// Type assertion for recharts components to work with Preact
+const Chart = ComposedChart as any
+const ChartBar = Bar as any
+const ChartLine = Line as any
+const ChartXAxis = XAxis as any
+const ChartYAxis = YAxis as any
+const ChartGrid = CartesianGrid as any
+const ChartTooltip = Tooltip as any
+const ChartLegend = Legend as any
+const ChartContainer = ResponsiveContainer as any
+
+interface ComparisonItemProps {
+  label: string
+  derived: number
+  reported: number | undefined
+}
+
+const ComparisonItem = ({ label, derived, reported }: ComparisonItemProps) => {
+  const matches = reported === undefined || reported === derived
+
+  return (
+    <div className="detail-item">
+      <span className="detail-label">{label}</span>
+      <span className="detail-value">
+        {derived}
+        {reported !== undefined && (
+          <span className={`badge ${matches ? 'badge-success' : 'badge-warning'} histogram-compare`}>
+            reported {reported}
+          </span>
+        )}
+      </span>
+    </div>
+  )
+}
+
+interface TimestampHistogramProps {
+  record: EntityRecord
+}
+
+export const TimestampHistogram = ({ record }: TimestampHistogramProps) => {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [binMinutes, setBinMinutes] = useState<BinMinutes>(15)
+
+  const entryTimestamps = record.timestamps?.entry_timestamps || []
+  const exitTimestamps = record.timestamps?.exit_timestamps || []
+
+  const histogram = useMemo(
+    () => (isExpanded ? buildTimestampHistogram(entryTimestamps, exitTimestamps, binMinutes) : null),
+    [isExpanded, entryTimestamps, exitTimestamps, binMinutes]
+  )
+
+  return (
+    <div className="details-section histogram-section">
+      <h4 className="histogram-toggle" onClick={() => setIsExpanded(!isExpanded)}>
+        <span className="expand-icon">{isExpanded ? '-' : '+'}</span>
+        Crossline Events ({entryTimestamps.length} entries, {exitTimestamps.length} exits)
+      </h4>
+
+      {isExpanded && histogram && (
+        <>
+          <div className="histogram-controls">
+            <span className="detail-label">Interval</span>
+            {BIN_OPTIONS.map(option => (
+              <button
+                key={option}
+                className={`expand-btn ${binMinutes === option ? 'active' : ''}`}
+                onClick={() => setBinMinutes(option)}
+              >
+                {option} min
+              </button>
+            ))}
+          </div>
+
+          <div className="histogram-chart">
+            <ChartContainer width="100%" height={260}>
+              <Chart data={histogram.bins} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <ChartGrid strokeDasharray="3 3" stroke="#e8f0f4" />
+                <ChartXAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={16} />
+                <ChartYAxis yAxisId="events" allowDecimals={false} tick={{ fontSize: 11 }} />
+                <ChartYAxis yAxisId="queue" orientation="right" allowDecimals={false} tick={{ fontSize: 11 }} />
+                <ChartTooltip />
+                <ChartLegend wrapperStyle={{ fontSize: 12 }} />
+                <ChartBar yAxisId="events" dataKey="entries" name="Entries" fill="#2563eb" />
+                <ChartBar yAxisId="events" dataKey="exits" name="Exits" fill="#ec4899" />
+                <ChartLine
+                  yAxisId="queue"
+                  type="stepAfter"
+                  dataKey="queue"
+                  name="Derived Queue"
+                  stroke="#dc2626"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </Chart>
+            </ChartContainer>
+          </div>
+
+          <div className="detail-grid">
+            <ComparisonItem label="Derived Queue" derived={histogram.derivedQueue} reported={record.metrics?.current_queue} />
+            <ComparisonItem label="Derived Rejected Exits" derived={histogram.derivedRejectedExits} reported={record.metrics?.rejected_exits} />
+            <ComparisonItem label="Raw Entries" derived={histogram.totalEntries} reported={record.metrics?.total_entries} />
+            <ComparisonItem label="Raw Exits" derived={histogram.totalExits} reported={record.metrics?.total_exits} />
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,140 @@
+import { useState, useMemo } from 'preact/hooks'
+import { TopologyNode, TopologyNodeKind, TopologyTarget } from '../types/dashboard'
+import {
+  TOPOLOGY_NODE_WIDTH,
+  TOPOLOGY_NODE_HEIGHT,
+  countOrphans,
+  layoutTopology
+} from '../utils/topologyUtils'
+
+interface TopologyViewProps {
+  topology: TopologyNode[]
+  onNavigate: (target: TopologyTarget) => void
+}
+
+const MAX_LABEL_LENGTH = 24
+
+const truncate = (value: string): string => {
+  return value.length > MAX_LABEL_LENGTH ? `${value.slice(0, MAX_LABEL_LENGTH - 1)}…` : value
+}
+
+export const TopologyView = ({ topology, onNavigate }: TopologyViewProps) => {
+  // Venues start collapsed so the first view is parks and venues only. Toggled nodes are kept as
+  // exceptions to the default, so venues arriving in a later refresh follow the default too.
+  const [collapsedKinds, setCollapsedKinds] = useState<TopologyNodeKind[]>(['venue'])
+  const [toggled, setToggled] = useState<Set<string>>(new Set())
+
+  const layout = useMemo(() => {
+    return layoutTopology(topology, node => collapsedKinds.includes(node.kind) !== toggled.has(node.key))
+  }, [topology, collapsedKinds, toggled])
+  const orphanCounts = useMemo(() => {
+    const counts = new Map<string, number>()
+    layout.nodes.forEach(({ node }) => counts.set(node.key, countOrphans(node)))
+    return counts
+  }, [layout])
+  const totalOrphans = topology.reduce((sum, park) => sum + countOrphans(park), 0)
+
+  const resetCollapsed = (kinds: TopologyNodeKind[]) => {
+    setCollapsedKinds(kinds)
+    setToggled(new Set())
+  }
+
+  const toggleNode = (key: string) => {
+    setToggled(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const handleNodeClick = (node: TopologyNode) => {
+    if (node.target) {
+      onNavigate(node.target)
+    } else if (node.children.length > 0) {
+      toggleNode(node.key)
+    }
+  }
+
+  if (topology.length === 0) {
+    return (
+      <div className="no-results">
+        <p>No scenarios or venues to map.</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="topology-section">
+      <div className="topology-header">
+        <h2>Topology</h2>
+        <p className="topology-description">
+          Park → venue → camera → scenario. Click a node to open its detail card, or +/- to expand it.
+          Orphans (scenarios without a camera device, venues without scenarios) are outlined in red.
+        </p>
+        <div className="topology-controls">
+          <button className="expand-btn" onClick={() => resetCollapsed([])}>Expand All</button>
+          <button className="expand-btn" onClick={() => resetCollapsed(['venue'])}>Collapse Venues</button>
+          <span className="topology-orphans">
+            <strong>Orphans:</strong> {totalOrphans}
+          </span>
+        </div>
+      </div>
+
+      <div className="topology-canvas">
+        <svg width={layout.width} height={layout.height} className="topology-svg">
+          {layout.edges.map(edge => {
+            const midX = (edge.fromX + edge.toX) / 2
+            return (
+              <path
+                key={edge.key}
+                className={`topology-edge ${edge.orphan ? 'orphan' : ''}`}
+                d={`M ${edge.fromX} ${edge.fromY} C ${midX} ${edge.fromY}, ${midX} ${edge.toY}, ${edge.toX} ${edge.toY}`}
+              />
+            )
+          })}
+
+          {layout.nodes.map(({ node, x, y, isCollapsed }) => {
+            const orphanCount = orphanCounts.get(node.key) || 0
+            const top = y - TOPOLOGY_NODE_HEIGHT / 2
+            return (
+              <g
+                key={node.key}
+                className={`topology-node kind-${node.kind} ${node.orphan ? 'orphan' : ''} ${node.target ? 'navigable' : ''}`}
+              >
+                <title>{[node.label, node.sublabel, node.orphan].filter(Boolean).join(' · ')}</title>
+                <rect
+                  x={x}
+                  y={top}
+                  width={TOPOLOGY_NODE_WIDTH}
+                  height={TOPOLOGY_NODE_HEIGHT}
+                  rx={4}
+                  onClick={() => handleNodeClick(node)}
+                />
+                <text x={x + 8} y={y + 4} onClick={() => handleNodeClick(node)}>
+                  {truncate(node.label)}
+                </text>
+                {isCollapsed && orphanCount > 0 && (
+                  <text className="topology-orphan-count" x={x + TOPOLOGY_NODE_WIDTH - 30} y={y + 4}>
+                    !{orphanCount}
+                  </text>
+                )}
+                {node.children.length > 0 && (
+                  <g className="topology-toggle" onClick={() => toggleNode(node.key)}>
+                    <circle cx={x + TOPOLOGY_NODE_WIDTH - 12} cy={y} r={7} />
+                    <text x={x + TOPOLOGY_NODE_WIDTH - 12} y={y + 4}>
+                      {isCollapsed ? '+' : '-'}
+                    </text>
+                  </g>
+                )}
+              </g>
+            )
+          })}
+        </svg>
+      </div>
+    </div>
+  )
+}
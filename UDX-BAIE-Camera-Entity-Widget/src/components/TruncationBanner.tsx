@@ -0,0 +1,30 @@
+import { LoadSummary } from '../types/dashboard'
+
+interface TruncationBannerProps {
+  loadSummary: LoadSummary | null
+}
+
+export const TruncationBanner = ({ loadSummary }: TruncationBannerProps) => {
+  if (!loadSummary || loadSummary.truncated.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="details-section warning-section truncation-warning">
+      <h4>Data Truncated by the Analysis</h4>
+      <div className="truncation-list">
+        {loadSummary.truncated.map(source => (
+          <div key={source.key} className="warning-message">
+            <span className="alert-icon">!</span>
+            <span className="truncation-label">{source.label}</span>
+            <span>
+              {source.limit !== null
+                ? `Only the first ${source.limit} were loaded — counts and views below are incomplete.`
+                : 'Not all were loaded — counts and views below are incomplete.'}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
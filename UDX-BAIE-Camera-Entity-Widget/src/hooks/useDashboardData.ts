@@ -3,37 +3,59 @@ import { EntityRecord, CameraDevice } from '../WidgetView'
 import {
   GroupedData,
   CameraWithScenarios,
+  CameraWithMatchedScenarios,
   DuplicateGroup,
   GroupedCameras,
   DashboardStats,
   FilterType,
   UnconfiguredScenario,
-  VenueGroup
+  VenueGroup,
+  HealthRule,
+  HealthRuleResult,
+  TopologyNode,
+  CameraStatusThresholds
 } from '../types/dashboard'
 import {
-  filterEntityRecord,
-  filterCameraDevice,
   filterUnconfiguredScenario,
-  filterDuplicateGroup
+  filterDuplicateGroup,
+  filterHealthIssue,
+  extractMacAddress
 } from '../utils/searchUtils'
+import { ParsedQuery, parseSearchQuery, isEmptyQuery, getHighlightTerms } from '../utils/queryParser'
+import { SearchDocumentKind, buildSearchIndex, runSearch } from '../utils/searchIndex'
+import { HEALTH_RULES, runHealthRules } from '../utils/healthRules'
+import { buildTopology } from '../utils/topologyUtils'
+import { DEFAULT_CAMERA_THRESHOLDS, NO_PARK_LABEL, getCameraStatus, getLastInputAge } from '../utils/cameraStatus'
 
 interface UseDashboardDataProps {
   entityData: EntityRecord[]
   cameraDevices: CameraDevice[]
   searchQuery: string
   filterType: FilterType
+  healthRules?: HealthRule[]
+  cameraThresholds?: CameraStatusThresholds
+  // Reference time for camera last-input ages
+  now: number
 }
 
 interface UseDashboardDataReturn {
+  parsedQuery: ParsedQuery
+  highlightTerms: string[]
+  getSearchScore: (kind: SearchDocumentKind, id: string) => number
   totalCounts: Record<string, number>
   duplicateRecords: DuplicateGroup[]
   filteredDuplicateRecords: DuplicateGroup[]
   unconfiguredScenarios: UnconfiguredScenario[]
   filteredUnconfiguredScenarios: UnconfiguredScenario[]
+  healthResults: HealthRuleResult[]
+  filteredHealthResults: HealthRuleResult[]
   groupedCameras: GroupedCameras
+  offlineCameras: GroupedCameras
+  offlineCountsByPark: Record<string, number>
   groupedData: GroupedData
   stats: DashboardStats
   filteredVenueGroups: { queue: VenueGroup[], occupancy: VenueGroup[] }
+  topology: TopologyNode[]
   getScenariosGroupedByCamera: (venueId: string) => Record<string, { camera: CameraDevice | null; scenarios: EntityRecord[] }>
 }
 
@@ -41,8 +63,15 @@ export const useDashboardData = ({
   entityData,
   cameraDevices,
   searchQuery,
-  filterType
+  filterType,
+  healthRules = HEALTH_RULES,
+  cameraThresholds = DEFAULT_CAMERA_THRESHOLDS,
+  now
 }: UseDashboardDataProps): UseDashboardDataReturn => {
+  // Parse the search box once; every view evaluates the same parsed query
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery])
+  const highlightTerms = useMemo(() => getHighlightTerms(parsedQuery), [parsedQuery])
+
   // Calculate total counts from unfiltered data (for filter buttons)
   const totalCounts = useMemo(() => {
     const counts: Record<string, number> = {}
@@ -57,7 +86,7 @@ export const useDashboardData = ({
         const venueType = record.settings.venue_type?.toLowerCase()
         if (venueType === 'queue') {
           queueVenueIds.add(record.settings.venue_id)
-        } else if (venueType === 'occupancy' || venueType === 'occpuancy' || venueType === 'ocupancy') {
+        } else if (venueType === 'occupancy') {
           occupancyVenueIds.add(record.settings.venue_id)
         }
       }
@@ -113,8 +142,7 @@ export const useDashboardData = ({
       if (record.name === scenarioIdentifier) {
         const hostname = record.info.camera_hostname || ''
         // Extract MAC address from hostname if present (e.g., axis-B8A44FFF01B7)
-        const macMatch = hostname.match(/-([A-F0-9]{12})$/i)
-        const macAddress = macMatch ? macMatch[1] : ''
+        const macAddress = extractMacAddress(hostname)
 
         unconfigured.push({
           record,
@@ -133,20 +161,45 @@ export const useDashboardData = ({
     })
   }, [entityData])
 
+  // Run configuration health rules over the unfiltered data
+  const healthResults = useMemo(() => {
+    return runHealthRules(entityData, cameraDevices, healthRules)
+  }, [entityData, cameraDevices, healthRules])
+
   // Match camera devices with their scenarios by hostname
-  const camerasWithScenarios = useMemo(() => {
+  const camerasWithMatchedScenarios = useMemo(() => {
     const cameraScenarios = entityData.filter(r => r.record_type === 'camera_scenario')
 
     return cameraDevices.map(camera => {
       const matchedScenarios = cameraScenarios.filter(scenario =>
         scenario.info.camera_hostname?.toLowerCase() === camera.hostname?.toLowerCase()
       )
+      return { ...camera, scenarios: matchedScenarios } as CameraWithMatchedScenarios
+    })
+  }, [entityData, cameraDevices])
+
+  // Last-input status follows the clock, so it is kept out of the search index's inputs
+  const camerasWithScenarios = useMemo(() => {
+    return camerasWithMatchedScenarios.map(camera => {
+      const lastInputAgeMs = getLastInputAge(camera, now)
       return {
         ...camera,
-        scenarios: matchedScenarios
+        status: getCameraStatus(lastInputAgeMs, cameraThresholds),
+        lastInputAgeMs
       } as CameraWithScenarios
     })
-  }, [entityData, cameraDevices])
+  }, [camerasWithMatchedScenarios, now, cameraThresholds])
+
+  // Offline cameras per park, before search, for the sidebar
+  const offlineCountsByPark = useMemo(() => {
+    const counts: Record<string, number> = {}
+    camerasWithScenarios.forEach(camera => {
+      if (camera.status !== 'offline') return
+      const park = camera.park || NO_PARK_LABEL
+      counts[park] = (counts[park] || 0) + 1
+    })
+    return counts
+  }, [camerasWithScenarios])
 
   // Create lookup for scenarios linked to venues (by venue_id)
   const scenariosByVenueId = useMemo(() => {
@@ -166,6 +219,19 @@ export const useDashboardData = ({
     return lookup
   }, [entityData])
 
+  // Lookup of queue/occupancy venue records (which carry the live metrics) by unique_id
+  const venueRecordsById = useMemo(() => {
+    const lookup: Record<string, EntityRecord> = {}
+
+    entityData.forEach(record => {
+      if (record.record_type === 'queue_venue' || record.record_type === 'occupancy_venue') {
+        lookup[record.unique_id] = record
+      }
+    })
+
+    return lookup
+  }, [entityData])
+
   // Group scenarios by venue_id and venue_type
   const venueGroups = useMemo(() => {
     const queueGroups: VenueGroup[] = []
@@ -195,12 +261,13 @@ export const useDashboardData = ({
         venueId,
         venueType: data.venueType === 'queue' ? 'queue' : 'occupancy',
         park: data.park,
-        scenarios: data.scenarios.sort((a, b) => a.name.localeCompare(b.name))
+        scenarios: data.scenarios.sort((a, b) => a.name.localeCompare(b.name)),
+        venueRecord: venueRecordsById[venueId] || null
       }
 
       if (data.venueType === 'queue') {
         queueGroups.push(group)
-      } else if (data.venueType === 'occupancy' || data.venueType === 'occpuancy' || data.venueType === 'ocupancy') {
+      } else if (data.venueType === 'occupancy') {
         occupancyGroups.push(group)
       }
     })
@@ -210,30 +277,31 @@ export const useDashboardData = ({
     occupancyGroups.sort((a, b) => a.venueId.localeCompare(b.venueId))
 
     return { queue: queueGroups, occupancy: occupancyGroups }
-  }, [entityData])
+  }, [entityData, venueRecordsById])
+
+  // Search index over records, cameras and venues; rebuilt only when the data itself changes
+  const searchIndex = useMemo(() => {
+    return buildSearchIndex({ entityData, scenariosByVenueId, camerasWithScenarios: camerasWithMatchedScenarios, venueGroups })
+  }, [entityData, scenariosByVenueId, camerasWithMatchedScenarios, venueGroups])
+
+  const searchResults = useMemo(() => runSearch(searchIndex, parsedQuery), [searchIndex, parsedQuery])
 
   // Filter venue groups by search query
   const filteredVenueGroups = useMemo(() => {
-    if (!searchQuery) return venueGroups
-
-    const query = searchQuery.toLowerCase()
-
-    const filterGroup = (group: VenueGroup) => {
-      // Match on venue_id, park, or any scenario name/hostname
-      if (group.venueId.toLowerCase().includes(query)) return true
-      if (group.park.toLowerCase().includes(query)) return true
-      return group.scenarios.some(s =>
-        s.name.toLowerCase().includes(query) ||
-        s.info.camera_hostname?.toLowerCase().includes(query) ||
-        s.info.camera_friendly_name?.toLowerCase().includes(query)
-      )
-    }
+    if (isEmptyQuery(parsedQuery)) return venueGroups
+
+    const filterGroup = (group: VenueGroup) => searchResults.matches('venue', group.venueId)
 
     return {
       queue: venueGroups.queue.filter(filterGroup),
       occupancy: venueGroups.occupancy.filter(filterGroup)
     }
-  }, [venueGroups, searchQuery])
+  }, [venueGroups, parsedQuery, searchResults])
+
+  // Park -> venue -> camera -> scenario tree for the topology view
+  const topology = useMemo(() => {
+    return buildTopology({ entityData, cameraDevices, venueGroups, venueRecordsById })
+  }, [entityData, cameraDevices, venueGroups, venueRecordsById])
 
   // Get scenarios grouped by camera for a specific venue
   const getScenariosGroupedByCamera = (venueId: string) => {
@@ -255,20 +323,20 @@ export const useDashboardData = ({
   }
 
   // Group cameras by park and configuration status
-  const groupedCameras = useMemo(() => {
+  const groupCameras = (cameras: CameraWithScenarios[]): GroupedCameras => {
     const configured: { [park: string]: CameraWithScenarios[] } = {}
     const unconfigured: CameraWithScenarios[] = []
 
-    camerasWithScenarios.forEach(camera => {
-      // Apply search filter using centralized search utility
-      if (!filterCameraDevice(camera, camera.scenarios, searchQuery)) {
+    cameras.forEach(camera => {
+      // Apply search filter using the precomputed index
+      if (!searchResults.matches('camera', camera.id)) {
         return
       }
 
       if (!camera.is_configured) {
         unconfigured.push(camera)
       } else {
-        const park = camera.park || 'Unknown'
+        const park = camera.park || NO_PARK_LABEL
         if (!configured[park]) {
           configured[park] = []
         }
@@ -277,22 +345,24 @@ export const useDashboardData = ({
     })
 
     return { configured, unconfigured }
-  }, [camerasWithScenarios, searchQuery])
+  }
+
+  const groupedCameras = useMemo(() => groupCameras(camerasWithScenarios), [camerasWithScenarios, searchResults])
+
+  const offlineCameras = useMemo(() => {
+    return groupCameras(camerasWithScenarios.filter(camera => camera.status === 'offline'))
+  }, [camerasWithScenarios, searchResults])
 
   // Filter and group the entity data
   const { groupedData, stats } = useMemo(() => {
     const filtered = entityData.filter(record => {
       // Apply type filter
-      if (filterType !== 'all' && filterType !== 'devices' && filterType !== 'duplicates' && filterType !== 'unconfigured' && record.record_type !== filterType) {
+      if (filterType !== 'all' && filterType !== 'devices' && filterType !== 'offline' && filterType !== 'duplicates' && filterType !== 'unconfigured' && filterType !== 'inventory' && record.record_type !== filterType) {
         return false
       }
 
-      // Apply search filter using centralized search utility
-      const linkedScenarios = (record.record_type === 'queue_venue' || record.record_type === 'occupancy_venue')
-        ? scenariosByVenueId[record.unique_id] || []
-        : []
-
-      return filterEntityRecord(record, searchQuery, linkedScenarios)
+      // Apply search filter using the precomputed index (venues include their linked scenarios)
+      return searchResults.matches('entity', record.id)
     })
 
     // Group by record_type, then by park
@@ -324,30 +394,47 @@ export const useDashboardData = ({
         byPark: parkCounts
       }
     }
-  }, [entityData, searchQuery, filterType, scenariosByVenueId])
+  }, [entityData, filterType, searchResults])
 
   // Filter duplicates by search query
   const filteredDuplicateRecords = useMemo(() => {
-    if (!searchQuery) return duplicateRecords
-    return duplicateRecords.filter(group => filterDuplicateGroup(group, searchQuery))
-  }, [duplicateRecords, searchQuery])
+    if (isEmptyQuery(parsedQuery)) return duplicateRecords
+    return duplicateRecords.filter(group => filterDuplicateGroup(group, parsedQuery))
+  }, [duplicateRecords, parsedQuery])
 
   // Filter unconfigured scenarios by search query
   const filteredUnconfiguredScenarios = useMemo(() => {
-    if (!searchQuery) return unconfiguredScenarios
-    return unconfiguredScenarios.filter(item => filterUnconfiguredScenario(item, searchQuery))
-  }, [unconfiguredScenarios, searchQuery])
+    if (isEmptyQuery(parsedQuery)) return unconfiguredScenarios
+    return unconfiguredScenarios.filter(item => filterUnconfiguredScenario(item, parsedQuery))
+  }, [unconfiguredScenarios, parsedQuery])
+
+  // Filter health rule issues by search query
+  const filteredHealthResults = useMemo(() => {
+    if (isEmptyQuery(parsedQuery)) return healthResults
+    return healthResults.map(result => ({
+      ...result,
+      issues: result.issues.filter(issue => filterHealthIssue(issue, parsedQuery))
+    }))
+  }, [healthResults, parsedQuery])
 
   return {
+    parsedQuery,
+    highlightTerms,
+    getSearchScore: searchResults.score,
     totalCounts,
     duplicateRecords,
     filteredDuplicateRecords,
     unconfiguredScenarios,
     filteredUnconfiguredScenarios,
+    healthResults,
+    filteredHealthResults,
     groupedCameras,
+    offlineCameras,
+    offlineCountsByPark,
     groupedData,
     stats,
     filteredVenueGroups,
+    topology,
     getScenariosGroupedByCamera
   }
 }
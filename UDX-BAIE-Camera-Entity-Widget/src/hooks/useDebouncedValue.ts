@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'preact/hooks'
+
+/**
+ * Returns value once it has stopped changing for delayMs
+ */
+export const useDebouncedValue = <T>(value: T, delayMs: number): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedValue(value), delayMs)
+    return () => clearTimeout(timer)
+  }, [value, delayMs])
+
+  return debouncedValue
+}
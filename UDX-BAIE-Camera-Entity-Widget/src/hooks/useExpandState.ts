@@ -10,6 +10,8 @@ interface UseExpandStateReturn {
   toggleItem: (id: string) => void
   expandAll: (groupedData: GroupedData, groupedCameras: GroupedCameras) => void
   collapseAll: () => void
+  revealItem: (type: string, typeAndPark: string | null, id: string) => void
+  restoreExpanded: (types: string[], parks: string[], items: string[]) => void
   isTypeExpanded: (type: string) => boolean
   isParkExpanded: (park: string) => boolean
   isItemExpanded: (id: string) => boolean
@@ -93,6 +95,21 @@ export const useExpandState = (
     setExpandedItems(new Set())
   }, [])
 
+  // Expands the type, park and item so a card can be scrolled to from elsewhere
+  const revealItem = useCallback((type: string, typeAndPark: string | null, id: string) => {
+    setExpandedTypes(prev => new Set(prev).add(type))
+    if (typeAndPark) {
+      setExpandedParks(prev => new Set(prev).add(typeAndPark))
+    }
+    setExpandedItems(prev => new Set(prev).add(id))
+  }, [])
+
+  const restoreExpanded = useCallback((types: string[], parks: string[], items: string[]) => {
+    setExpandedTypes(new Set(types))
+    setExpandedParks(new Set(parks))
+    setExpandedItems(new Set(items))
+  }, [])
+
   const isTypeExpanded = useCallback((type: string) => expandedTypes.has(type), [expandedTypes])
   const isParkExpanded = useCallback((park: string) => expandedParks.has(park), [expandedParks])
   const isItemExpanded = useCallback((id: string) => expandedItems.has(id), [expandedItems])
@@ -106,6 +123,8 @@ export const useExpandState = (
     toggleItem,
     expandAll,
     collapseAll,
+    revealItem,
+    restoreExpanded,
     isTypeExpanded,
     isParkExpanded,
     isItemExpanded
@@ -0,0 +1,29 @@
+import { useEffect, useState } from 'preact/hooks'
+
+export const toItemAnchorId = (id: string): string => `item-${id}`
+
+/**
+ * The selected detail card, and scrolling to a card once it is on screen. Topology links and
+ * restored views switch the filter first, so the card only exists after the new view has rendered.
+ */
+export const useItemNavigation = () => {
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [pendingScrollId, setPendingScrollId] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!pendingScrollId) return
+    const element = document.getElementById(toItemAnchorId(pendingScrollId))
+    if (element) {
+      element.scrollIntoView({ behavior: 'smooth', block: 'start' })
+      setPendingScrollId(null)
+    }
+  })
+
+  // Selects the card and scrolls to it once it renders
+  const showItem = (id: string | null) => {
+    setSelectedId(id)
+    setPendingScrollId(id)
+  }
+
+  return { selectedId, setSelectedId, showItem }
+}
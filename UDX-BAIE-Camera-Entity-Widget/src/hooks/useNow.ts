@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'preact/hooks'
+
+/**
+ * Current time in ms, refreshed every intervalMs so relative ages stay current
+ */
+export const useNow = (intervalMs: number): number => {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(timer)
+  }, [intervalMs])
+
+  return now
+}
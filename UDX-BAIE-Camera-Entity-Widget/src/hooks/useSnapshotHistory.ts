@@ -0,0 +1,84 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'preact/hooks'
+import { EntityRecord, CameraDevice } from '../WidgetView'
+import { SnapshotChange, SnapshotSummary } from '../types/dashboard'
+import {
+  EntitySnapshot,
+  MAX_SNAPSHOTS,
+  createSnapshot,
+  diffSnapshots,
+  loadSnapshots,
+  saveSnapshots,
+  clearStoredSnapshots,
+  toSnapshotSummary
+} from '../utils/snapshotUtils'
+
+interface UseSnapshotHistoryProps {
+  widgetId: string | null
+  entityData: EntityRecord[]
+  cameraDevices: CameraDevice[]
+  // False while a refresh is still arriving (loading, or chunked records incomplete)
+  isSettled: boolean
+}
+
+interface UseSnapshotHistoryReturn {
+  snapshots: SnapshotSummary[]
+  baseSnapshot: SnapshotSummary | null
+  currentSnapshot: SnapshotSummary | null
+  changes: SnapshotChange[]
+  selectBaseSnapshot: (takenAt: string | null) => void
+  clearHistory: () => void
+}
+
+export const useSnapshotHistory = ({
+  widgetId,
+  entityData,
+  cameraDevices,
+  isSettled
+}: UseSnapshotHistoryProps): UseSnapshotHistoryReturn => {
+  const [snapshots, setSnapshots] = useState<EntitySnapshot[]>([])
+  const [baseTakenAt, setBaseTakenAt] = useState<string | null>(null)
+  const loadedWidgetIdRef = useRef<string | null | undefined>(undefined)
+
+  // Record a snapshot whenever a settled refresh differs from the latest one. History is keyed by
+  // widget id, which only arrives with onStart, so the stored snapshots are read on the first settled refresh.
+  useEffect(() => {
+    if (!isSettled || (entityData.length === 0 && cameraDevices.length === 0)) return
+
+    const current = createSnapshot(entityData, cameraDevices)
+    const isNewWidget = loadedWidgetIdRef.current !== widgetId
+    loadedWidgetIdRef.current = widgetId
+    setSnapshots(prev => {
+      const history = isNewWidget ? loadSnapshots(widgetId) : prev
+      const latest = history[history.length - 1]
+      if (latest && diffSnapshots(latest, current).length === 0) return history
+      return [...history, current].slice(-MAX_SNAPSHOTS)
+    })
+  }, [entityData, cameraDevices, isSettled, widgetId])
+
+  useEffect(() => {
+    if (snapshots.length > 0) saveSnapshots(widgetId, snapshots)
+  }, [snapshots])
+
+  const current = snapshots[snapshots.length - 1] || null
+  // Default to comparing against the snapshot before the current one
+  const base = snapshots.find(s => s.takenAt === baseTakenAt && s !== current) || snapshots[snapshots.length - 2] || null
+
+  const changes = useMemo(() => {
+    return base && current ? diffSnapshots(base, current) : []
+  }, [base, current])
+
+  const clearHistory = useCallback(() => {
+    clearStoredSnapshots(widgetId)
+    setBaseTakenAt(null)
+    setSnapshots(prev => prev.slice(-1))
+  }, [widgetId])
+
+  return {
+    snapshots: snapshots.map(toSnapshotSummary),
+    baseSnapshot: base ? toSnapshotSummary(base) : null,
+    currentSnapshot: current ? toSnapshotSummary(current) : null,
+    changes,
+    selectBaseSnapshot: setBaseTakenAt,
+    clearHistory
+  }
+}
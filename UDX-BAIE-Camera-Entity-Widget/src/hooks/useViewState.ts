@@ -0,0 +1,78 @@
+import { useState, useEffect, useRef } from 'preact/hooks'
+import {
+  SavedView,
+  ViewState,
+  addRecentView,
+  loadRecentViews,
+  parseViewState,
+  saveRecentViews,
+  serializeViewState
+} from '../utils/viewState'
+
+const PERSIST_DELAY_MS = 400
+
+interface UseViewStateProps {
+  widgetId: string | null
+  // True once the widget config and first data have arrived
+  isReady: boolean
+  state: ViewState
+  onRestore: (state: ViewState) => void
+}
+
+interface UseViewStateReturn {
+  recentViews: SavedView[]
+}
+
+/**
+ * Keeps the explorer view in the URL fragment and a per-widget history of recent views.
+ * On load the fragment wins; without one the most recent saved view is restored.
+ *
+ * Inside a dashboard the fragment belongs to the widget's iframe, which the dashboard reloads
+ * without it, so there the saved history is what brings a view back. The fragment only
+ * restores views when the widget page is opened on its own.
+ */
+export const useViewState = ({ widgetId, isReady, state, onRestore }: UseViewStateProps): UseViewStateReturn => {
+  const [recentViews, setRecentViews] = useState<SavedView[]>([])
+  const hasRestoredRef = useRef(false)
+  const loadedWidgetIdRef = useRef<string | null | undefined>(undefined)
+
+  // History is keyed by widget id, which only arrives with onStart, so wait until the widget is ready
+  useEffect(() => {
+    if (!isReady || loadedWidgetIdRef.current === widgetId) return
+    loadedWidgetIdRef.current = widgetId
+
+    const views = loadRecentViews(widgetId)
+    setRecentViews(views)
+
+    if (!hasRestoredRef.current) {
+      hasRestoredRef.current = true
+      const fromHash = parseViewState(window.location.hash)
+      const restored = fromHash || views[0]?.state
+      if (restored) onRestore(restored)
+    }
+  }, [widgetId, isReady])
+
+  const serialized = serializeViewState(state)
+
+  useEffect(() => {
+    if (!hasRestoredRef.current) return
+
+    const timer = setTimeout(() => {
+      try {
+        window.history.replaceState(null, '', `#${serialized}`)
+      } catch (e) {
+        console.warn('Could not update URL fragment:', e)
+      }
+
+      setRecentViews(prev => {
+        const next = addRecentView(prev, state)
+        saveRecentViews(widgetId, next)
+        return next
+      })
+    }, PERSIST_DELAY_MS)
+
+    return () => clearTimeout(timer)
+  }, [serialized, widgetId])
+
+  return { recentViews }
+}
@@ -1,7 +1,8 @@
 import { EntityRecord, CameraDevice } from '../WidgetView'
 
 export type RecordType = 'camera_scenario' | 'queue_venue' | 'occupancy_venue'
-export type FilterType = 'all' | RecordType | 'devices' | 'duplicates' | 'unconfigured'
+export type HealthFilterType = `health:${string}`
+export type FilterType = 'all' | RecordType | 'devices' | 'offline' | 'duplicates' | 'unconfigured' | 'inventory' | 'corrections' | 'changes' | 'topology' | HealthFilterType
 
 export interface UnconfiguredScenario {
   record: import('../WidgetView').EntityRecord
@@ -10,16 +11,104 @@ export interface UnconfiguredScenario {
   deviceScenario: string
 }
 
+// Reconciliation of camera devices against an installer's inventory CSV
+export type InventoryStatus = 'configured' | 'unconfigured' | 'missing' | 'unexpected'
+
+export type InventoryMatchField = 'mac' | 'hostname' | 'ip_address'
+
+export interface InventoryEntry {
+  // Line in the pasted / uploaded CSV, for pointing back at the source
+  line: number
+  macAddress: string
+  park: string | null
+  location: string | null
+  friendlyName: string | null
+  hostname: string | null
+  ipAddress: string | null
+}
+
+export interface InventoryParseError {
+  line: number
+  message: string
+}
+
+export interface InventoryMatch {
+  status: InventoryStatus
+  // null for cameras that are not in the inventory
+  entry: InventoryEntry | null
+  // null for inventory entries no camera device matched
+  camera: CameraDevice | null
+  matchedBy: InventoryMatchField | null
+  // Inventory values that disagree with the device, e.g. a different park
+  differences: string[]
+}
+
+export interface InventoryReport {
+  matches: InventoryMatch[]
+  counts: Record<InventoryStatus, number>
+  errors: InventoryParseError[]
+}
+
+export type RuleSeverity = 'error' | 'warning' | 'info'
+
+export interface HealthIssue {
+  ruleId: string
+  subjectId: string
+  subjectLabel: string
+  park: string | null
+  message: string
+  record?: EntityRecord
+  camera?: CameraDevice
+}
+
+export interface HealthRuleContext {
+  entityData: EntityRecord[]
+  cameraDevices: CameraDevice[]
+  scenarios: EntityRecord[]
+  venueRecordsById: Map<string, EntityRecord>
+  scenariosByVenueId: Map<string, EntityRecord[]>
+  camerasByHostname: Map<string, CameraDevice>
+  scenariosByHostname: Map<string, EntityRecord[]>
+}
+
+export interface HealthRule {
+  id: string
+  label: string
+  description: string
+  severity: RuleSeverity
+  check: (context: HealthRuleContext) => HealthIssue[]
+}
+
+export interface HealthRuleResult {
+  rule: HealthRule
+  issues: HealthIssue[]
+}
+
 export interface GroupedData {
   [recordType: string]: {
     [park: string]: EntityRecord[]
   }
 }
 
-export interface CameraWithScenarios extends CameraDevice {
+export interface CameraWithMatchedScenarios extends CameraDevice {
   scenarios: EntityRecord[]
 }
 
+export interface CameraWithScenarios extends CameraWithMatchedScenarios {
+  status: CameraStatus
+  // Time since last_input, null when the camera has never sent data
+  lastInputAgeMs: number | null
+}
+
+export type CameraStatus = 'online' | 'stale' | 'offline'
+
+export type DeviceSortOrder = 'name' | 'last_seen'
+
+export interface CameraStatusThresholds {
+  staleAfterMinutes: number
+  offlineAfterMinutes: number
+}
+
 export interface DuplicateGroup {
   key: string
   hostname: string
@@ -32,6 +121,7 @@ export interface VenueGroup {
   venueType: 'queue' | 'occupancy'
   park: string
   scenarios: EntityRecord[]
+  venueRecord: EntityRecord | null
 }
 
 export interface GroupedCameras {
@@ -56,3 +146,124 @@ export const RECORD_TYPE_ICONS: Record<RecordType, string> = {
   queue_venue: 'QUEUE',
   occupancy_venue: 'OCC'
 }
+
+export interface ChunkIssue {
+  chunkId: string
+  name: string | null
+  recordType: string | null
+  park: string | null
+  status: 'incomplete' | 'corrupt'
+  received: number
+  total: number
+  message: string
+}
+
+export interface DataCorrection {
+  source: 'entity_record' | 'camera_device'
+  recordId: string
+  recordName: string
+  field: string
+  from: string
+  to: string
+}
+
+// Push numbers count the onRealtime batches processed since the widget loaded, starting at 1
+export interface RecordFreshness {
+  firstSeenPush: number
+  lastChangedPush: number
+  lastSeenPush: number
+  updatedAt: string
+}
+
+export interface MergeSummary {
+  push: number
+  // The store was empty before this push
+  isInitialLoad: boolean
+  added: string[]
+  updated: string[]
+  removed: string[]
+  unchanged: number
+  // Incoming records older than the stored version (by updated_at), ignored
+  stale: number
+}
+
+export type RecordPushChange = 'added' | 'updated'
+
+// Counts the forwarding analysis writes alongside the records, from its latest run (group)
+export interface LoadSummary {
+  group: string | null
+  // Time of the newest summary point read
+  time: string
+  totalRecords: number | null
+  cameraScenarios: number | null
+  queueVenues: number | null
+  occupancyVenues: number | null
+  cameraDevices: number | null
+  configuredCameras: number | null
+  // From the data_loaded marker
+  recordCount: number | null
+  lastUpdate: string | null
+  // Generation the data_loaded marker closed, and the latest generation the analysis started
+  generation: number | null
+  syncGeneration: number | null
+  // Sources the analysis stopped fetching at its configured limit
+  truncated: TruncatedSource[]
+}
+
+export interface TruncatedSource {
+  key: 'entity_records' | 'camera_devices'
+  label: string
+  limit: number | null
+}
+
+export interface IntegrityCheck {
+  key: string
+  label: string
+  expected: number
+  parsed: number
+  message: string
+}
+
+export type ChangeKind = 'added' | 'removed' | 'renamed' | 'settings_changed' | 'moved' | 'configuration_changed'
+
+export interface FieldChange {
+  field: string
+  before: string | null
+  after: string | null
+}
+
+export interface SnapshotChange {
+  kind: ChangeKind
+  source: 'entity_record' | 'camera_device'
+  id: string
+  name: string
+  recordType: string
+  park: string | null
+  fields: FieldChange[]
+}
+
+export interface SnapshotSummary {
+  takenAt: string
+  recordCount: number
+  cameraCount: number
+}
+
+export type TopologyNodeKind = 'park' | 'venue' | 'camera' | 'scenario'
+
+// Where a topology node's detail card lives, in the keys useExpandState uses
+export interface TopologyTarget {
+  filterType: FilterType
+  typeKey: string
+  parkKey: string | null
+  itemId: string
+}
+
+export interface TopologyNode {
+  key: string
+  kind: TopologyNodeKind
+  label: string
+  sublabel: string | null
+  orphan: string | null
+  target: TopologyTarget | null
+  children: TopologyNode[]
+}
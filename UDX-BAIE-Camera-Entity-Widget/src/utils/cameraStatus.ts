@@ -0,0 +1,80 @@
+import { CameraDevice } from '../WidgetView'
+import { CameraStatus, CameraStatusThresholds, CameraWithScenarios } from '../types/dashboard'
+
+// Widget parameters (Display > Parameters) for when a camera counts as stale / offline
+export const STALE_AFTER_PARAMETER = 'camera_stale_minutes'
+export const OFFLINE_AFTER_PARAMETER = 'camera_offline_minutes'
+
+export const DEFAULT_CAMERA_THRESHOLDS: CameraStatusThresholds = {
+  staleAfterMinutes: 15,
+  offlineAfterMinutes: 60
+}
+
+export const CAMERA_STATUS_LABELS: Record<CameraStatus, string> = {
+  online: 'Online',
+  stale: 'Stale',
+  offline: 'Offline'
+}
+
+// Sidebar group for offline cameras that have no park
+export const NO_PARK_LABEL = 'No park'
+
+const MINUTE_MS = 60 * 1000
+
+const readMinutesParameter = (parameters: any[], key: string): number | null => {
+  const value = Number(parameters.find((p: any) => p?.key === key)?.value)
+  return Number.isFinite(value) && value > 0 ? value : null
+}
+
+/**
+ * Reads the stale/offline thresholds from the widget parameters. Missing or invalid values
+ * fall back to the defaults, and offline is never earlier than stale.
+ */
+export const readCameraStatusThresholds = (widget: any): CameraStatusThresholds => {
+  const parameters = Array.isArray(widget?.display?.parameters) ? widget.display.parameters : []
+  const staleAfterMinutes = readMinutesParameter(parameters, STALE_AFTER_PARAMETER) ?? DEFAULT_CAMERA_THRESHOLDS.staleAfterMinutes
+  const offlineAfterMinutes = readMinutesParameter(parameters, OFFLINE_AFTER_PARAMETER) ?? DEFAULT_CAMERA_THRESHOLDS.offlineAfterMinutes
+
+  return {
+    staleAfterMinutes,
+    offlineAfterMinutes: Math.max(offlineAfterMinutes, staleAfterMinutes)
+  }
+}
+
+export const getLastInputAge = (camera: CameraDevice, now: number): number | null => {
+  const time = camera.last_input ? new Date(camera.last_input).getTime() : NaN
+  return Number.isNaN(time) ? null : Math.max(0, now - time)
+}
+
+/**
+ * A camera that has never sent data is offline
+ */
+export const getCameraStatus = (ageMs: number | null, thresholds: CameraStatusThresholds): CameraStatus => {
+  if (ageMs === null || ageMs >= thresholds.offlineAfterMinutes * MINUTE_MS) return 'offline'
+  if (ageMs >= thresholds.staleAfterMinutes * MINUTE_MS) return 'stale'
+  return 'online'
+}
+
+/**
+ * Short relative age, e.g. "just now", "12 min ago", "3 h ago", "5 d ago"
+ */
+export const formatLastInputAge = (ageMs: number | null): string => {
+  if (ageMs === null) return 'Never'
+
+  const minutes = Math.floor(ageMs / MINUTE_MS)
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${minutes} min ago`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 48) return `${hours} h ago`
+  return `${Math.floor(hours / 24)} d ago`
+}
+
+/**
+ * Most recently seen first; cameras that have never sent data go last
+ */
+export const compareByLastSeen = (a: CameraWithScenarios, b: CameraWithScenarios): number => {
+  if (a.lastInputAgeMs === null || b.lastInputAgeMs === null) {
+    return (a.lastInputAgeMs === null ? 1 : 0) - (b.lastInputAgeMs === null ? 1 : 0)
+  }
+  return a.lastInputAgeMs - b.lastInputAgeMs
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { ChunkBuffer, addChunk, isChunkSetComplete, joinChunks, parseMetadata, toChunkIssue } from './chunkUtils'
+
+const chunk = (index: number, total: number, value: string, group = 'run-1', metadata: Record<string, any> = {}) => ({
+  id: `dp-${group}-${index}`,
+  group,
+  value,
+  metadata: { chunk_id: 'rec-1', chunk_index: index, total_chunks: total, name: 'Big Record', record_type: 'camera_scenario', ...metadata }
+})
+
+describe('parseMetadata', () => {
+  it('accepts objects and JSON strings', () => {
+    expect(parseMetadata({ a: 1 })).toEqual({ a: 1 })
+    expect(parseMetadata('{"a":1}')).toEqual({ a: 1 })
+  })
+
+  it('returns an empty object for missing or invalid metadata', () => {
+    expect(parseMetadata(undefined)).toEqual({})
+    expect(parseMetadata('not json')).toEqual({})
+    expect(parseMetadata('42')).toEqual({})
+  })
+})
+
+describe('addChunk', () => {
+  it('joins chunks received out of order', () => {
+    const buffer: ChunkBuffer = new Map()
+    addChunk(buffer, chunk(2, 3, 'c'))
+    addChunk(buffer, chunk(0, 3, 'a'))
+    const set = addChunk(buffer, chunk(1, 3, 'b'))!
+
+    expect(isChunkSetComplete(set)).toBe(true)
+    expect(joinChunks(set)).toBe('abc')
+    expect(set).toMatchObject({ name: 'Big Record', recordType: 'camera_scenario', error: null })
+  })
+
+  it('falls back to unique_id when chunk_id is missing', () => {
+    const buffer: ChunkBuffer = new Map()
+    const set = addChunk(buffer, chunk(0, 1, 'a', 'run-1', { chunk_id: undefined, unique_id: 'uid-9' }))
+    expect(set?.chunkId).toBe('uid-9')
+  })
+
+  it('skips chunks without an id', () => {
+    const buffer: ChunkBuffer = new Map()
+    expect(addChunk(buffer, { id: 'dp', value: 'a', metadata: {} })).toBeNull()
+    expect(buffer.size).toBe(0)
+  })
+
+  it('starts over when a chunk from another run arrives', () => {
+    const buffer: ChunkBuffer = new Map()
+    addChunk(buffer, chunk(0, 2, 'old'))
+    const set = addChunk(buffer, chunk(1, 2, 'new', 'run-2'))!
+
+    expect(set.group).toBe('run-2')
+    expect(set.chunks.size).toBe(1)
+    expect(isChunkSetComplete(set)).toBe(false)
+  })
+
+  it('marks sets with inconsistent or invalid chunks as corrupt', () => {
+    const disagree: ChunkBuffer = new Map()
+    addChunk(disagree, chunk(0, 2, 'a'))
+    expect(addChunk(disagree, chunk(1, 3, 'b'))?.error).toBe('Chunks disagree on total_chunks (2 vs 3)')
+
+    const outOfRange: ChunkBuffer = new Map()
+    expect(addChunk(outOfRange, chunk(2, 2, 'a'))?.error).toBe('Invalid chunk_index 2 for 2 chunks')
+
+    const empty: ChunkBuffer = new Map()
+    expect(addChunk(empty, chunk(0, 1, ''))?.error).toBe('Chunk 0 has no data')
+
+    const noTotal: ChunkBuffer = new Map()
+    const set = addChunk(noTotal, chunk(0, 0, 'a'))!
+    expect(set.error).toBe('Invalid total_chunks value: 0')
+    expect(isChunkSetComplete(set)).toBe(false)
+  })
+})
+
+describe('toChunkIssue', () => {
+  it('reports missing chunks for incomplete sets', () => {
+    const buffer: ChunkBuffer = new Map()
+    const set = addChunk(buffer, chunk(0, 3, 'a'))!
+
+    expect(toChunkIssue(set)).toMatchObject({
+      chunkId: 'rec-1',
+      status: 'incomplete',
+      received: 1,
+      total: 3,
+      message: 'Waiting for 2 of 3 chunks'
+    })
+  })
+
+  it('reports the error for corrupt sets', () => {
+    const buffer: ChunkBuffer = new Map()
+    const set = addChunk(buffer, chunk(0, 1, ''))!
+    expect(toChunkIssue(set)).toMatchObject({ status: 'corrupt', message: 'Chunk 0 has no data' })
+  })
+})
@@ -0,0 +1,115 @@
+import { ChunkIssue } from '../types/dashboard'
+
+/**
+ * A chunked entity record being reassembled from entity_record_chunk data points.
+ * Chunks can arrive across several realtime batches, so sets live in a buffer
+ * until every chunk_index from 0 to total_chunks - 1 has been received.
+ */
+export interface ChunkSet {
+  chunkId: string
+  group: string | null
+  totalChunks: number
+  chunks: Map<number, string>
+  name: string | null
+  recordType: string | null
+  park: string | null
+  // Encoding metadata of the chunks, applied to the joined value
+  encoding: string | null
+  error: string | null
+}
+
+export type ChunkBuffer = Map<string, ChunkSet>
+
+/**
+ * Parses data point metadata, which arrives as an object from onRealtime
+ * but as a JSON string in exported data (e.g. the mock data file)
+ */
+export const parseMetadata = (metadata: any): Record<string, any> => {
+  if (!metadata) return {}
+  if (typeof metadata === 'object') return metadata
+
+  try {
+    const parsed = JSON.parse(metadata)
+    return parsed && typeof parsed === 'object' ? parsed : {}
+  } catch (e) {
+    return {}
+  }
+}
+
+/**
+ * Adds an entity_record_chunk data point to the buffer and returns the set it belongs to.
+ * A chunk from a different analysis run (group) replaces any set left over from the previous run.
+ */
+export const addChunk = (buffer: ChunkBuffer, dp: any): ChunkSet | null => {
+  const metadata = parseMetadata(dp.metadata)
+  const chunkId = metadata.chunk_id ?? metadata.unique_id
+
+  if (!chunkId) {
+    console.error('Entity record chunk is missing chunk_id metadata:', dp.id)
+    return null
+  }
+
+  const key = String(chunkId)
+  const group = dp.group || null
+  const chunkIndex = Number(metadata.chunk_index)
+  const totalChunks = Number(metadata.total_chunks)
+
+  let set = buffer.get(key)
+  if (!set || set.group !== group) {
+    set = {
+      chunkId: key,
+      group,
+      totalChunks: Number.isInteger(totalChunks) && totalChunks > 0 ? totalChunks : 0,
+      chunks: new Map(),
+      name: metadata.name || null,
+      recordType: metadata.record_type || null,
+      park: metadata.park || null,
+      encoding: metadata.encoding || null,
+      error: null
+    }
+    buffer.set(key, set)
+  }
+
+  if (!Number.isInteger(totalChunks) || totalChunks <= 0) {
+    set.error = `Invalid total_chunks value: ${metadata.total_chunks}`
+  } else if (totalChunks !== set.totalChunks) {
+    set.error = `Chunks disagree on total_chunks (${set.totalChunks} vs ${totalChunks})`
+  } else if (!Number.isInteger(chunkIndex) || chunkIndex < 0 || chunkIndex >= totalChunks) {
+    set.error = `Invalid chunk_index ${metadata.chunk_index} for ${totalChunks} chunks`
+  } else if (typeof dp.value !== 'string' || dp.value.length === 0) {
+    set.error = `Chunk ${chunkIndex} has no data`
+  } else {
+    set.chunks.set(chunkIndex, dp.value)
+  }
+
+  return set
+}
+
+export const isChunkSetComplete = (set: ChunkSet): boolean => {
+  return set.totalChunks > 0 && set.chunks.size === set.totalChunks
+}
+
+/**
+ * Concatenates the chunks of a complete set in chunk_index order
+ */
+export const joinChunks = (set: ChunkSet): string => {
+  return Array.from(set.chunks.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, value]) => value)
+    .join('')
+}
+
+export const toChunkIssue = (set: ChunkSet): ChunkIssue => {
+  const status = set.error ? 'corrupt' : 'incomplete'
+
+  return {
+    chunkId: set.chunkId,
+    name: set.name,
+    recordType: set.recordType,
+    park: set.park,
+    status,
+    received: set.chunks.size,
+    total: set.totalChunks,
+    message: set.error || `Waiting for ${set.totalChunks - set.chunks.size} of ${set.totalChunks} chunks`
+  }
+}
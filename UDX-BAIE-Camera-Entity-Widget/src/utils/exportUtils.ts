@@ -0,0 +1,272 @@
+import { EntityRecord, CameraDevice } from '../WidgetView'
+import {
+  CameraWithScenarios,
+  DataCorrection,
+  DuplicateGroup,
+  FilterType,
+  GroupedCameras,
+  GroupedData,
+  HealthRuleResult,
+  InventoryReport,
+  SnapshotChange,
+  TopologyNode,
+  UnconfiguredScenario,
+  VenueGroup
+} from '../types/dashboard'
+import { isHealthFilter, getHealthRuleId } from './healthRules'
+import { INVENTORY_REPORT_COLUMNS, getInventoryReportRows } from './inventoryUtils'
+
+export type ExportFormat = 'csv' | 'json'
+
+export type ExportValue = string | number | boolean | null
+
+export type ExportRow = Record<string, ExportValue>
+
+/**
+ * Flattens nested objects into dot-separated keys (info.park, metrics.current_queue).
+ * Arrays are kept as JSON strings so a row stays one line in the CSV.
+ */
+export const flattenObject = (value: Record<string, any>, prefix = ''): ExportRow => {
+  const row: ExportRow = {}
+
+  Object.entries(value).forEach(([key, fieldValue]) => {
+    const path = prefix ? `${prefix}.${key}` : key
+
+    if (fieldValue === undefined || fieldValue === null) {
+      row[path] = null
+    } else if (Array.isArray(fieldValue)) {
+      row[path] = JSON.stringify(fieldValue)
+    } else if (typeof fieldValue === 'object') {
+      Object.assign(row, flattenObject(fieldValue, path))
+    } else {
+      row[path] = fieldValue
+    }
+  })
+
+  return row
+}
+
+export const flattenEntityRecord = (record: EntityRecord): ExportRow => flattenObject(record)
+
+export const flattenCameraDevice = (camera: CameraDevice | CameraWithScenarios): ExportRow => {
+  const { scenarios, ...device } = camera as CameraWithScenarios
+  const row = flattenObject(device)
+
+  if (scenarios) {
+    row.scenario_count = scenarios.length
+    row.scenario_names = scenarios.map(s => s.name).join('; ')
+  }
+
+  return row
+}
+
+const escapeCsvValue = (value: ExportValue | undefined): string => {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes rows to CSV. Columns are the union of all row keys in first-seen order,
+ * so rows of different shapes (records and devices) share one header.
+ */
+export const toCsv = (rows: ExportRow[]): string => {
+  const columns: string[] = []
+  const seen = new Set<string>()
+
+  rows.forEach(row => {
+    Object.keys(row).forEach(key => {
+      if (!seen.has(key)) {
+        seen.add(key)
+        columns.push(key)
+      }
+    })
+  })
+
+  const lines = [
+    columns.map(escapeCsvValue).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvValue(row[column])).join(','))
+  ]
+
+  return lines.join('\r\n')
+}
+
+export interface ViewExportData {
+  groupedData: GroupedData
+  groupedCameras: GroupedCameras
+  offlineCameras: GroupedCameras
+  venueGroups: { queue: VenueGroup[], occupancy: VenueGroup[] }
+  duplicateRecords: DuplicateGroup[]
+  unconfiguredScenarios: UnconfiguredScenario[]
+  healthResults: HealthRuleResult[]
+  corrections: DataCorrection[]
+  changes: SnapshotChange[]
+  topology: TopologyNode[]
+  // Null until an inventory has been pasted or uploaded
+  inventoryReport: InventoryReport | null
+}
+
+const buildCameraInventoryRows = (groupedCameras: GroupedCameras): ExportRow[] => [
+  ...Object.entries(groupedCameras.configured)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .flatMap(([park, cameras]) => cameras.map(camera => ({ group: park, ...flattenCameraDevice(camera) }))),
+  ...groupedCameras.unconfigured.map(camera => ({ group: 'Unconfigured', ...flattenCameraDevice(camera) }))
+]
+
+const buildEntityRows = (groupedData: GroupedData): ExportRow[] => {
+  return Object.values(groupedData).flatMap(parks =>
+    Object.values(parks).flatMap(records => records.map(flattenEntityRecord))
+  )
+}
+
+const buildVenueRows = (venueGroups: VenueGroup[]): ExportRow[] => venueGroups.map(group => ({
+  venue_id: group.venueId,
+  venue_type: group.venueType,
+  park: group.park,
+  scenario_count: group.scenarios.length,
+  scenario_ids: group.scenarios.map(s => s.id).join('; '),
+  scenario_names: group.scenarios.map(s => s.name).join('; '),
+  camera_hostnames: Array.from(new Set(group.scenarios.map(s => s.info.camera_hostname).filter(Boolean))).join('; '),
+  ...(group.venueRecord ? flattenObject(group.venueRecord, 'venue_record') : {})
+}))
+
+// Groups list records oldest first, so the first one is the record to keep
+const buildDuplicateRows = (duplicateRecords: DuplicateGroup[]): ExportRow[] => {
+  return duplicateRecords.flatMap((group, groupIndex) => group.records.map((record, recordIndex) => ({
+    group_index: groupIndex + 1,
+    group_hostname: group.hostname,
+    group_unique_id: group.uniqueId,
+    decision: recordIndex === 0 ? 'keep' : 'dup',
+    ...flattenEntityRecord(record)
+  })))
+}
+
+const buildUnconfiguredRows = (unconfiguredScenarios: UnconfiguredScenario[]): ExportRow[] => {
+  return unconfiguredScenarios.map(item => ({
+    hostname: item.hostname,
+    mac_address: item.macAddress,
+    device_scenario: item.deviceScenario,
+    ...flattenEntityRecord(item.record)
+  }))
+}
+
+const buildHealthRows = (result: HealthRuleResult | undefined): ExportRow[] => {
+  if (!result) return []
+  return result.issues.map(issue => ({
+    rule_id: result.rule.id,
+    severity: result.rule.severity,
+    subject_id: issue.subjectId,
+    subject_label: issue.subjectLabel,
+    park: issue.park,
+    message: issue.message,
+    ...(issue.record ? flattenObject(issue.record, 'record') : {}),
+    ...(issue.camera ? flattenObject(issue.camera, 'camera') : {})
+  }))
+}
+
+const buildCorrectionRows = (corrections: DataCorrection[]): ExportRow[] => corrections.map(correction => ({
+  source: correction.source,
+  record_id: correction.recordId,
+  record_name: correction.recordName,
+  field: correction.field,
+  from: correction.from,
+  to: correction.to
+}))
+
+const buildChangeRows = (changes: SnapshotChange[]): ExportRow[] => changes.flatMap((change): ExportRow[] => {
+  const base: ExportRow = {
+    change: change.kind,
+    source: change.source,
+    id: change.id,
+    name: change.name,
+    record_type: change.recordType,
+    park: change.park
+  }
+  if (change.fields.length === 0) return [{ ...base, field: null, before: null, after: null }]
+  return change.fields.map(field => ({ ...base, field: field.field, before: field.before, after: field.after }))
+})
+
+const buildInventoryRows = (report: InventoryReport | null): ExportRow[] => {
+  if (!report) return []
+  return getInventoryReportRows(report).map(values => {
+    const row: ExportRow = {}
+    INVENTORY_REPORT_COLUMNS.forEach((column, index) => {
+      row[column] = values[index]
+    })
+    return row
+  })
+}
+
+// One row per leaf, carrying the labels of every node on its path
+const buildTopologyRows = (nodes: TopologyNode[], path: Record<string, string> = {}): ExportRow[] => {
+  return nodes.flatMap(node => {
+    const nodePath = { ...path, [node.kind]: node.label }
+    if (node.children.length > 0) return buildTopologyRows(node.children, nodePath)
+    return [{
+      park: nodePath.park || null,
+      venue: nodePath.venue || null,
+      camera: nodePath.camera || null,
+      scenario: nodePath.scenario || null,
+      leaf_id: node.target?.itemId || null,
+      orphan: node.orphan
+    }]
+  })
+}
+
+/**
+ * Rows for whatever the explorer is showing, using the already filtered (searched) data
+ */
+export const buildViewExportRows = (filterType: FilterType, data: ViewExportData): ExportRow[] => {
+  if (isHealthFilter(filterType)) {
+    const ruleId = getHealthRuleId(filterType)
+    return buildHealthRows(data.healthResults.find(result => result.rule.id === ruleId))
+  }
+
+  switch (filterType) {
+    case 'duplicates': return buildDuplicateRows(data.duplicateRecords)
+    case 'unconfigured': return buildUnconfiguredRows(data.unconfiguredScenarios)
+    case 'inventory': return buildInventoryRows(data.inventoryReport)
+    case 'corrections': return buildCorrectionRows(data.corrections)
+    case 'changes': return buildChangeRows(data.changes)
+    case 'topology': return buildTopologyRows(data.topology)
+    case 'devices': return buildCameraInventoryRows(data.groupedCameras)
+    case 'offline': return buildCameraInventoryRows(data.offlineCameras)
+    case 'queue_venue': return buildVenueRows(data.venueGroups.queue)
+    case 'occupancy_venue': return buildVenueRows(data.venueGroups.occupancy)
+    case 'all':
+      return [
+        ...buildEntityRows(data.groupedData).map(row => ({ source: 'entity_record', ...row })),
+        ...buildCameraInventoryRows(data.groupedCameras).map(row => ({ source: 'camera_device', ...row }))
+      ]
+    default:
+      return buildEntityRows(data.groupedData)
+  }
+}
+
+/**
+ * Triggers a browser download of the given content
+ */
+export const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType })
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+
+  link.setAttribute('href', url)
+  link.setAttribute('download', filename)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+export const exportRows = (rows: ExportRow[], format: ExportFormat, baseName: string) => {
+  const date = new Date().toISOString().split('T')[0]
+  const filename = `${baseName}-${date}.${format}`
+
+  if (format === 'csv') {
+    downloadFile(toCsv(rows), filename, 'text/csv;charset=utf-8;')
+  } else {
+    downloadFile(JSON.stringify(rows, null, 2), filename, 'application/json;charset=utf-8;')
+  }
+}
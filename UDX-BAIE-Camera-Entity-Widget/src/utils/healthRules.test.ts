@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest'
+import { CameraDevice, EntityRecord } from '../WidgetView'
+import { HealthRule } from '../types/dashboard'
+import { getHealthRuleId, isHealthFilter, runHealthRules, toHealthFilter } from './healthRules'
+
+const entity = (
+  id: string,
+  recordType: EntityRecord['record_type'],
+  info: Partial<EntityRecord['info']> = {},
+  settings: EntityRecord['settings'] = {}
+): EntityRecord => ({
+  id,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  record_type: recordType,
+  unique_id: id,
+  name: id,
+  info: { park: 'Epic Universe', ...info },
+  settings,
+  metrics: {}
+})
+
+const scenario = (id: string, venueId: string | null, direction: string, info: Partial<EntityRecord['info']> = {}) =>
+  entity(id, 'camera_scenario', { camera_hostname: 'axis-1', ...info }, { venue_id: venueId, direction })
+
+const camera = (hostname: string | null, park = 'Epic Universe', isConfigured = true): CameraDevice => ({
+  id: `cam-${hostname}`,
+  name: `Camera ${hostname}`,
+  device_type: 'axis-camera',
+  hostname,
+  park,
+  location: null,
+  ip_address: null,
+  tags: {},
+  last_input: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  is_configured: isConfigured
+})
+
+const issuesFor = (ruleId: string, entityData: EntityRecord[], cameras: CameraDevice[] = [camera('axis-1')]) => {
+  return runHealthRules(entityData, cameras).find(result => result.rule.id === ruleId)!.issues
+}
+
+describe('health filters', () => {
+  it('round-trips rule ids through filter types', () => {
+    const filter = toHealthFilter('park-mismatch')
+    expect(isHealthFilter(filter)).toBe(true)
+    expect(isHealthFilter('camera_scenario')).toBe(false)
+    expect(getHealthRuleId(filter)).toBe('park-mismatch')
+  })
+})
+
+describe('runHealthRules', () => {
+  it('orders results by severity', () => {
+    expect(runHealthRules([], []).map(result => result.rule.severity)).toEqual(['error', 'warning', 'warning', 'warning', 'info'])
+  })
+
+  it('flags venues whose scenarios only count one way, accepting legacy in/out directions', () => {
+    const issues = issuesFor('one-direction-venue', [
+      entity('Q-1', 'queue_venue'),
+      scenario('s1', 'Q-1', 'entry'),
+      scenario('s2', 'Q-1', 'in'),
+      scenario('s3', 'Q-2', 'in'),
+      scenario('s4', 'Q-2', 'exit')
+    ])
+
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({ subjectId: 'Q-1', message: '2 scenarios linked, none counting "out"' })
+  })
+
+  it('flags scenarios linked to a venue without a record', () => {
+    const records = [entity('Q-1', 'queue_venue'), scenario('s1', 'Q-1', 'entry'), scenario('s2', 'Q-9', 'entry')]
+    expect(issuesFor('missing-venue-record', records).map(issue => issue.subjectId)).toEqual(['s2'])
+  })
+
+  it('skips the missing venue check when the entity has no venue records', () => {
+    expect(issuesFor('missing-venue-record', [scenario('s1', 'Q-9', 'entry')])).toEqual([])
+  })
+
+  it('flags configured cameras without scenarios', () => {
+    const cameras = [camera('axis-1'), camera('AXIS-2'), camera(null), camera('axis-3', 'Epic Universe', false)]
+    const issues = issuesFor('camera-without-scenarios', [scenario('s1', null, 'entry')], cameras)
+
+    expect(issues.map(issue => issue.message)).toEqual(['No scenarios for hostname AXIS-2', 'Camera has no hostname tag'])
+  })
+
+  it('flags scenarios in another park than their camera, ignoring case', () => {
+    const records = [
+      scenario('s1', null, 'entry', { park: 'epic universe' }),
+      scenario('s2', null, 'entry', { park: 'Islands of Adventure', camera_hostname: 'AXIS-1' })
+    ]
+    expect(issuesFor('park-mismatch', records).map(issue => issue.subjectId)).toEqual(['s2'])
+  })
+
+  it('flags venue types no alias could correct', () => {
+    const records = [entity('Q-1', 'queue_venue', { venue_type: 'Queue' }), entity('Q-2', 'queue_venue', {}, { venue_type: 'lobby' })]
+    const issues = issuesFor('unknown-venue-type', records)
+
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({ subjectId: 'Q-2', message: 'Unrecognized venue_type "lobby"' })
+  })
+
+  it('reports a failing rule with no issues', () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const failing: HealthRule = {
+      id: 'failing',
+      label: 'Failing',
+      description: 'Always throws',
+      severity: 'error',
+      check: () => { throw new Error('boom') }
+    }
+
+    expect(runHealthRules([], [], [failing])).toEqual([{ rule: failing, issues: [] }])
+    expect(error).toHaveBeenCalled()
+    error.mockRestore()
+  })
+})
@@ -0,0 +1,207 @@
+import { EntityRecord, CameraDevice } from '../WidgetView'
+import {
+  HealthFilterType,
+  HealthIssue,
+  HealthRule,
+  HealthRuleContext,
+  HealthRuleResult,
+  FilterType,
+  RuleSeverity
+} from '../types/dashboard'
+
+export const KNOWN_VENUE_TYPES = ['queue', 'occupancy']
+
+export const SEVERITY_ORDER: Record<RuleSeverity, number> = {
+  error: 0,
+  warning: 1,
+  info: 2
+}
+
+export const toHealthFilter = (ruleId: string): HealthFilterType => `health:${ruleId}`
+
+export const isHealthFilter = (filterType: FilterType): filterType is HealthFilterType => {
+  return filterType.startsWith('health:')
+}
+
+export const getHealthRuleId = (filterType: HealthFilterType): string => filterType.slice('health:'.length)
+
+// Scenario directions are stored as entry/exit, older records use in/out
+const getDirectionSide = (direction: string | null | undefined): 'in' | 'out' | null => {
+  const value = direction?.trim().toLowerCase()
+  if (value === 'in' || value === 'entry') return 'in'
+  if (value === 'out' || value === 'exit') return 'out'
+  return null
+}
+
+const normalizePark = (park: string | null | undefined): string => (park || '').trim().toLowerCase()
+
+const recordIssue = (ruleId: string, record: EntityRecord, message: string): HealthIssue => ({
+  ruleId,
+  subjectId: record.id,
+  subjectLabel: record.name,
+  park: record.info.park || null,
+  message,
+  record
+})
+
+const cameraIssue = (ruleId: string, camera: CameraDevice, message: string): HealthIssue => ({
+  ruleId,
+  subjectId: camera.id,
+  subjectLabel: camera.name,
+  park: camera.park,
+  message,
+  camera
+})
+
+const missingVenueRecordRule: HealthRule = {
+  id: 'missing-venue-record',
+  label: 'Missing Venue',
+  description: 'Camera scenarios whose settings.venue_id does not match any queue or occupancy venue record.',
+  severity: 'warning',
+  check: ({ scenarios, venueRecordsById }) => {
+    // Entities without any venue records rely on scenario venue_ids alone, so there is nothing to check against
+    if (venueRecordsById.size === 0) return []
+
+    return scenarios
+      .filter(s => s.settings.venue_id && !venueRecordsById.has(s.settings.venue_id))
+      .map(s => recordIssue('missing-venue-record', s, `No venue record for venue_id "${s.settings.venue_id}"`))
+  }
+}
+
+const oneDirectionVenueRule: HealthRule = {
+  id: 'one-direction-venue',
+  label: 'One-Way Venues',
+  description: 'Venues whose linked scenarios only count in one direction, so queue and occupancy cannot be balanced.',
+  severity: 'error',
+  check: ({ scenariosByVenueId, venueRecordsById }) => {
+    const issues: HealthIssue[] = []
+
+    scenariosByVenueId.forEach((scenarios, venueId) => {
+      const sides = new Set(scenarios.map(s => getDirectionSide(s.settings.direction)).filter(Boolean))
+      if (sides.size !== 1) return
+
+      const missing = sides.has('in') ? 'out' : 'in'
+      const venueRecord = venueRecordsById.get(venueId)
+      issues.push({
+        ruleId: 'one-direction-venue',
+        subjectId: venueRecord?.id || venueId,
+        subjectLabel: venueId,
+        park: venueRecord?.info.park || scenarios[0].info.park || null,
+        message: `${scenarios.length} scenario${scenarios.length !== 1 ? 's' : ''} linked, none counting "${missing}"`,
+        record: venueRecord
+      })
+    })
+
+    return issues
+  }
+}
+
+const configuredCameraWithoutScenariosRule: HealthRule = {
+  id: 'camera-without-scenarios',
+  label: 'Idle Cameras',
+  description: 'Cameras marked as configured that have no camera scenario records for their hostname.',
+  severity: 'warning',
+  check: ({ cameraDevices, scenariosByHostname }) => cameraDevices
+    .filter(c => c.is_configured && !(c.hostname && scenariosByHostname.get(c.hostname.toLowerCase())?.length))
+    .map(c => cameraIssue('camera-without-scenarios', c, c.hostname ? `No scenarios for hostname ${c.hostname}` : 'Camera has no hostname tag'))
+}
+
+const parkMismatchRule: HealthRule = {
+  id: 'park-mismatch',
+  label: 'Park Mismatch',
+  description: 'Camera scenarios whose info.park differs from the park tag of the matching camera device.',
+  severity: 'warning',
+  check: ({ scenarios, camerasByHostname }) => scenarios
+    .filter(s => {
+      const camera = s.info.camera_hostname ? camerasByHostname.get(s.info.camera_hostname.toLowerCase()) : undefined
+      return camera && camera.park && s.info.park && normalizePark(camera.park) !== normalizePark(s.info.park)
+    })
+    .map(s => {
+      const camera = camerasByHostname.get(s.info.camera_hostname!.toLowerCase())!
+      return recordIssue('park-mismatch', s, `Scenario park "${s.info.park}" but camera ${camera.name} is in "${camera.park}"`)
+    })
+}
+
+const unknownVenueTypeRule: HealthRule = {
+  id: 'unknown-venue-type',
+  label: 'Bad Venue Type',
+  description: `Records with a venue_type other than ${KNOWN_VENUE_TYPES.join(' or ')} that no ingestion alias could correct.`,
+  severity: 'info',
+  check: ({ entityData }) => entityData
+    .filter(r => [r.settings.venue_type, r.info.venue_type].some(v => v && !KNOWN_VENUE_TYPES.includes(v.trim().toLowerCase())))
+    .map(r => {
+      const value = [r.settings.venue_type, r.info.venue_type].find(v => v && !KNOWN_VENUE_TYPES.includes(v.trim().toLowerCase()))
+      return recordIssue('unknown-venue-type', r, `Unrecognized venue_type "${value}"`)
+    })
+}
+
+/**
+ * Default rule set run by the explorer. Add a HealthRule here to get a new filter view.
+ */
+export const HEALTH_RULES: HealthRule[] = [
+  oneDirectionVenueRule,
+  missingVenueRecordRule,
+  configuredCameraWithoutScenariosRule,
+  parkMismatchRule,
+  unknownVenueTypeRule
+]
+
+/**
+ * Builds the shared lookups once so each rule can stay a simple filter
+ */
+export const buildHealthRuleContext = (entityData: EntityRecord[], cameraDevices: CameraDevice[]): HealthRuleContext => {
+  const scenarios = entityData.filter(r => r.record_type === 'camera_scenario')
+  const venueRecordsById = new Map<string, EntityRecord>()
+  const scenariosByVenueId = new Map<string, EntityRecord[]>()
+  const camerasByHostname = new Map<string, CameraDevice>()
+  const scenariosByHostname = new Map<string, EntityRecord[]>()
+
+  entityData.forEach(record => {
+    if (record.record_type === 'queue_venue' || record.record_type === 'occupancy_venue') {
+      venueRecordsById.set(record.unique_id, record)
+    }
+  })
+
+  scenarios.forEach(scenario => {
+    const venueId = scenario.settings.venue_id
+    if (venueId) {
+      if (!scenariosByVenueId.has(venueId)) scenariosByVenueId.set(venueId, [])
+      scenariosByVenueId.get(venueId)!.push(scenario)
+    }
+
+    const hostname = scenario.info.camera_hostname?.toLowerCase()
+    if (hostname) {
+      if (!scenariosByHostname.has(hostname)) scenariosByHostname.set(hostname, [])
+      scenariosByHostname.get(hostname)!.push(scenario)
+    }
+  })
+
+  cameraDevices.forEach(camera => {
+    if (camera.hostname) camerasByHostname.set(camera.hostname.toLowerCase(), camera)
+  })
+
+  return { entityData, cameraDevices, scenarios, venueRecordsById, scenariosByVenueId, camerasByHostname, scenariosByHostname }
+}
+
+/**
+ * Runs every rule and returns results ordered by severity. A rule that throws
+ * is logged and reported with no issues rather than breaking the explorer.
+ */
+export const runHealthRules = (
+  entityData: EntityRecord[],
+  cameraDevices: CameraDevice[],
+  rules: HealthRule[] = HEALTH_RULES
+): HealthRuleResult[] => {
+  const context = buildHealthRuleContext(entityData, cameraDevices)
+
+  return rules
+    .map(rule => {
+      try {
+        return { rule, issues: rule.check(context) }
+      } catch (e) {
+        console.error(`Health rule ${rule.id} failed:`, e)
+        return { rule, issues: [] }
+      }
+    })
+    .sort((a, b) => SEVERITY_ORDER[a.rule.severity] - SEVERITY_ORDER[b.rule.severity])
+}
@@ -0,0 +1,301 @@
+import { CameraDevice } from '../WidgetView'
+import {
+  InventoryEntry,
+  InventoryMatch,
+  InventoryMatchField,
+  InventoryParseError,
+  InventoryReport,
+  InventoryStatus
+} from '../types/dashboard'
+import { extractMacAddress } from './searchUtils'
+
+export const INVENTORY_STATUS_LABELS: Record<InventoryStatus, string> = {
+  configured: 'Present and configured',
+  unconfigured: 'Present but unconfigured',
+  missing: 'Expected but never seen',
+  unexpected: 'Seen but not in inventory'
+}
+
+export const INVENTORY_STATUSES: InventoryStatus[] = ['configured', 'unconfigured', 'missing', 'unexpected']
+
+type InventoryColumn = 'mac' | 'park' | 'location' | 'friendlyName' | 'hostname' | 'ipAddress'
+
+// Header names accepted for each column, after normalizeHeader
+const COLUMN_ALIASES: Record<InventoryColumn, string[]> = {
+  mac: ['mac', 'mac_address', 'macaddress', 'mac_addr'],
+  park: ['park'],
+  location: ['location'],
+  friendlyName: ['friendly_name', 'friendlyname', 'name', 'camera_name'],
+  hostname: ['hostname', 'host'],
+  ipAddress: ['ip', 'ip_address', 'ipaddress']
+}
+
+// Column order used when the CSV has no header row
+const POSITIONAL_COLUMNS: InventoryColumn[] = ['mac', 'park', 'location', 'friendlyName']
+
+const normalizeHeader = (header: string): string => header.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '')
+
+/**
+ * Normalizes a MAC address to 12 uppercase hex digits, accepting any separators
+ * (B8:A4:4F:FF:01:B7, b8-a4-4f-ff-01-b7, B8A44FFF01B7). Returns '' if it is not a MAC.
+ */
+export const normalizeMacAddress = (value: string | null | undefined): string => {
+  const text = (value || '').trim()
+  if (/[^0-9a-f:.\-\s]/i.test(text)) return ''
+  const hex = text.replace(/[^0-9a-f]/gi, '').toUpperCase()
+  return /^[0-9A-F]{12}$/.test(hex) ? hex : ''
+}
+
+// Spreadsheets paste as tab-separated; some locales export with semicolons
+const detectDelimiter = (line: string): string => {
+  if (line.includes('\t')) return '\t'
+  return line.split(';').length > line.split(',').length ? ';' : ','
+}
+
+/**
+ * Splits CSV text into rows of cells, honouring quoted cells with embedded
+ * delimiters, quotes ("") and line breaks. Each row keeps its starting line number.
+ */
+const parseCsvRows = (text: string): { line: number, cells: string[] }[] => {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim() !== '') || ''
+  const delimiter = detectDelimiter(firstLine)
+  const rows: { line: number, cells: string[] }[] = []
+
+  let cells: string[] = []
+  let cell = ''
+  let inQuotes = false
+  let line = 1
+  let rowLine = 1
+
+  const endRow = () => {
+    cells.push(cell)
+    if (cells.some(value => value.trim() !== '')) {
+      rows.push({ line: rowLine, cells: cells.map(value => value.trim()) })
+    }
+    cells = []
+    cell = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === '\n') line++
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === delimiter) {
+      cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+      line++
+      rowLine = line
+    } else {
+      cell += char
+    }
+  }
+  endRow()
+
+  return rows
+}
+
+const findColumns = (headerCells: string[]): Partial<Record<InventoryColumn, number>> | null => {
+  const headers = headerCells.map(normalizeHeader)
+  const columns: Partial<Record<InventoryColumn, number>> = {}
+  const columnNames = Object.keys(COLUMN_ALIASES) as InventoryColumn[]
+
+  columnNames.forEach(column => {
+    const index = headers.findIndex(header => COLUMN_ALIASES[column].includes(header))
+    if (index !== -1) columns[column] = index
+  })
+
+  // Without a MAC, hostname or IP column this is data, not a header
+  return columns.mac !== undefined || columns.hostname !== undefined || columns.ipAddress !== undefined ? columns : null
+}
+
+/**
+ * Parses an inventory CSV of expected cameras. A header row picks the columns
+ * (MAC, park, location, friendly name, and optionally hostname and IP address);
+ * without one the columns are read as MAC, park, location, friendly name.
+ * Rows that cannot identify a camera, or repeat an earlier MAC, become errors.
+ */
+export const parseInventoryCsv = (text: string): { entries: InventoryEntry[], errors: InventoryParseError[] } => {
+  const rows = parseCsvRows(text)
+  const entries: InventoryEntry[] = []
+  const errors: InventoryParseError[] = []
+  if (rows.length === 0) return { entries, errors }
+
+  const headerColumns = findColumns(rows[0].cells)
+  const columns = headerColumns || Object.fromEntries(POSITIONAL_COLUMNS.map((column, index) => [column, index]))
+  const dataRows = headerColumns ? rows.slice(1) : rows
+  const linesByMac = new Map<string, number>()
+
+  const read = (cells: string[], column: InventoryColumn): string | null => {
+    const index = columns[column]
+    const value = index === undefined ? '' : (cells[index] || '')
+    return value !== '' ? value : null
+  }
+
+  dataRows.forEach(({ line, cells }) => {
+    const rawMac = read(cells, 'mac')
+    const macAddress = normalizeMacAddress(rawMac)
+    const hostname = read(cells, 'hostname')
+    const ipAddress = read(cells, 'ipAddress')
+
+    if (rawMac && !macAddress) {
+      errors.push({ line, message: `"${rawMac}" is not a MAC address` })
+      return
+    }
+    if (!macAddress && !hostname && !ipAddress) {
+      errors.push({ line, message: 'No MAC address, hostname or IP address' })
+      return
+    }
+    if (macAddress && linesByMac.has(macAddress)) {
+      errors.push({ line, message: `MAC ${macAddress} is already listed on line ${linesByMac.get(macAddress)}` })
+      return
+    }
+    if (macAddress) linesByMac.set(macAddress, line)
+
+    entries.push({
+      line,
+      macAddress,
+      park: read(cells, 'park'),
+      location: read(cells, 'location'),
+      friendlyName: read(cells, 'friendlyName'),
+      hostname,
+      ipAddress
+    })
+  })
+
+  return { entries, errors }
+}
+
+/**
+ * MAC addresses a camera device is known by: the one embedded in its hostname
+ * (e.g. axis-B8A44FFF01B7) and any tag value that is a MAC
+ */
+export const getCameraMacAddresses = (camera: CameraDevice): string[] => {
+  const macs = [
+    extractMacAddress(camera.hostname).toUpperCase(),
+    ...Object.values(camera.tags || {}).map(value => normalizeMacAddress(String(value)))
+  ]
+  return Array.from(new Set(macs.filter(mac => mac !== '')))
+}
+
+const sameText = (a: string | null, b: string | null): boolean => (a || '').trim().toLowerCase() === (b || '').trim().toLowerCase()
+
+const describeDifferences = (entry: InventoryEntry, camera: CameraDevice): string[] => {
+  const differences: string[] = []
+  if (entry.park && camera.park && !sameText(entry.park, camera.park)) {
+    differences.push(`Park is ${camera.park}, inventory says ${entry.park}`)
+  }
+  if (entry.location && camera.location && !sameText(entry.location, camera.location)) {
+    differences.push(`Location is ${camera.location}, inventory says ${entry.location}`)
+  }
+  return differences
+}
+
+/**
+ * Reconciles the camera devices against the inventory. Each entry is matched by MAC first,
+ * then hostname, then IP address; a camera is matched by at most one entry. Matched cameras
+ * are present and configured / unconfigured, unmatched entries were never seen, and
+ * unmatched cameras are not in the inventory.
+ */
+export const reconcileInventory = (inventoryText: string, cameraDevices: CameraDevice[]): InventoryReport => {
+  const { entries, errors } = parseInventoryCsv(inventoryText)
+
+  const camerasByMac = new Map<string, CameraDevice>()
+  const camerasByHostname = new Map<string, CameraDevice>()
+  const camerasByIp = new Map<string, CameraDevice>()
+  cameraDevices.forEach(camera => {
+    getCameraMacAddresses(camera).forEach(mac => camerasByMac.set(mac, camera))
+    if (camera.hostname) camerasByHostname.set(camera.hostname.toLowerCase(), camera)
+    if (camera.ip_address) camerasByIp.set(camera.ip_address.trim(), camera)
+  })
+
+  const matchedCameraIds = new Set<string>()
+  const matches: InventoryMatch[] = []
+
+  const findCamera = (entry: InventoryEntry): { camera: CameraDevice, matchedBy: InventoryMatchField } | null => {
+    const candidates: [CameraDevice | undefined, InventoryMatchField][] = [
+      [entry.macAddress ? camerasByMac.get(entry.macAddress) : undefined, 'mac'],
+      [entry.hostname ? camerasByHostname.get(entry.hostname.toLowerCase()) : undefined, 'hostname'],
+      [entry.ipAddress ? camerasByIp.get(entry.ipAddress) : undefined, 'ip_address']
+    ]
+    const found = candidates.find(([camera]) => camera && !matchedCameraIds.has(camera.id))
+    return found ? { camera: found[0] as CameraDevice, matchedBy: found[1] } : null
+  }
+
+  entries.forEach(entry => {
+    const found = findCamera(entry)
+    if (!found) {
+      matches.push({ status: 'missing', entry, camera: null, matchedBy: null, differences: [] })
+      return
+    }
+
+    matchedCameraIds.add(found.camera.id)
+    matches.push({
+      status: found.camera.is_configured ? 'configured' : 'unconfigured',
+      entry,
+      camera: found.camera,
+      matchedBy: found.matchedBy,
+      differences: describeDifferences(entry, found.camera)
+    })
+  })
+
+  cameraDevices
+    .filter(camera => !matchedCameraIds.has(camera.id))
+    .forEach(camera => {
+      matches.push({ status: 'unexpected', entry: null, camera, matchedBy: null, differences: [] })
+    })
+
+  const counts = Object.fromEntries(
+    INVENTORY_STATUSES.map(status => [status, matches.filter(match => match.status === status).length])
+  ) as Record<InventoryStatus, number>
+
+  return { matches, counts, errors }
+}
+
+export const INVENTORY_REPORT_COLUMNS = ['status', 'inventory_line', 'mac', 'inventory_park', 'inventory_location', 'inventory_name', 'device_id', 'device_name', 'hostname', 'ip_address', 'device_park', 'matched_by', 'differences']
+
+/**
+ * Report rows in INVENTORY_REPORT_COLUMNS order, one per inventory entry or unmatched camera
+ */
+export const getInventoryReportRows = (report: InventoryReport): (string | number | null)[][] => {
+  return report.matches.map(match => [
+    INVENTORY_STATUS_LABELS[match.status],
+    match.entry?.line ?? null,
+    match.entry?.macAddress || (match.camera ? getCameraMacAddresses(match.camera)[0] || null : null),
+    match.entry?.park ?? null,
+    match.entry?.location ?? null,
+    match.entry?.friendlyName ?? null,
+    match.camera?.id ?? null,
+    match.camera?.name ?? null,
+    match.camera?.hostname ?? match.entry?.hostname ?? null,
+    match.camera?.ip_address ?? match.entry?.ipAddress ?? null,
+    match.camera?.park ?? null,
+    match.matchedBy,
+    match.differences.join('; ') || null
+  ])
+}
+
+/**
+ * The report as CSV, one row per inventory entry or unmatched camera
+ */
+export const buildInventoryReportCsv = (report: InventoryReport): string => {
+  const escape = (value: string | number | null) => {
+    const text = value === null ? '' : String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  return [INVENTORY_REPORT_COLUMNS, ...getInventoryReportRows(report)].map(row => row.map(escape).join(',')).join('\n')
+}
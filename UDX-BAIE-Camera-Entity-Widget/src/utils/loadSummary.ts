@@ -0,0 +1,232 @@
+import { EntityRecord, CameraDevice } from '../WidgetView'
+import { ChunkIssue, IntegrityCheck, LoadSummary, TruncatedSource } from '../types/dashboard'
+import { parseMetadata } from './chunkUtils'
+
+export const SUMMARY_VARIABLES = [
+  'total_records',
+  'camera_scenarios_count',
+  'queue_venues_count',
+  'occupancy_venues_count',
+  'camera_devices_count',
+  'data_loaded',
+  'sync_generation'
+]
+
+const toTime = (value: string | undefined): number => {
+  const time = value ? new Date(value).getTime() : NaN
+  return Number.isNaN(time) ? 0 : time
+}
+
+const toCount = (value: any): number | null => {
+  const count = Number(value)
+  return value !== null && value !== '' && Number.isInteger(count) && count >= 0 ? count : null
+}
+
+const createLoadSummary = (group: string | null, time: string): LoadSummary => ({
+  group,
+  time,
+  totalRecords: null,
+  cameraScenarios: null,
+  queueVenues: null,
+  occupancyVenues: null,
+  cameraDevices: null,
+  configuredCameras: null,
+  recordCount: null,
+  lastUpdate: null,
+  generation: null,
+  syncGeneration: null,
+  truncated: []
+})
+
+const isTrue = (value: any): boolean => value === true || value === 'true'
+
+const readTruncatedSources = (metadata: Record<string, any>): TruncatedSource[] => {
+  const sources: TruncatedSource[] = []
+  if (isTrue(metadata.entity_records_truncated)) {
+    sources.push({ key: 'entity_records', label: 'Entity records', limit: toCount(metadata.entity_record_limit) })
+  }
+  if (isTrue(metadata.camera_devices_truncated)) {
+    sources.push({ key: 'camera_devices', label: 'Camera devices', limit: toCount(metadata.camera_device_limit) })
+  }
+  return sources
+}
+
+const applySummaryPoint = (summary: LoadSummary, dp: any) => {
+  const metadata = parseMetadata(dp.metadata)
+
+  switch (dp.variable) {
+    case 'total_records': summary.totalRecords = toCount(dp.value); break
+    case 'camera_scenarios_count': summary.cameraScenarios = toCount(dp.value); break
+    case 'queue_venues_count': summary.queueVenues = toCount(dp.value); break
+    case 'occupancy_venues_count': summary.occupancyVenues = toCount(dp.value); break
+    case 'camera_devices_count':
+      summary.cameraDevices = toCount(dp.value)
+      summary.configuredCameras = toCount(metadata.configured)
+      break
+    case 'data_loaded':
+      summary.recordCount = toCount(metadata.record_count)
+      summary.cameraDevices = summary.cameraDevices ?? toCount(metadata.camera_devices_count)
+      summary.lastUpdate = metadata.last_update || null
+      summary.generation = toCount(metadata.generation)
+      summary.truncated = readTruncatedSources(metadata)
+      break
+  }
+}
+
+/**
+ * sync_generation is written when a sync starts, before any records, so it is tracked
+ * apart from the grouped counts: the highest generation seen so far wins.
+ */
+const readSyncGeneration = (points: any[], previous: number | null): number | null => {
+  return points
+    .filter(dp => dp?.variable === 'sync_generation')
+    .map(dp => toCount(dp.value))
+    .reduce<number | null>((max, value) => value !== null && (max === null || value > max) ? value : max, previous)
+}
+
+/**
+ * Reads the summary points of a batch into the load summary. Only points from the newest
+ * analysis run (group) in the batch are used; a batch older than the current summary is ignored,
+ * and a newer run starts a fresh summary so counts from different runs are never mixed.
+ */
+export const readLoadSummary = (points: any[], previous: LoadSummary | null): LoadSummary | null => {
+  const syncGeneration = readSyncGeneration(points, previous?.syncGeneration ?? null)
+  const summaryPoints = points.filter(dp => SUMMARY_VARIABLES.includes(dp?.variable) && dp.variable !== 'sync_generation')
+  if (summaryPoints.length === 0) {
+    if (!previous && syncGeneration === null) return null
+    return { ...(previous || createLoadSummary(null, new Date(0).toISOString())), syncGeneration }
+  }
+
+  const latest = summaryPoints.reduce((a, b) => toTime(b.time) > toTime(a.time) ? b : a)
+  if (previous && toTime(latest.time) < toTime(previous.time)) return previous
+
+  const group = latest.group || null
+  const summary = previous && previous.group === group
+    ? { ...previous, time: latest.time }
+    : createLoadSummary(group, latest.time)
+
+  summaryPoints
+    .filter(dp => (dp.group || null) === group)
+    .sort((a, b) => toTime(a.time) - toTime(b.time))
+    .forEach(dp => applySummaryPoint(summary, dp))
+
+  summary.syncGeneration = syncGeneration
+  return summary
+}
+
+const describeMismatch = (noun: string, expected: number, parsed: number, chunkedMissing: number): string => {
+  const base = `Expected ${expected} ${noun}, parsed ${parsed}`
+
+  if (parsed > expected) {
+    return `${base} — ${parsed - expected} more than the analysis reported`
+  }
+
+  const missing = expected - parsed
+  const chunked = Math.min(chunkedMissing, missing)
+  const chunkedText = `${chunked} chunked record${chunked === 1 ? '' : 's'} missing`
+  if (chunked === 0) return `${base} — ${missing} missing`
+  if (chunked === missing) return `${base} — ${chunkedText}`
+  return `${base} — ${chunkedText}, ${missing - chunked} unaccounted for`
+}
+
+interface CountComparison {
+  key: string
+  label: string
+  noun: string
+  expected: number | null
+  parsed: number
+  // Records of this kind still held in the chunk buffer
+  chunked: number
+}
+
+/**
+ * Compares the counts the analysis reported with what the widget actually parsed.
+ * Returns only the checks that disagree. Records whose chunks have not all arrived (or
+ * failed to decompress) are reported as the likely cause of missing records.
+ */
+export const checkLoadIntegrity = (
+  summary: LoadSummary | null,
+  entityData: EntityRecord[],
+  cameraDevices: CameraDevice[],
+  chunkIssues: ChunkIssue[]
+): IntegrityCheck[] => {
+  if (!summary) return []
+
+  const countByType = (type: string) => entityData.filter(record => record.record_type === type).length
+  const chunkedByType = (type: string) => chunkIssues.filter(issue => issue.recordType === type).length
+  const configuredCameras = cameraDevices.filter(camera => camera.is_configured).length
+
+  const candidates: CountComparison[] = [
+    {
+      key: 'records',
+      label: 'Entity records',
+      noun: 'records',
+      expected: summary.recordCount ?? summary.totalRecords,
+      parsed: entityData.length,
+      chunked: chunkIssues.length
+    },
+    {
+      key: 'camera_scenario',
+      label: 'Camera scenarios',
+      noun: 'camera scenarios',
+      expected: summary.cameraScenarios,
+      parsed: countByType('camera_scenario'),
+      chunked: chunkedByType('camera_scenario')
+    },
+    {
+      key: 'queue_venue',
+      label: 'Queue venues',
+      noun: 'queue venues',
+      expected: summary.queueVenues,
+      parsed: countByType('queue_venue'),
+      chunked: chunkedByType('queue_venue')
+    },
+    {
+      key: 'occupancy_venue',
+      label: 'Occupancy venues',
+      noun: 'occupancy venues',
+      expected: summary.occupancyVenues,
+      parsed: countByType('occupancy_venue'),
+      chunked: chunkedByType('occupancy_venue')
+    },
+    {
+      key: 'camera_devices',
+      label: 'Camera devices',
+      noun: 'camera devices',
+      expected: summary.cameraDevices,
+      parsed: cameraDevices.length,
+      chunked: 0
+    },
+    {
+      key: 'configured_cameras',
+      label: 'Configured cameras',
+      noun: 'configured cameras',
+      expected: summary.configuredCameras,
+      parsed: configuredCameras,
+      chunked: 0
+    }
+  ]
+
+  const checks: IntegrityCheck[] = candidates
+    .filter(check => check.expected !== null && check.expected !== check.parsed)
+    .map(check => ({
+      key: check.key,
+      label: check.label,
+      expected: check.expected as number,
+      parsed: check.parsed,
+      message: describeMismatch(check.noun, check.expected as number, check.parsed, check.chunked)
+    }))
+
+  // A newer sync has started but its data_loaded marker has not arrived yet
+  if (summary.syncGeneration !== null && summary.generation !== null && summary.syncGeneration > summary.generation) {
+    checks.unshift({
+      key: 'generation',
+      label: 'Sync generation',
+      expected: summary.syncGeneration,
+      parsed: summary.generation,
+      message: `Generation ${summary.syncGeneration} is still being written — showing data from generation ${summary.generation}`
+    })
+  }
+
+  return checks
+}
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import { EntityRecord } from '../WidgetView'
+import {
+  applyDataLoadedMarker,
+  completePendingRebuild,
+  createMergeStore,
+  getRecordPushChange,
+  hasMergeChanges,
+  parseDataLoadedMarker,
+  startPush,
+  upsertRecord
+} from './mergeStore'
+
+const record = (id: string, updatedAt = '2026-01-01T00:00:00.000Z', name = id): EntityRecord => ({
+  id,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: updatedAt,
+  record_type: 'camera_scenario',
+  unique_id: `${id}-uid`,
+  name,
+  info: { park: 'Epic Universe' },
+  settings: {},
+  metrics: {}
+})
+
+const loadStore = (...ids: string[]) => {
+  const store = createMergeStore()
+  const summary = startPush(store)
+  ids.forEach(id => upsertRecord(store, summary, record(id)))
+  return store
+}
+
+describe('upsertRecord', () => {
+  it('adds new records and reports the first push as an initial load', () => {
+    const store = createMergeStore()
+    const summary = startPush(store)
+
+    expect(upsertRecord(store, summary, record('a'))).toBe('added')
+    expect(summary).toMatchObject({ push: 1, isInitialLoad: true, added: ['a'] })
+    expect(getRecordPushChange(store.freshness.get('a'), summary)).toBeNull()
+  })
+
+  it('replaces changed records and counts identical ones as unchanged', () => {
+    const store = loadStore('a', 'b')
+    const summary = startPush(store)
+
+    expect(upsertRecord(store, summary, record('a', '2026-01-02T00:00:00.000Z', 'renamed'))).toBe('updated')
+    expect(upsertRecord(store, summary, record('b'))).toBe('unchanged')
+    expect(store.records.get('a')?.name).toBe('renamed')
+    expect(summary).toMatchObject({ isInitialLoad: false, updated: ['a'], unchanged: 1 })
+    expect(getRecordPushChange(store.freshness.get('a'), summary)).toBe('updated')
+    expect(getRecordPushChange(store.freshness.get('b'), summary)).toBeNull()
+  })
+
+  it('ignores records older than the stored version', () => {
+    const store = createMergeStore()
+    upsertRecord(store, startPush(store), record('a', '2026-01-02T00:00:00.000Z'))
+    const summary = startPush(store)
+
+    expect(upsertRecord(store, summary, record('a', '2026-01-01T00:00:00.000Z', 'older'))).toBe('stale')
+    expect(store.records.get('a')?.name).toBe('a')
+    expect(summary.stale).toBe(1)
+    expect(hasMergeChanges(summary)).toBe(false)
+  })
+
+  it('rejects records without an id', () => {
+    const store = createMergeStore()
+    expect(upsertRecord(store, startPush(store), record(''))).toBe('invalid')
+    expect(store.records.size).toBe(0)
+  })
+
+  it('reports records added after the initial load as added', () => {
+    const store = loadStore('a')
+    const summary = startPush(store)
+    upsertRecord(store, summary, record('b'))
+    expect(getRecordPushChange(store.freshness.get('b'), summary)).toBe('added')
+  })
+})
+
+describe('parseDataLoadedMarker', () => {
+  it('reads the record count, deleted ids and full reload flag', () => {
+    expect(parseDataLoadedMarker({ metadata: { record_count: 3, deleted_record_ids: ['x', 7], full_reload: true } })).toEqual({
+      recordCount: 3,
+      deletedRecordIds: ['x', '7'],
+      fullReload: true
+    })
+  })
+
+  it('accepts metadata sent as a JSON string', () => {
+    expect(parseDataLoadedMarker({ metadata: '{"record_count":2}' })).toEqual({
+      recordCount: 2,
+      deletedRecordIds: null,
+      fullReload: false
+    })
+  })
+
+  it('returns null without a usable record count', () => {
+    expect(parseDataLoadedMarker({ metadata: {} })).toBeNull()
+    expect(parseDataLoadedMarker({ metadata: { record_count: -1 } })).toBeNull()
+    expect(parseDataLoadedMarker({ metadata: { record_count: 1.5 } })).toBeNull()
+  })
+})
+
+describe('applyDataLoadedMarker', () => {
+  it('drops exactly the listed records', () => {
+    const store = loadStore('a', 'b', 'c')
+    const summary = startPush(store)
+
+    applyDataLoadedMarker(store, summary, { recordCount: 2, deletedRecordIds: ['b', 'missing'], fullReload: false })
+
+    expect(Array.from(store.records.keys())).toEqual(['a', 'c'])
+    expect(summary.removed).toEqual(['b'])
+    expect(store.rebuildRecordCount).toBeNull()
+  })
+
+  it('asks for a rebuild when the store holds more records than the analysis reported', () => {
+    const store = loadStore('a', 'b', 'c')
+    applyDataLoadedMarker(store, startPush(store), { recordCount: 2, deletedRecordIds: [], fullReload: false })
+    expect(store.rebuildRecordCount).toBe(2)
+  })
+
+  it('asks for a rebuild for markers without a deleted list or flagged full_reload', () => {
+    const legacy = loadStore('a')
+    applyDataLoadedMarker(legacy, startPush(legacy), { recordCount: 1, deletedRecordIds: null, fullReload: false })
+    expect(legacy.rebuildRecordCount).toBe(1)
+
+    const fullReload = loadStore('a')
+    applyDataLoadedMarker(fullReload, startPush(fullReload), { recordCount: 1, deletedRecordIds: [], fullReload: true })
+    expect(fullReload.rebuildRecordCount).toBe(1)
+  })
+})
+
+describe('completePendingRebuild', () => {
+  it('does nothing without a pending rebuild', () => {
+    const store = loadStore('a')
+    expect(completePendingRebuild(store, startPush(store))).toBe(false)
+  })
+
+  it('waits for a push carrying the full data set', () => {
+    const store = loadStore('a', 'b', 'c')
+    applyDataLoadedMarker(store, startPush(store), { recordCount: 2, deletedRecordIds: null, fullReload: true })
+
+    const partial = startPush(store)
+    upsertRecord(store, partial, record('a'))
+    expect(completePendingRebuild(store, partial)).toBe(false)
+    expect(store.records.size).toBe(3)
+    expect(store.rebuildRecordCount).toBe(2)
+  })
+
+  it('drops the records missing from the full push', () => {
+    const store = loadStore('a', 'b', 'c')
+    applyDataLoadedMarker(store, startPush(store), { recordCount: 2, deletedRecordIds: null, fullReload: true })
+
+    const full = startPush(store)
+    upsertRecord(store, full, record('a'))
+    upsertRecord(store, full, record('c'))
+
+    expect(completePendingRebuild(store, full)).toBe(true)
+    expect(Array.from(store.records.keys())).toEqual(['a', 'c'])
+    expect(full.removed).toEqual(['b'])
+    expect(store.rebuildRecordCount).toBeNull()
+    expect(hasMergeChanges(full)).toBe(true)
+  })
+})
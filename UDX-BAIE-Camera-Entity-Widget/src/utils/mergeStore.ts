@@ -0,0 +1,172 @@
+import { EntityRecord } from '../WidgetView'
+import { MergeSummary, RecordFreshness, RecordPushChange } from '../types/dashboard'
+import { parseMetadata } from './chunkUtils'
+
+/**
+ * Entity records merged across onRealtime batches. Batches can carry a partial set
+ * (e.g. only the chunked records that just completed), so records are upserted by id
+ * instead of replacing the whole list. Records are stored as received, before normalization.
+ */
+export interface MergeStore {
+  records: Map<string, EntityRecord>
+  freshness: Map<string, RecordFreshness>
+  push: number
+  // Record count of the marker that asked for a rebuild, until a push carries that many records
+  rebuildRecordCount: number | null
+}
+
+export interface DataLoadedMarker {
+  recordCount: number
+  // Records the analysis removed in this run; null for markers from analyses that predate the list
+  deletedRecordIds: string[] | null
+  // The run deleted more records than it lists, so the store has to be rebuilt
+  fullReload: boolean
+}
+
+export type UpsertOutcome = 'added' | 'updated' | 'unchanged' | 'stale' | 'invalid'
+
+export const createMergeStore = (): MergeStore => ({
+  records: new Map(),
+  freshness: new Map(),
+  push: 0,
+  rebuildRecordCount: null
+})
+
+export const startPush = (store: MergeStore): MergeSummary => {
+  store.push++
+  return {
+    push: store.push,
+    isInitialLoad: store.records.size === 0,
+    added: [],
+    updated: [],
+    removed: [],
+    unchanged: 0,
+    stale: 0
+  }
+}
+
+const toTime = (value: string | undefined): number => {
+  const time = value ? new Date(value).getTime() : NaN
+  return Number.isNaN(time) ? 0 : time
+}
+
+/**
+ * Applies one incoming record. The stored version is replaced unless the incoming one has an
+ * older updated_at; a replacement only counts as a change when the content differs.
+ */
+export const upsertRecord = (store: MergeStore, summary: MergeSummary, record: EntityRecord): UpsertOutcome => {
+  if (!record?.id) return 'invalid'
+
+  const id = record.id
+  const existing = store.records.get(id)
+  const freshness = store.freshness.get(id)
+
+  if (!existing || !freshness) {
+    store.records.set(id, record)
+    store.freshness.set(id, {
+      firstSeenPush: summary.push,
+      lastChangedPush: summary.push,
+      lastSeenPush: summary.push,
+      updatedAt: record.updated_at
+    })
+    summary.added.push(id)
+    return 'added'
+  }
+
+  freshness.lastSeenPush = summary.push
+
+  if (toTime(record.updated_at) < toTime(existing.updated_at)) {
+    summary.stale++
+    return 'stale'
+  }
+
+  if (JSON.stringify(record) === JSON.stringify(existing)) {
+    summary.unchanged++
+    return 'unchanged'
+  }
+
+  store.records.set(id, record)
+  freshness.lastChangedPush = summary.push
+  freshness.updatedAt = record.updated_at
+  if (!summary.added.includes(id) && !summary.updated.includes(id)) summary.updated.push(id)
+  return 'updated'
+}
+
+/**
+ * Reads a data_loaded data point, returning null when it carries no usable record_count
+ */
+export const parseDataLoadedMarker = (dp: any): DataLoadedMarker | null => {
+  const recordCount = Number(parseMetadata(dp.metadata).record_count)
+  if (!Number.isInteger(recordCount) || recordCount < 0) return null
+
+  const metadata = parseMetadata(dp.metadata)
+  return {
+    recordCount,
+    deletedRecordIds: Array.isArray(metadata.deleted_record_ids) ? metadata.deleted_record_ids.map(String) : null,
+    fullReload: metadata.full_reload === true
+  }
+}
+
+const removeRecord = (store: MergeStore, summary: MergeSummary, id: string) => {
+  store.records.delete(id)
+  store.freshness.delete(id)
+  summary.removed.push(id)
+}
+
+/**
+ * The analysis writes a data_loaded marker after every run. Runs only send changed records, so
+ * records missing from a run may still be current; the marker lists the ids the run deleted
+ * and exactly those are dropped.
+ *
+ * The list only covers its own run: a marker that was missed, one from an analysis that predates
+ * the list, or one flagged full_reload leaves deletions unknown. Those ask for a rebuild, which
+ * completePendingRebuild carries out once a push brings the full data set.
+ */
+export const applyDataLoadedMarker = (
+  store: MergeStore,
+  summary: MergeSummary,
+  marker: DataLoadedMarker
+) => {
+  marker.deletedRecordIds?.forEach(id => {
+    if (store.records.has(id)) removeRecord(store, summary, id)
+  })
+
+  if (marker.fullReload || !marker.deletedRecordIds || store.records.size > marker.recordCount) {
+    store.rebuildRecordCount = marker.recordCount
+  }
+}
+
+/**
+ * Rebuilds the store from the current push when a rebuild is pending and the push carried at least
+ * as many records as the analysis reported: records not in the push are dropped. Returns whether
+ * the store was rebuilt.
+ */
+export const completePendingRebuild = (store: MergeStore, summary: MergeSummary): boolean => {
+  if (store.rebuildRecordCount === null) return false
+
+  const staleIds = Array.from(store.freshness)
+    .filter(([, freshness]) => freshness.lastSeenPush !== summary.push)
+    .map(([id]) => id)
+  if (store.records.size - staleIds.length < store.rebuildRecordCount) return false
+
+  staleIds.forEach(id => removeRecord(store, summary, id))
+  store.rebuildRecordCount = null
+  return true
+}
+
+export const hasMergeChanges = (summary: MergeSummary): boolean => {
+  return summary.added.length > 0 || summary.updated.length > 0 || summary.removed.length > 0
+}
+
+/**
+ * How a record changed in the given push. Loading into an empty store adds every record,
+ * so that push is not reported as additions.
+ */
+export const getRecordPushChange = (
+  freshness: RecordFreshness | undefined,
+  summary: MergeSummary | null
+): RecordPushChange | null => {
+  if (!freshness || !summary || freshness.lastChangedPush !== summary.push) return null
+  if (freshness.firstSeenPush !== freshness.lastChangedPush) return 'updated'
+  return summary.isInitialLoad ? null : 'added'
+}
@@ -0,0 +1,97 @@
+import { EntityRecord } from '../WidgetView'
+
+// Metrics older than this are flagged as stale in the explorer
+export const STALE_METRICS_MINUTES = 15
+
+export type MetricsFreshness = 'fresh' | 'stale' | 'unknown'
+
+export type CapacityStatus = 'normal' | 'warning' | 'over'
+
+export interface CapacityUtilization {
+  current: number
+  maxCapacity: number
+  percent: number
+  warningPercent: number | null
+  status: CapacityStatus
+}
+
+type RecordMetrics = EntityRecord['metrics']
+type RecordSettings = EntityRecord['settings']
+
+/**
+ * Returns true if the record carries any metric values at all
+ */
+export const hasMetrics = (metrics: RecordMetrics | null | undefined): boolean => {
+  return !!metrics && Object.values(metrics).some(value => value !== undefined && value !== null)
+}
+
+/**
+ * Minutes since metrics.last_update, or null when there is no usable timestamp
+ */
+export const getMetricsAgeMinutes = (metrics: RecordMetrics | null | undefined, now: number = Date.now()): number | null => {
+  if (!metrics?.last_update) return null
+  const updated = new Date(metrics.last_update).getTime()
+  if (isNaN(updated)) return null
+  return Math.max(0, (now - updated) / 60000)
+}
+
+export const getMetricsFreshness = (metrics: RecordMetrics | null | undefined, now: number = Date.now()): MetricsFreshness => {
+  const age = getMetricsAgeMinutes(metrics, now)
+  if (age === null) return 'unknown'
+  return age > STALE_METRICS_MINUTES ? 'stale' : 'fresh'
+}
+
+/**
+ * Thresholds may be stored as a fraction (0.8) or a percentage (80)
+ */
+const toPercent = (value: number): number => (value <= 1 ? value * 100 : value)
+
+/**
+ * Utilization of settings.max_capacity by the current occupancy (or queue for queue venues)
+ */
+export const getCapacityUtilization = (
+  metrics: RecordMetrics | null | undefined,
+  settings: RecordSettings | null | undefined
+): CapacityUtilization | null => {
+  const maxCapacity = settings?.max_capacity
+  const current = metrics?.current_occupancy ?? metrics?.current_queue
+  if (!maxCapacity || maxCapacity <= 0 || current === undefined || current === null) return null
+
+  const percent = (current / maxCapacity) * 100
+  const warningPercent = settings?.warning_threshold !== undefined ? toPercent(settings.warning_threshold) : null
+
+  let status: CapacityStatus = 'normal'
+  if (percent >= 100) {
+    status = 'over'
+  } else if (warningPercent !== null && percent >= warningPercent) {
+    status = 'warning'
+  }
+
+  return { current, maxCapacity, percent, warningPercent, status }
+}
+
+export const formatMetricValue = (value: number | null | undefined, decimals = 0): string => {
+  if (value === undefined || value === null || isNaN(value)) return '-'
+  return value.toFixed(decimals)
+}
+
+/**
+ * Confidence is reported either as 0-1 or 0-100
+ */
+export const formatConfidence = (value: number | null | undefined): string => {
+  if (value === undefined || value === null || isNaN(value)) return '-'
+  return `${Math.round(toPercent(value))}%`
+}
+
+export const formatAge = (minutes: number): string => {
+  if (minutes < 1) return 'just now'
+  if (minutes < 60) return `${Math.round(minutes)}m ago`
+  if (minutes < 60 * 24) return `${Math.round(minutes / 60)}h ago`
+  return `${Math.round(minutes / (60 * 24))}d ago`
+}
+
+export const formatTime = (value: string | null | undefined): string => {
+  if (!value) return '-'
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? value : date.toLocaleString()
+}
@@ -1,5 +1,7 @@
 import { EntityRecord, CameraDevice } from '../WidgetView'
 import mockDataJson from './mock-data.json'
+import { readEncoding } from 'udx-baie-entity-codec'
+import { parseMetadata } from './chunkUtils'
 
 // TagoIO data item interface
 interface TagoDataItem {
@@ -13,19 +15,14 @@ interface TagoDataItem {
   time: string
 }
 
-// Check if string looks like base64-encoded gzip (starts with H4sI which is gzip magic bytes in base64)
-const isCompressedData = (value: string): boolean => {
-  return typeof value === 'string' && value.startsWith('H4sI')
-}
-
-// Decompress gzip/base64 encoded data (sync version using pako would be ideal, but for now skip compressed in mock)
-const tryParseValue = (value: string): any => {
-  // Skip compressed data in mock parsing - it will be handled by the async processRealtimeData
-  if (isCompressedData(value)) {
+// Parse a mock value as plain JSON. Compressed points are skipped here and decoded by
+// processRealtimeData, which goes through the async codec.
+const tryParseValue = (item: TagoDataItem): any => {
+  if (readEncoding(parseMetadata(item.metadata)) !== 'json') {
     console.log('Skipping compressed mock data - will be handled by async parser')
     return null
   }
-  return JSON.parse(value)
+  return JSON.parse(item.value as string)
 }
 
 // Parse entity records from the TagoIO JSON format
@@ -37,7 +34,7 @@ const parseEntityRecords = (): EntityRecord[] => {
     .filter(item => item.variable === 'entity_record')
     .map(item => {
       try {
-        return tryParseValue(item.value as string) as EntityRecord
+        return tryParseValue(item) as EntityRecord
       } catch (e) {
         console.error('Failed to parse entity record:', e)
         return null
@@ -57,7 +54,7 @@ const parseCameraDevices = (): CameraDevice[] => {
     .filter(item => item.variable === 'camera_device')
     .map(item => {
       try {
-        return tryParseValue(item.value as string) as CameraDevice
+        return tryParseValue(item) as CameraDevice
       } catch (e) {
         console.error('Failed to parse camera device:', e)
         return null
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { CameraDevice, EntityRecord } from '../WidgetView'
+import { DIRECTION_ALIASES, PARK_ALIASES, VENUE_TYPE_ALIASES, canonicalize, normalizeEntityData } from './normalization'
+
+const record = (info: Partial<EntityRecord['info']>, settings: EntityRecord['settings'] = {}): EntityRecord => ({
+  id: 'rec-1',
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  record_type: 'camera_scenario',
+  unique_id: 'rec-1-uid',
+  name: 'North Gate Entry',
+  info: { park: 'Epic Universe', ...info },
+  settings,
+  metrics: {}
+})
+
+const camera = (hostname: string | null, park: string | null = 'Epic Universe'): CameraDevice => ({
+  id: 'cam-1',
+  name: 'Gate Camera',
+  device_type: 'axis-camera',
+  hostname,
+  park,
+  location: null,
+  ip_address: null,
+  tags: {},
+  last_input: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  is_configured: true
+})
+
+describe('canonicalize', () => {
+  it('matches aliases regardless of case, spacing, underscores and hyphens', () => {
+    expect(canonicalize('  Islands_of-Adventure ', PARK_ALIASES)).toBe('Islands of Adventure')
+    expect(canonicalize('OCCPUANCY', VENUE_TYPE_ALIASES)).toBe('occupancy')
+    expect(canonicalize('Inbound', DIRECTION_ALIASES)).toBe('entry')
+  })
+
+  it('keeps values without an alias as they are', () => {
+    expect(canonicalize('Volcano Bay', PARK_ALIASES)).toBe('Volcano Bay')
+  })
+})
+
+describe('normalizeEntityData', () => {
+  it('canonicalizes record fields and lists each correction', () => {
+    const { records, corrections } = normalizeEntityData(
+      [record({ park: 'ioa', venue_type: 'que' }, { venue_type: 'Occ', direction: 'out' })],
+      []
+    )
+
+    expect(records[0].info).toMatchObject({ park: 'Islands of Adventure', venue_type: 'queue' })
+    expect(records[0].settings).toMatchObject({ venue_type: 'occupancy', direction: 'exit' })
+    expect(corrections.map(c => [c.field, c.from, c.to])).toEqual([
+      ['info.park', 'ioa', 'Islands of Adventure'],
+      ['info.venue_type', 'que', 'queue'],
+      ['settings.venue_type', 'Occ', 'occupancy'],
+      ['settings.direction', 'out', 'exit']
+    ])
+    expect(corrections[0]).toMatchObject({ source: 'entity_record', recordId: 'rec-1', recordName: 'North Gate Entry' })
+  })
+
+  it('does not record corrections for canonical values', () => {
+    const { corrections } = normalizeEntityData([record({}, { direction: 'entry' })], [])
+    expect(corrections).toEqual([])
+  })
+
+  it('uses the camera hostname spelling for record hostnames', () => {
+    const { records, corrections } = normalizeEntityData(
+      [record({ camera_hostname: 'AXIS-B8A44F000001' })],
+      [camera('axis-b8a44f000001')]
+    )
+
+    expect(records[0].info.camera_hostname).toBe('axis-b8a44f000001')
+    expect(corrections).toEqual([expect.objectContaining({ field: 'info.camera_hostname', from: 'AXIS-B8A44F000001' })])
+  })
+
+  it('matches hostnames against the given source when the batch has no cameras', () => {
+    const { records } = normalizeEntityData(
+      [record({ camera_hostname: 'AXIS-B8A44F000001' })],
+      [],
+      [camera('axis-b8a44f000001')]
+    )
+    expect(records[0].info.camera_hostname).toBe('axis-b8a44f000001')
+  })
+
+  it('canonicalizes camera parks', () => {
+    const { cameras, corrections } = normalizeEntityData([], [camera('axis-1', 'USF'), camera('axis-2', null)])
+
+    expect(cameras.map(c => c.park)).toEqual(['Universal Studios Florida', null])
+    expect(corrections).toEqual([expect.objectContaining({ source: 'camera_device', field: 'park', from: 'USF' })])
+  })
+
+  it('leaves the input records untouched', () => {
+    const input = record({ park: 'ioa' })
+    normalizeEntityData([input], [])
+    expect(input.info.park).toBe('ioa')
+  })
+})
@@ -0,0 +1,129 @@
+import { EntityRecord, CameraDevice } from '../WidgetView'
+import { DataCorrection } from '../types/dashboard'
+
+/**
+ * Alias tables used to canonicalize entity data at ingestion.
+ * Keys are matched after lowercasing and collapsing spaces, underscores and hyphens.
+ */
+export const VENUE_TYPE_ALIASES: Record<string, string> = {
+  'queue': 'queue',
+  'queu': 'queue',
+  'que': 'queue',
+  'occupancy': 'occupancy',
+  'occpuancy': 'occupancy',
+  'ocupancy': 'occupancy',
+  'occupany': 'occupancy',
+  'occupncy': 'occupancy',
+  'occ': 'occupancy'
+}
+
+export const DIRECTION_ALIASES: Record<string, string> = {
+  'entry': 'entry',
+  'enter': 'entry',
+  'entrance': 'entry',
+  'in': 'entry',
+  'inbound': 'entry',
+  'exit': 'exit',
+  'out': 'exit',
+  'outbound': 'exit'
+}
+
+export const PARK_ALIASES: Record<string, string> = {
+  'epic universe': 'Epic Universe',
+  'epic': 'Epic Universe',
+  'eu': 'Epic Universe',
+  'islands of adventure': 'Islands of Adventure',
+  'ioa': 'Islands of Adventure',
+  'universal studios florida': 'Universal Studios Florida',
+  'usf': 'Universal Studios Florida',
+  'universal studios hollywood': 'Universal Studios Hollywood',
+  'ush': 'Universal Studios Hollywood',
+  'city walk': 'City Walk',
+  'citywalk': 'City Walk',
+  'general': 'General'
+}
+
+const toAliasKey = (value: string): string => value.trim().toLowerCase().replace(/[\s_-]+/g, ' ')
+
+/**
+ * Looks a value up in an alias table, returning the original value when there is no alias
+ */
+export const canonicalize = (value: string, aliases: Record<string, string>): string => {
+  return aliases[toAliasKey(value)] ?? value
+}
+
+interface NormalizeContext {
+  // Camera device hostnames keyed by lowercase hostname; the device tag is treated as the canonical spelling
+  hostnamesByKey: Map<string, string>
+  corrections: DataCorrection[]
+}
+
+const applyAlias = (
+  ctx: NormalizeContext,
+  base: Omit<DataCorrection, 'field' | 'from' | 'to'>,
+  field: string,
+  value: string | null | undefined,
+  aliases: Record<string, string>
+): string | null | undefined => {
+  if (typeof value !== 'string') return value
+  const canonical = canonicalize(value, aliases)
+  if (canonical !== value) {
+    ctx.corrections.push({ ...base, field, from: value, to: canonical })
+  }
+  return canonical
+}
+
+const normalizeEntityRecord = (record: EntityRecord, ctx: NormalizeContext): EntityRecord => {
+  const base = { source: 'entity_record' as const, recordId: record.id, recordName: record.name }
+  const info = { ...record.info }
+  const settings = { ...(record.settings || {}) }
+
+  info.park = applyAlias(ctx, base, 'info.park', info.park, PARK_ALIASES) as string
+  info.venue_type = applyAlias(ctx, base, 'info.venue_type', info.venue_type, VENUE_TYPE_ALIASES) ?? undefined
+  settings.venue_type = applyAlias(ctx, base, 'settings.venue_type', settings.venue_type, VENUE_TYPE_ALIASES)
+  settings.direction = applyAlias(ctx, base, 'settings.direction', settings.direction, DIRECTION_ALIASES)
+
+  if (info.camera_hostname) {
+    const canonicalHostname = ctx.hostnamesByKey.get(info.camera_hostname.toLowerCase())
+    if (canonicalHostname && canonicalHostname !== info.camera_hostname) {
+      ctx.corrections.push({ ...base, field: 'info.camera_hostname', from: info.camera_hostname, to: canonicalHostname })
+      info.camera_hostname = canonicalHostname
+    }
+  }
+
+  return { ...record, info, settings }
+}
+
+const normalizeCamera = (camera: CameraDevice, ctx: NormalizeContext): CameraDevice => {
+  const base = { source: 'camera_device' as const, recordId: camera.id, recordName: camera.name }
+  return {
+    ...camera,
+    park: applyAlias(ctx, base, 'park', camera.park, PARK_ALIASES) ?? null
+  }
+}
+
+const buildHostnameLookup = (cameras: CameraDevice[]): Map<string, string> => {
+  const lookup = new Map<string, string>()
+  cameras.forEach(camera => {
+    if (camera.hostname) lookup.set(camera.hostname.toLowerCase(), camera.hostname)
+  })
+  return lookup
+}
+
+/**
+ * Canonicalizes venue types, directions, parks and hostnames across a batch of records and
+ * cameras. Every change is recorded so the fixes can be pushed back to the entity.
+ * hostnameSource lets a batch without camera devices still match hostnames against the last known list.
+ */
+export const normalizeEntityData = (
+  records: EntityRecord[],
+  cameras: CameraDevice[],
+  hostnameSource: CameraDevice[] = cameras
+): { records: EntityRecord[], cameras: CameraDevice[], corrections: DataCorrection[] } => {
+  const ctx: NormalizeContext = { hostnamesByKey: buildHostnameLookup(hostnameSource), corrections: [] }
+
+  const normalizedCameras = cameras.map(camera => normalizeCamera(camera, ctx))
+  const normalizedRecords = records.map(record => normalizeEntityRecord(record, ctx))
+
+  return { records: normalizedRecords, cameras: normalizedCameras, corrections: ctx.corrections }
+}
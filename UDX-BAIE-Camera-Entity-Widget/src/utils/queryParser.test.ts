@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest'
+import {
+  QuerySubject,
+  applyFieldSuggestion,
+  evaluateQuery,
+  getFieldSuggestions,
+  getHighlightTerms,
+  getRankingTerms,
+  parseSearchQuery
+} from './queryParser'
+
+const subject = (text: string, fields: Record<string, (string | number | boolean | null)[]>): QuerySubject => ({
+  text,
+  resolve: field => fields[field]
+})
+
+const northGate = subject('north gate queue epic universe', {
+  name: ['North Gate Queue'],
+  park: ['Epic Universe'],
+  direction: ['entry'],
+  configured: [true],
+  current_wait: [25]
+})
+
+const southExit = subject('south exit islands of adventure', {
+  name: ['South Exit'],
+  park: ['Islands of Adventure'],
+  direction: ['exit'],
+  configured: [false],
+  current_wait: [5]
+})
+
+const matches = (query: string, target: QuerySubject) => evaluateQuery(parseSearchQuery(query), target)
+
+describe('parseSearchQuery', () => {
+  it('parses field terms, phrases and negation', () => {
+    const { clauses, errors } = parseSearchQuery('park:epic "main entrance" -direction:exit')
+
+    expect(errors).toEqual([])
+    expect(clauses).toEqual([[
+      { field: 'park', operator: ':', value: 'epic', numericValue: null, negate: false },
+      { field: null, operator: ':', value: 'main entrance', numericValue: null, negate: false },
+      { field: 'direction', operator: ':', value: 'exit', numericValue: null, negate: true }
+    ]])
+  })
+
+  it('splits OR into clauses and resolves field aliases', () => {
+    const { clauses } = parseSearchQuery('park:epic OR record_type:queue_venue wait>=10')
+
+    expect(clauses).toHaveLength(2)
+    expect(clauses[1].map(term => term.field)).toEqual(['type', 'current_wait'])
+    expect(clauses[1][1]).toMatchObject({ operator: '>=', numericValue: 10 })
+  })
+
+  it('reports invalid terms and leaves them out', () => {
+    const { clauses, errors } = parseSearchQuery('colour:red name: current_wait>soon gate')
+
+    expect(errors.map(error => error.message)).toEqual([
+      'Unknown field "colour"',
+      'Missing value for "name"',
+      '"current_wait>" needs a numeric field and value'
+    ])
+    expect(clauses).toEqual([[{ field: null, operator: ':', value: 'gate', numericValue: null, negate: false }]])
+  })
+
+  it('reports a dangling OR and an unterminated quote', () => {
+    expect(parseSearchQuery('gate OR').errors.map(error => error.message)).toEqual(['OR needs a term on both sides'])
+
+    const { clauses, errors } = parseSearchQuery('"main entrance')
+    expect(errors).toEqual([{ message: 'Unterminated quote', position: 0 }])
+    expect(clauses[0][0].value).toBe('main entrance')
+  })
+})
+
+describe('evaluateQuery', () => {
+  it('matches everything for an empty query', () => {
+    expect(matches('', southExit)).toBe(true)
+  })
+
+  it('ANDs terms and ORs clauses', () => {
+    expect(matches('park:epic direction:entry', northGate)).toBe(true)
+    expect(matches('park:epic direction:exit', northGate)).toBe(false)
+    expect(matches('park:epic OR park:islands', southExit)).toBe(true)
+  })
+
+  it('negates terms', () => {
+    expect(matches('-direction:exit', northGate)).toBe(true)
+    expect(matches('-direction:exit', southExit)).toBe(false)
+  })
+
+  it('compares numbers and booleans', () => {
+    expect(matches('current_wait>20', northGate)).toBe(true)
+    expect(matches('current_wait>20', southExit)).toBe(false)
+    expect(matches('current_wait<=5', southExit)).toBe(true)
+    expect(matches('configured:false', southExit)).toBe(true)
+    expect(matches('configured:yes', northGate)).toBe(true)
+  })
+
+  it('uses = for exact text and : for contains', () => {
+    expect(matches('name=south', southExit)).toBe(false)
+    expect(matches('name="south exit"', southExit)).toBe(true)
+    expect(matches('name:south', southExit)).toBe(true)
+  })
+
+  it('never matches fields the subject does not have', () => {
+    expect(matches('hostname:cam', northGate)).toBe(false)
+    expect(matches('-hostname:cam', northGate)).toBe(true)
+  })
+
+  it('uses the text matcher for free text when given one', () => {
+    const query = parseSearchQuery('gate')
+    expect(evaluateQuery(query, northGate, () => false)).toBe(false)
+    expect(evaluateQuery(query, southExit, value => value === 'gate')).toBe(true)
+  })
+})
+
+describe('query helpers', () => {
+  it('highlights positive free text and name-like fields only', () => {
+    const query = parseSearchQuery('gate name:north -south park:epic')
+
+    expect(getHighlightTerms(query)).toEqual(['gate', 'north'])
+    expect(getRankingTerms(query)).toEqual(['gate'])
+  })
+
+  it('suggests fields for the term being typed', () => {
+    expect(getFieldSuggestions('park:epic -dir').map(field => field.name)).toEqual(['direction'])
+    expect(getFieldSuggestions('park:')).toEqual([])
+    expect(getFieldSuggestions('current_', 2).map(field => field.name)).toEqual(['current_queue', 'current_wait'])
+  })
+
+  it('applies a suggestion keeping the negation', () => {
+    expect(applyFieldSuggestion('park:epic -dir', 'direction')).toBe('park:epic -direction:')
+    expect(applyFieldSuggestion('', 'park')).toBe('park:')
+  })
+})
@@ -0,0 +1,315 @@
+/**
+ * Small query language for the explorer search box.
+ *
+ *   epic                     free text, matched against the search index
+ *   "main entrance"          quoted phrase
+ *   park:epic                field contains value (case-insensitive)
+ *   venue_id:"Q 12"          quoted field value
+ *   -direction:exit          negation
+ *   park:epic OR park:ioa    alternatives (terms next to each other are ANDed first)
+ *   current_wait>20          numeric comparison (>, >=, <, <=, =)
+ */
+
+export type QueryFieldKind = 'text' | 'number' | 'boolean'
+
+export interface QueryFieldDef {
+  name: string
+  kind: QueryFieldKind
+  description: string
+}
+
+export const QUERY_FIELDS: QueryFieldDef[] = [
+  { name: 'id', kind: 'text', description: 'Record or device ID' },
+  { name: 'name', kind: 'text', description: 'Record or camera name' },
+  { name: 'unique_id', kind: 'text', description: 'Entity unique_id' },
+  { name: 'type', kind: 'text', description: 'record_type or device_type' },
+  { name: 'park', kind: 'text', description: 'Park name' },
+  { name: 'has_park', kind: 'boolean', description: 'Camera has a park tag' },
+  { name: 'hostname', kind: 'text', description: 'Camera hostname' },
+  { name: 'camera', kind: 'text', description: 'Camera friendly name' },
+  { name: 'scenario', kind: 'text', description: 'Scenario identifier' },
+  { name: 'scenario_type', kind: 'text', description: 'CrosslineCounting, OccupancyInArea, ...' },
+  { name: 'venue_id', kind: 'text', description: 'Linked venue ID' },
+  { name: 'venue_type', kind: 'text', description: 'queue or occupancy' },
+  { name: 'direction', kind: 'text', description: 'entry or exit' },
+  { name: 'configured', kind: 'boolean', description: 'true or false' },
+  { name: 'ip', kind: 'text', description: 'IP address' },
+  { name: 'mac', kind: 'text', description: 'MAC address from hostname' },
+  { name: 'location', kind: 'text', description: 'Camera location tag' },
+  { name: 'tag', kind: 'text', description: 'Any camera tag value' },
+  { name: 'scenarios', kind: 'number', description: 'Number of linked scenarios' },
+  { name: 'current_queue', kind: 'number', description: 'Current queue length' },
+  { name: 'current_wait', kind: 'number', description: 'Current wait (minutes)' },
+  { name: 'current_occupancy', kind: 'number', description: 'Current occupancy' },
+  { name: 'throughput', kind: 'number', description: 'Throughput' },
+  { name: 'peak_today', kind: 'number', description: 'Peak today' },
+  { name: 'total_entries', kind: 'number', description: 'Entries today' },
+  { name: 'total_exits', kind: 'number', description: 'Exits today' },
+  { name: 'rejected_exits', kind: 'number', description: 'Rejected exits' },
+  { name: 'confidence', kind: 'number', description: 'Metric confidence' },
+  { name: 'drift_amount', kind: 'number', description: 'Drift amount' },
+  { name: 'max_capacity', kind: 'number', description: 'Configured max capacity' }
+]
+
+const FIELD_ALIASES: Record<string, string> = {
+  record_type: 'type',
+  device_type: 'type',
+  camera_hostname: 'hostname',
+  camera_friendly_name: 'camera',
+  scenario_identifier: 'scenario',
+  is_configured: 'configured',
+  ip_address: 'ip',
+  device_ip: 'ip',
+  wait: 'current_wait',
+  queue: 'current_queue',
+  occupancy: 'current_occupancy'
+}
+
+const FIELDS_BY_NAME = new Map(QUERY_FIELDS.map(field => [field.name, field]))
+
+export type QueryOperator = ':' | '=' | '>' | '>=' | '<' | '<='
+
+export interface QueryTerm {
+  field: string | null
+  operator: QueryOperator
+  value: string
+  numericValue: number | null
+  negate: boolean
+}
+
+export interface QueryError {
+  message: string
+  position: number
+}
+
+export interface ParsedQuery {
+  // OR of clauses, each clause an AND of terms
+  clauses: QueryTerm[][]
+  errors: QueryError[]
+}
+
+/**
+ * A thing the query can be evaluated against: its free-text index plus a field lookup.
+ * resolve returns undefined when the field does not apply to this kind of subject.
+ */
+export interface QuerySubject {
+  text: string
+  resolve: (field: string) => (string | number | boolean | null | undefined)[] | undefined
+}
+
+export const EMPTY_QUERY: ParsedQuery = { clauses: [], errors: [] }
+
+export const isEmptyQuery = (query: ParsedQuery): boolean => query.clauses.length === 0
+
+export const resolveFieldName = (field: string): string => {
+  const lower = field.toLowerCase()
+  return FIELD_ALIASES[lower] ?? lower
+}
+
+const unquote = (value: string): string => {
+  if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+    return value.slice(1, -1)
+  }
+  return value.replace(/^"|"$/g, '')
+}
+
+interface RawToken {
+  text: string
+  position: number
+}
+
+const tokenize = (query: string, errors: QueryError[]): RawToken[] => {
+  const tokens: RawToken[] = []
+  let i = 0
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++
+      continue
+    }
+
+    const start = i
+    let inQuote = false
+    while (i < query.length && (inQuote || !/\s/.test(query[i]))) {
+      if (query[i] === '"') inQuote = !inQuote
+      i++
+    }
+
+    if (inQuote) {
+      errors.push({ message: 'Unterminated quote', position: start })
+    }
+    tokens.push({ text: query.slice(start, i), position: start })
+  }
+
+  return tokens
+}
+
+const FIELD_TERM = /^([a-zA-Z_]+)(>=|<=|:|=|>|<)(.*)$/
+
+const parseTerm = (token: RawToken, errors: QueryError[]): QueryTerm | null => {
+  let text = token.text
+  let negate = false
+
+  if (text.startsWith('-')) {
+    negate = true
+    text = text.slice(1)
+    if (!text) {
+      errors.push({ message: '"-" must be followed by a term', position: token.position })
+      return null
+    }
+  }
+
+  const match = text.startsWith('"') ? null : text.match(FIELD_TERM)
+  if (!match) {
+    const value = unquote(text).toLowerCase()
+    return value ? { field: null, operator: ':', value, numericValue: null, negate } : null
+  }
+
+  const [, rawField, operator, rawValue] = match
+  const field = resolveFieldName(rawField)
+  const fieldDef = FIELDS_BY_NAME.get(field)
+  const value = unquote(rawValue).toLowerCase()
+
+  if (!fieldDef) {
+    errors.push({ message: `Unknown field "${rawField}"`, position: token.position })
+    return null
+  }
+  if (!value) {
+    errors.push({ message: `Missing value for "${rawField}"`, position: token.position })
+    return null
+  }
+
+  const numericValue = fieldDef.kind === 'number' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : null
+  if (operator !== ':' && operator !== '=' && numericValue === null) {
+    errors.push({ message: `"${rawField}${operator}" needs a numeric field and value`, position: token.position })
+    return null
+  }
+
+  return { field, operator: operator as QueryOperator, value, numericValue, negate }
+}
+
+/**
+ * Parses the search box text once; invalid terms are reported and left out of evaluation
+ */
+export const parseSearchQuery = (query: string): ParsedQuery => {
+  const errors: QueryError[] = []
+  const tokens = tokenize(query, errors)
+  const clauses: QueryTerm[][] = []
+  let current: QueryTerm[] = []
+  let lastWasOr = false
+
+  tokens.forEach((token, index) => {
+    if (token.text === 'OR' || token.text === '|') {
+      if (index === 0 || index === tokens.length - 1 || lastWasOr) {
+        errors.push({ message: 'OR needs a term on both sides', position: token.position })
+      }
+      if (current.length > 0) clauses.push(current)
+      current = []
+      lastWasOr = true
+      return
+    }
+
+    lastWasOr = false
+    const term = parseTerm(token, errors)
+    if (term) current.push(term)
+  })
+
+  if (current.length > 0) clauses.push(current)
+
+  return { clauses, errors }
+}
+
+const matchesValue = (term: QueryTerm, value: string | number | boolean | null | undefined): boolean => {
+  if (value === null || value === undefined) return false
+
+  if (typeof value === 'boolean') {
+    return (term.value === 'true' || term.value === 'yes') === value
+  }
+
+  if (typeof value === 'number') {
+    if (term.numericValue === null) return String(value) === term.value
+    switch (term.operator) {
+      case '>': return value > term.numericValue
+      case '>=': return value >= term.numericValue
+      case '<': return value < term.numericValue
+      case '<=': return value <= term.numericValue
+      default: return value === term.numericValue
+    }
+  }
+
+  const lower = value.toLowerCase()
+  return term.operator === '=' ? lower === term.value : lower.includes(term.value)
+}
+
+/**
+ * Free-text matcher; the search index swaps in a token lookup for the plain substring scan
+ */
+export type TextMatcher = (value: string) => boolean
+
+const matchesTerm = (term: QueryTerm, subject: QuerySubject, matchText?: TextMatcher): boolean => {
+  let matched: boolean
+  if (term.field === null) {
+    matched = matchText ? matchText(term.value) : subject.text.includes(term.value)
+  } else {
+    const values = subject.resolve(term.field)
+    matched = !!values && values.some(value => matchesValue(term, value))
+  }
+  return term.negate ? !matched : matched
+}
+
+export const evaluateQuery = (query: ParsedQuery, subject: QuerySubject, matchText?: TextMatcher): boolean => {
+  if (isEmptyQuery(query)) return true
+  return query.clauses.some(clause => clause.every(term => matchesTerm(term, subject, matchText)))
+}
+
+const HIGHLIGHT_FIELDS = new Set(['name', 'id', 'unique_id', 'hostname', 'camera', 'venue_id'])
+
+/**
+ * Values worth highlighting in result headers: positive free-text terms and
+ * text values for the name / hostname / ID fields
+ */
+export const getHighlightTerms = (query: ParsedQuery): string[] => {
+  const terms = new Set<string>()
+  query.clauses.forEach(clause => clause.forEach(term => {
+    if (term.negate) return
+    if (term.field === null || (term.operator === ':' && HIGHLIGHT_FIELDS.has(term.field))) {
+      terms.add(term.value)
+    }
+  }))
+  return Array.from(terms)
+}
+
+/**
+ * Positive free-text values, used to rank results that already matched
+ */
+export const getRankingTerms = (query: ParsedQuery): string[] => {
+  const terms = new Set<string>()
+  query.clauses.forEach(clause => clause.forEach(term => {
+    if (!term.negate && term.field === null) terms.add(term.value)
+  }))
+  return Array.from(terms)
+}
+
+/**
+ * Field names that complete the term currently being typed at the end of the query
+ */
+export const getFieldSuggestions = (query: string, limit = 6): QueryFieldDef[] => {
+  const lastToken = query.split(/\s+/).pop() || ''
+  const partial = lastToken.replace(/^-/, '').toLowerCase()
+
+  if (!partial || /[:<>="]/.test(partial)) return []
+
+  return QUERY_FIELDS
+    .filter(field => field.name.startsWith(partial) && field.name !== partial)
+    .slice(0, limit)
+}
+
+/**
+ * Replaces the term being typed with the chosen field, keeping any negation
+ */
+export const applyFieldSuggestion = (query: string, field: string): string => {
+  const match = query.match(/(^|\s)(-?)([^\s]*)$/)
+  if (!match) return `${query}${field}:`
+  const prefix = query.slice(0, query.length - match[0].length)
+  return `${prefix}${match[1]}${match[2]}${field}:`
+}
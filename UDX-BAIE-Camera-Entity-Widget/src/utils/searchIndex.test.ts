@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { CameraDevice, EntityRecord } from '../WidgetView'
+import { parseSearchQuery } from './queryParser'
+import { buildSearchIndex, runSearch, toDocumentKey } from './searchIndex'
+
+const entity = (
+  id: string,
+  recordType: EntityRecord['record_type'],
+  name: string,
+  info: Partial<EntityRecord['info']> = {},
+  settings: EntityRecord['settings'] = {}
+): EntityRecord => ({
+  id,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  record_type: recordType,
+  unique_id: `${id}-uid`,
+  name,
+  info: { park: 'Epic Universe', ...info },
+  settings,
+  metrics: {}
+})
+
+const camera: CameraDevice = {
+  id: 'cam-1',
+  name: 'Gate Camera',
+  device_type: 'axis-camera',
+  hostname: 'axis-b8a44f000001',
+  park: 'Epic Universe',
+  location: null,
+  ip_address: '10.0.0.5',
+  tags: {},
+  last_input: null,
+  created_at: '2026-01-01T00:00:00.000Z',
+  updated_at: '2026-01-01T00:00:00.000Z',
+  is_configured: true
+}
+
+const scenario = entity('scn-1', 'camera_scenario', 'North Gate Entry', { camera_hostname: 'axis-b8a44f000001' }, { venue_id: 'Q-12', direction: 'entry' })
+const venue = entity('venue-1', 'queue_venue', 'Dragon Coaster Queue')
+venue.unique_id = 'Q-12'
+const other = entity('scn-2', 'camera_scenario', 'South Exit', { park: 'Islands of Adventure' }, { direction: 'exit' })
+
+const index = buildSearchIndex({
+  entityData: [scenario, venue, other],
+  scenariosByVenueId: { 'Q-12': [scenario] },
+  camerasWithScenarios: [{ ...camera, scenarios: [scenario] }],
+  venueGroups: {
+    queue: [{ venueId: 'Q-12', venueType: 'queue', park: 'Epic Universe', scenarios: [scenario], venueRecord: venue }],
+    occupancy: []
+  }
+})
+
+const search = (query: string) => runSearch(index, parseSearchQuery(query))
+
+describe('buildSearchIndex', () => {
+  it('indexes entities, cameras and venue groups under their own keys', () => {
+    expect(Array.from(index.documents.keys()).sort()).toEqual([
+      toDocumentKey('camera', 'cam-1'),
+      toDocumentKey('entity', 'scn-1'),
+      toDocumentKey('entity', 'scn-2'),
+      toDocumentKey('entity', 'venue-1'),
+      toDocumentKey('venue', 'Q-12')
+    ].sort())
+    expect(index.postings.get('south')).toEqual([toDocumentKey('entity', 'scn-2')])
+  })
+})
+
+describe('runSearch', () => {
+  it('matches everything for an empty query', () => {
+    const results = search('')
+    expect(results.matches('entity', 'scn-2')).toBe(true)
+    expect(results.score('entity', 'scn-2')).toBe(0)
+  })
+
+  it('matches free text inside tokens', () => {
+    const results = search('orth')
+    expect(results.matches('entity', 'scn-1')).toBe(true)
+    expect(results.matches('entity', 'scn-2')).toBe(false)
+  })
+
+  it('matches venues on their linked scenarios', () => {
+    expect(search('north').matches('entity', 'venue-1')).toBe(true)
+    expect(search('direction:entry').matches('entity', 'venue-1')).toBe(true)
+  })
+
+  it('falls back to the document text for phrases', () => {
+    const results = search('"south exit"')
+    expect(results.matches('entity', 'scn-2')).toBe(true)
+    expect(results.matches('entity', 'scn-1')).toBe(false)
+  })
+
+  it('applies field terms and negation', () => {
+    const results = search('-park:islands')
+    expect(results.matches('entity', 'scn-1')).toBe(true)
+    expect(results.matches('entity', 'scn-2')).toBe(false)
+    expect(results.matches('camera', 'cam-1')).toBe(true)
+  })
+
+  it('does not match unknown documents', () => {
+    expect(search('north').matches('entity', 'missing')).toBe(false)
+  })
+
+  it('ranks exact name matches above prefix and token matches', () => {
+    const results = search('gate')
+    // Camera name "Gate Camera" starts with the term; the scenario only has it as a word
+    expect(results.score('camera', 'cam-1')).toBe(50)
+    expect(results.score('entity', 'scn-1')).toBe(25)
+    expect(search('south exit').score('entity', 'scn-2')).toBeGreaterThan(search('south exit').score('entity', 'scn-1'))
+  })
+})
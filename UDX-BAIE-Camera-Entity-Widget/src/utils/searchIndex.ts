@@ -0,0 +1,176 @@
+import { EntityRecord } from '../WidgetView'
+import { CameraWithMatchedScenarios, VenueGroup } from '../types/dashboard'
+import { ParsedQuery, QuerySubject, evaluateQuery, getRankingTerms, isEmptyQuery } from './queryParser'
+import { buildEntityQuerySubject, buildCameraQuerySubject, buildVenueGroupQuerySubject } from './searchUtils'
+
+export type SearchDocumentKind = 'entity' | 'camera' | 'venue'
+
+interface SearchDocument {
+  subject: QuerySubject
+  // Whitespace-separated tokens of subject.text
+  tokens: Set<string>
+  // Lowercase name / hostname / ID values; matches here rank highest
+  primary: string[]
+}
+
+/**
+ * Search documents built once per data refresh. Postings map each distinct token to the
+ * documents containing it, so a free-text term scans the vocabulary instead of every record.
+ */
+export interface SearchIndex {
+  documents: Map<string, SearchDocument>
+  postings: Map<string, string[]>
+}
+
+export interface SearchResults {
+  matches: (kind: SearchDocumentKind, id: string) => boolean
+  score: (kind: SearchDocumentKind, id: string) => number
+}
+
+export const toDocumentKey = (kind: SearchDocumentKind, id: string): string => `${kind}:${id}`
+
+interface BuildSearchIndexInput {
+  entityData: EntityRecord[]
+  scenariosByVenueId: Record<string, EntityRecord[]>
+  // Cameras without last-input status, which changes with the clock rather than the data
+  camerasWithScenarios: CameraWithMatchedScenarios[]
+  venueGroups: { queue: VenueGroup[], occupancy: VenueGroup[] }
+}
+
+const toPrimary = (values: (string | null | undefined)[]): string[] => {
+  return values.filter((value): value is string => !!value).map(value => value.toLowerCase())
+}
+
+export const buildSearchIndex = ({
+  entityData,
+  scenariosByVenueId,
+  camerasWithScenarios,
+  venueGroups
+}: BuildSearchIndexInput): SearchIndex => {
+  const documents = new Map<string, SearchDocument>()
+  const postings = new Map<string, string[]>()
+
+  const addDocument = (key: string, subject: QuerySubject, primary: string[]) => {
+    const tokens = new Set(subject.text.split(/\s+/).filter(Boolean))
+    documents.set(key, { subject, tokens, primary })
+
+    tokens.forEach(token => {
+      if (!postings.has(token)) {
+        postings.set(token, [])
+      }
+      postings.get(token)!.push(key)
+    })
+  }
+
+  entityData.forEach(record => {
+    // Venue records also match on their linked scenarios
+    const linkedScenarios = (record.record_type === 'queue_venue' || record.record_type === 'occupancy_venue')
+      ? scenariosByVenueId[record.unique_id] || []
+      : []
+
+    addDocument(
+      toDocumentKey('entity', record.id),
+      buildEntityQuerySubject(record, linkedScenarios),
+      toPrimary([record.name, record.unique_id, record.id, record.info.camera_hostname])
+    )
+  })
+
+  camerasWithScenarios.forEach(camera => {
+    addDocument(
+      toDocumentKey('camera', camera.id),
+      buildCameraQuerySubject(camera, camera.scenarios),
+      toPrimary([camera.name, camera.hostname, camera.id])
+    )
+  })
+
+  const allVenueGroups = [...venueGroups.queue, ...venueGroups.occupancy]
+  allVenueGroups.forEach(group => {
+    addDocument(
+      toDocumentKey('venue', group.venueId),
+      buildVenueGroupQuerySubject(group),
+      toPrimary([group.venueId])
+    )
+  })
+
+  return { documents, postings }
+}
+
+// Documents whose tokens contain the value. Values with whitespace can span tokens, so they return null
+// and fall back to scanning the document text.
+const lookupTerm = (index: SearchIndex, value: string): Set<string> | null => {
+  if (/\s/.test(value)) return null
+
+  const keys = new Set<string>()
+  index.postings.forEach((documentKeys, token) => {
+    if (token.includes(value)) {
+      documentKeys.forEach(key => keys.add(key))
+    }
+  })
+  return keys
+}
+
+const scoreTerm = (document: SearchDocument, value: string): number => {
+  let best = 0
+  document.primary.forEach(field => {
+    if (field === value) best = Math.max(best, 100)
+    else if (field.startsWith(value)) best = Math.max(best, 50)
+    else if (field.includes(value)) best = Math.max(best, 25)
+  })
+  if (best > 0) return best
+
+  if (document.tokens.has(value)) return 10
+  for (const token of document.tokens) {
+    if (token.startsWith(value)) return 5
+  }
+  return document.subject.text.includes(value) ? 1 : 0
+}
+
+const ALL_RESULTS: SearchResults = {
+  matches: () => true,
+  score: () => 0
+}
+
+/**
+ * Evaluates a parsed query against the index. Matches and scores are computed lazily
+ * per document and cached for the lifetime of the query.
+ */
+export const runSearch = (index: SearchIndex, query: ParsedQuery): SearchResults => {
+  if (isEmptyQuery(query)) return ALL_RESULTS
+
+  const termMatches = new Map<string, Set<string> | null>()
+  const matchCache = new Map<string, boolean>()
+  const scoreCache = new Map<string, number>()
+  const rankingTerms = getRankingTerms(query)
+
+  const getTermMatches = (value: string) => {
+    if (!termMatches.has(value)) {
+      termMatches.set(value, lookupTerm(index, value))
+    }
+    return termMatches.get(value)!
+  }
+
+  const matches = (kind: SearchDocumentKind, id: string): boolean => {
+    const key = toDocumentKey(kind, id)
+    if (matchCache.has(key)) return matchCache.get(key)!
+
+    const document = index.documents.get(key)
+    const matched = !!document && evaluateQuery(query, document.subject, value => {
+      const keys = getTermMatches(value)
+      return keys ? keys.has(key) : document.subject.text.includes(value)
+    })
+    matchCache.set(key, matched)
+    return matched
+  }
+
+  const score = (kind: SearchDocumentKind, id: string): number => {
+    const key = toDocumentKey(kind, id)
+    if (scoreCache.has(key)) return scoreCache.get(key)!
+
+    const document = index.documents.get(key)
+    const total = document ? rankingTerms.reduce((sum, value) => sum + scoreTerm(document, value), 0) : 0
+    scoreCache.set(key, total)
+    return total
+  }
+
+  return { matches, score }
+}
@@ -1,5 +1,6 @@
 import { EntityRecord, CameraDevice } from '../WidgetView'
-import { UnconfiguredScenario, DuplicateGroup } from '../types/dashboard'
+import { UnconfiguredScenario, DuplicateGroup, HealthIssue, DataCorrection, VenueGroup, SnapshotChange } from '../types/dashboard'
+import { ParsedQuery, QuerySubject, QUERY_FIELDS, evaluateQuery, isEmptyQuery } from './queryParser'
 
 /**
  * Builds a comprehensive searchable index for an entity record
@@ -111,53 +112,205 @@ export const buildDuplicateGroupSearchIndex = (group: DuplicateGroup): string =>
 }
 
 /**
- * Enhanced entity record filter with linked scenario search
+ * Builds searchable index for health rule issues
  */
-export const filterEntityRecord = (
-  record: EntityRecord,
-  query: string,
-  linkedScenarios: EntityRecord[] = []
-): boolean => {
-  if (!query) return true
+export const buildHealthIssueSearchIndex = (issue: HealthIssue): string => {
+  const fields: (string | undefined | null)[] = [
+    issue.subjectId,
+    issue.subjectLabel,
+    issue.park,
+    issue.message,
+    issue.record ? buildEntitySearchIndex(issue.record) : null,
+    issue.camera?.hostname,
+    issue.camera?.ip_address,
+  ]
+
+  return fields
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+}
 
-  const lowerQuery = query.toLowerCase()
+type FieldValues = ReturnType<QuerySubject['resolve']>
 
-  // Build base search index
-  let searchIndex = buildEntitySearchIndex(record)
+const METRIC_QUERY_FIELDS = new Set(
+  QUERY_FIELDS.filter(field => field.kind === 'number' && field.name !== 'scenarios' && field.name !== 'max_capacity').map(field => field.name)
+)
 
-  // For venues, also include linked scenario data
-  if (record.record_type === 'queue_venue' || record.record_type === 'occupancy_venue') {
-    linkedScenarios.forEach(scenario => {
-      searchIndex += ' ' + buildEntitySearchIndex(scenario)
-    })
-  }
+/**
+ * Extracts a MAC address from hostnames like axis-B8A44FFF01B7
+ */
+export const extractMacAddress = (hostname: string | null | undefined): string => {
+  const macMatch = (hostname || '').match(/-([A-F0-9]{12})$/i)
+  return macMatch ? macMatch[1] : ''
+}
 
-  return searchIndex.includes(lowerQuery)
+// Combines field values from several sources; the field applies if it applies to any of them
+const collectFieldValues = (lists: FieldValues[]): FieldValues => {
+  if (lists.every(list => list === undefined)) return undefined
+  return lists.flatMap(list => list || [])
 }
 
 /**
- * Filter camera devices with their scenarios
+ * Resolves a query field against an entity record
  */
-export const filterCameraDevice = (
-  camera: CameraDevice,
-  scenarios: EntityRecord[],
-  query: string
-): boolean => {
-  if (!query) return true
-  const searchIndex = buildCameraSearchIndex(camera, scenarios)
-  return searchIndex.includes(query.toLowerCase())
+export const resolveEntityField = (record: EntityRecord, field: string): FieldValues => {
+  switch (field) {
+    case 'id': return [record.id]
+    case 'name': return [record.name]
+    case 'unique_id': return [record.unique_id]
+    case 'type': return [record.record_type]
+    case 'park': return [record.info.park]
+    case 'hostname': return [record.info.camera_hostname]
+    case 'camera': return [record.info.camera_friendly_name]
+    case 'scenario': return [record.info.scenario_identifier]
+    case 'scenario_type': return [record.info.scenario_type]
+    case 'venue_id': return [record.settings.venue_id, record.record_type !== 'camera_scenario' ? record.unique_id : null]
+    case 'venue_type': return [record.settings.venue_type, record.info.venue_type]
+    case 'direction': return [record.settings.direction]
+    case 'configured': return [record.settings.configured]
+    case 'ip': return [record.device_ip]
+    case 'mac': return [extractMacAddress(record.info.camera_hostname)]
+    case 'max_capacity': return [record.settings.max_capacity]
+    default:
+      if (METRIC_QUERY_FIELDS.has(field)) {
+        return [(record.metrics as Record<string, any> | undefined)?.[field]]
+      }
+      return undefined
+  }
+}
+
+/**
+ * Resolves a query field against a camera device, falling back to its scenarios
+ */
+export const resolveCameraField = (camera: CameraDevice, scenarios: EntityRecord[], field: string): FieldValues => {
+  switch (field) {
+    case 'id': return [camera.id]
+    case 'name': return [camera.name]
+    case 'type': return [camera.device_type]
+    case 'park': return [camera.park]
+    case 'has_park': return [!!camera.park]
+    case 'hostname': return [camera.hostname]
+    case 'ip': return [camera.ip_address]
+    case 'location': return [camera.location]
+    case 'configured': return [camera.is_configured]
+    case 'mac': return [extractMacAddress(camera.hostname)]
+    case 'tag': return Object.values(camera.tags || {})
+    case 'scenarios': return [scenarios.length]
+    default:
+      return collectFieldValues(scenarios.map(scenario => resolveEntityField(scenario, field)))
+  }
 }
 
+export const buildEntityQuerySubject = (record: EntityRecord, linkedScenarios: EntityRecord[] = []): QuerySubject => {
+  // For venues, also include linked scenario data
+  const isVenue = record.record_type === 'queue_venue' || record.record_type === 'occupancy_venue'
+  const related = isVenue ? linkedScenarios : []
+
+  return {
+    text: [buildEntitySearchIndex(record), ...related.map(buildEntitySearchIndex)].join(' '),
+    resolve: field => collectFieldValues([
+      resolveEntityField(record, field),
+      ...related.map(scenario => resolveEntityField(scenario, field))
+    ])
+  }
+}
+
+export const buildCameraQuerySubject = (camera: CameraDevice, scenarios: EntityRecord[] = []): QuerySubject => ({
+  text: buildCameraSearchIndex(camera, scenarios),
+  resolve: field => resolveCameraField(camera, scenarios, field)
+})
+
+export const buildUnconfiguredQuerySubject = (item: UnconfiguredScenario): QuerySubject => ({
+  text: buildUnconfiguredSearchIndex(item),
+  resolve: field => {
+    if (field === 'mac') return [item.macAddress]
+    if (field === 'hostname') return [item.hostname]
+    if (field === 'scenario') return [item.deviceScenario]
+    return resolveEntityField(item.record, field)
+  }
+})
+
+export const buildDuplicateGroupQuerySubject = (group: DuplicateGroup): QuerySubject => ({
+  text: buildDuplicateGroupSearchIndex(group),
+  resolve: field => {
+    if (field === 'hostname') return [group.hostname]
+    if (field === 'unique_id') return [group.uniqueId]
+    return collectFieldValues(group.records.map(record => resolveEntityField(record, field)))
+  }
+})
+
+export const buildVenueGroupQuerySubject = (group: VenueGroup): QuerySubject => ({
+  // Match on venue_id, park, or any scenario name/hostname
+  text: [
+    group.venueId,
+    group.park,
+    ...group.scenarios.flatMap(s => [s.name, s.info.camera_hostname, s.info.camera_friendly_name]),
+  ].filter(Boolean).join(' ').toLowerCase(),
+  resolve: field => {
+    if (field === 'venue_id') return [group.venueId]
+    if (field === 'park') return [group.park]
+    if (field === 'venue_type') return [group.venueType]
+    if (field === 'scenarios') return [group.scenarios.length]
+    return collectFieldValues([
+      group.venueRecord ? resolveEntityField(group.venueRecord, field) : undefined,
+      ...group.scenarios.map(scenario => resolveEntityField(scenario, field))
+    ])
+  }
+})
+
+export const buildHealthIssueQuerySubject = (issue: HealthIssue): QuerySubject => ({
+  text: buildHealthIssueSearchIndex(issue),
+  resolve: field => {
+    if (field === 'name') return [issue.subjectLabel]
+    if (field === 'park') return [issue.park]
+    if (issue.record) return resolveEntityField(issue.record, field)
+    if (issue.camera) return resolveCameraField(issue.camera, [], field)
+    return undefined
+  }
+})
+
+export const buildDataCorrectionQuerySubject = (correction: DataCorrection): QuerySubject => ({
+  text: [
+    correction.recordId,
+    correction.recordName,
+    correction.field,
+    correction.from,
+    correction.to,
+  ].filter(Boolean).join(' ').toLowerCase(),
+  resolve: field => {
+    if (field === 'id') return [correction.recordId]
+    if (field === 'name') return [correction.recordName]
+    return undefined
+  }
+})
+
+export const buildSnapshotChangeQuerySubject = (change: SnapshotChange): QuerySubject => ({
+  text: [
+    change.id,
+    change.name,
+    change.park,
+    change.kind,
+    ...change.fields.flatMap(f => [f.field, f.before, f.after]),
+  ].filter(Boolean).join(' ').toLowerCase(),
+  resolve: field => {
+    if (field === 'id') return [change.id]
+    if (field === 'name') return [change.name]
+    if (field === 'park') return [change.park]
+    if (field === 'type') return [change.recordType]
+    return undefined
+  }
+})
+
 /**
  * Filter unconfigured scenarios
  */
 export const filterUnconfiguredScenario = (
   item: UnconfiguredScenario,
-  query: string
+  query: ParsedQuery
 ): boolean => {
-  if (!query) return true
-  const searchIndex = buildUnconfiguredSearchIndex(item)
-  return searchIndex.includes(query.toLowerCase())
+  if (isEmptyQuery(query)) return true
+  return evaluateQuery(query, buildUnconfiguredQuerySubject(item))
 }
 
 /**
@@ -165,9 +318,41 @@ export const filterUnconfiguredScenario = (
  */
 export const filterDuplicateGroup = (
   group: DuplicateGroup,
-  query: string
+  query: ParsedQuery
+): boolean => {
+  if (isEmptyQuery(query)) return true
+  return evaluateQuery(query, buildDuplicateGroupQuerySubject(group))
+}
+
+/**
+ * Filter health rule issues
+ */
+export const filterHealthIssue = (
+  issue: HealthIssue,
+  query: ParsedQuery
+): boolean => {
+  if (isEmptyQuery(query)) return true
+  return evaluateQuery(query, buildHealthIssueQuerySubject(issue))
+}
+
+/**
+ * Filter ingestion data corrections
+ */
+export const filterDataCorrection = (
+  correction: DataCorrection,
+  query: ParsedQuery
+): boolean => {
+  if (isEmptyQuery(query)) return true
+  return evaluateQuery(query, buildDataCorrectionQuerySubject(correction))
+}
+
+/**
+ * Filter snapshot changes
+ */
+export const filterSnapshotChange = (
+  change: SnapshotChange,
+  query: ParsedQuery
 ): boolean => {
-  if (!query) return true
-  const searchIndex = buildDuplicateGroupSearchIndex(group)
-  return searchIndex.includes(query.toLowerCase())
+  if (isEmptyQuery(query)) return true
+  return evaluateQuery(query, buildSnapshotChangeQuerySubject(change))
 }
@@ -0,0 +1,239 @@
+import { EntityRecord, CameraDevice } from '../WidgetView'
+import { ChangeKind, FieldChange, SnapshotChange, SnapshotSummary } from '../types/dashboard'
+
+export const MAX_SNAPSHOTS = 5
+
+/**
+ * Only the configuration side of a record is kept; metrics and timestamps change on every
+ * refresh and would bury the real changes.
+ */
+export interface SnapshotRecord {
+  id: string
+  unique_id: string
+  name: string
+  record_type: string
+  park: string | null
+  settings: Record<string, unknown>
+}
+
+export interface SnapshotCamera {
+  id: string
+  name: string
+  hostname: string | null
+  park: string | null
+  location: string | null
+  ip_address: string | null
+  is_configured: boolean
+}
+
+export interface EntitySnapshot {
+  takenAt: string
+  records: SnapshotRecord[]
+  cameras: SnapshotCamera[]
+}
+
+export const CHANGE_KIND_LABELS: Record<ChangeKind, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  renamed: 'Renamed',
+  settings_changed: 'Settings',
+  moved: 'Moved',
+  configuration_changed: 'Configured'
+}
+
+const CHANGE_KIND_ORDER: ChangeKind[] = ['removed', 'added', 'moved', 'configuration_changed', 'renamed', 'settings_changed']
+
+export const createSnapshot = (
+  records: EntityRecord[],
+  cameras: CameraDevice[],
+  takenAt: string = new Date().toISOString()
+): EntitySnapshot => ({
+  takenAt,
+  records: records.map(record => ({
+    id: record.id,
+    unique_id: record.unique_id,
+    name: record.name,
+    record_type: record.record_type,
+    park: record.info.park || null,
+    settings: { ...(record.settings || {}) }
+  })),
+  cameras: cameras.map(camera => ({
+    id: camera.id,
+    name: camera.name,
+    hostname: camera.hostname,
+    park: camera.park,
+    location: camera.location,
+    ip_address: camera.ip_address,
+    is_configured: camera.is_configured
+  }))
+})
+
+export const toSnapshotSummary = (snapshot: EntitySnapshot): SnapshotSummary => ({
+  takenAt: snapshot.takenAt,
+  recordCount: snapshot.records.length,
+  cameraCount: snapshot.cameras.length
+})
+
+const formatValue = (value: unknown): string | null => {
+  if (value === undefined || value === null) return null
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+const fieldChange = (field: string, before: unknown, after: unknown): FieldChange | null => {
+  const beforeValue = formatValue(before)
+  const afterValue = formatValue(after)
+  return beforeValue === afterValue ? null : { field, before: beforeValue, after: afterValue }
+}
+
+const diffSettings = (before: Record<string, unknown>, after: Record<string, unknown>): FieldChange[] => {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort()
+  return keys
+    .map(key => fieldChange(`settings.${key}`, before[key], after[key]))
+    .filter((change): change is FieldChange => change !== null)
+}
+
+const indexById = <T extends { id: string }>(items: T[]): Map<string, T> => {
+  return new Map(items.map(item => [item.id, item]))
+}
+
+const diffRecords = (before: SnapshotRecord[], after: SnapshotRecord[]): SnapshotChange[] => {
+  const changes: SnapshotChange[] = []
+  const beforeById = indexById(before)
+  const afterById = indexById(after)
+
+  const change = (kind: ChangeKind, record: SnapshotRecord, fields: FieldChange[] = []): SnapshotChange => ({
+    kind,
+    source: 'entity_record',
+    id: record.id,
+    name: record.name,
+    recordType: record.record_type,
+    park: record.park,
+    fields
+  })
+
+  after.forEach(record => {
+    const previous = beforeById.get(record.id)
+    if (!previous) {
+      changes.push(change('added', record))
+      return
+    }
+
+    const renamed = fieldChange('name', previous.name, record.name)
+    if (renamed) changes.push(change('renamed', record, [renamed]))
+
+    const moved = fieldChange('info.park', previous.park, record.park)
+    if (moved) changes.push(change('moved', record, [moved]))
+
+    const settings = diffSettings(previous.settings, record.settings)
+    if (settings.length > 0) changes.push(change('settings_changed', record, settings))
+  })
+
+  before.forEach(record => {
+    if (!afterById.has(record.id)) changes.push(change('removed', record))
+  })
+
+  return changes
+}
+
+const diffCameras = (before: SnapshotCamera[], after: SnapshotCamera[]): SnapshotChange[] => {
+  const changes: SnapshotChange[] = []
+  const beforeById = indexById(before)
+  const afterById = indexById(after)
+
+  const change = (kind: ChangeKind, camera: SnapshotCamera, fields: FieldChange[] = []): SnapshotChange => ({
+    kind,
+    source: 'camera_device',
+    id: camera.id,
+    name: camera.name,
+    recordType: 'device',
+    park: camera.park,
+    fields
+  })
+
+  after.forEach(camera => {
+    const previous = beforeById.get(camera.id)
+    if (!previous) {
+      changes.push(change('added', camera))
+      return
+    }
+
+    const renamed = fieldChange('name', previous.name, camera.name)
+    if (renamed) changes.push(change('renamed', camera, [renamed]))
+
+    const moved = fieldChange('park', previous.park, camera.park)
+    if (moved) changes.push(change('moved', camera, [moved]))
+
+    const configured = fieldChange('is_configured', previous.is_configured, camera.is_configured)
+    if (configured) changes.push(change('configuration_changed', camera, [configured]))
+
+    const details = (['hostname', 'location', 'ip_address'] as const)
+      .map(field => fieldChange(field, previous[field], camera[field]))
+      .filter((fieldDiff): fieldDiff is FieldChange => fieldDiff !== null)
+    if (details.length > 0) changes.push(change('settings_changed', camera, details))
+  })
+
+  before.forEach(camera => {
+    if (!afterById.has(camera.id)) changes.push(change('removed', camera))
+  })
+
+  return changes
+}
+
+/**
+ * Lists what changed between two snapshots, ordered by kind then name
+ */
+export const diffSnapshots = (before: EntitySnapshot, after: EntitySnapshot): SnapshotChange[] => {
+  return [...diffRecords(before.records, after.records), ...diffCameras(before.cameras, after.cameras)]
+    .sort((a, b) => {
+      const kindCompare = CHANGE_KIND_ORDER.indexOf(a.kind) - CHANGE_KIND_ORDER.indexOf(b.kind)
+      if (kindCompare !== 0) return kindCompare
+      return a.name.localeCompare(b.name)
+    })
+}
+
+// Snapshots are kept per widget, like the view history, so explorers on other dashboards don't overwrite them
+const getStorageKey = (widgetId: string | null): string => {
+  return `udx-camera-config-explorer:snapshots:${widgetId || 'local'}`
+}
+
+/**
+ * Reads persisted snapshots. localStorage can be unavailable inside the TagoIO iframe,
+ * in which case history only lives for the session.
+ */
+export const loadSnapshots = (widgetId: string | null): EntitySnapshot[] => {
+  try {
+    const stored = window.localStorage.getItem(getStorageKey(widgetId))
+    const parsed = stored ? JSON.parse(stored) : []
+    return Array.isArray(parsed) ? parsed : []
+  } catch (e) {
+    console.warn('Could not load entity snapshots:', e)
+    return []
+  }
+}
+
+/**
+ * Persists snapshots, dropping the oldest ones until they fit in the storage quota
+ */
+export const saveSnapshots = (widgetId: string | null, snapshots: EntitySnapshot[]): number => {
+  let toStore = snapshots.slice(-MAX_SNAPSHOTS)
+
+  while (toStore.length > 0) {
+    try {
+      window.localStorage.setItem(getStorageKey(widgetId), JSON.stringify(toStore))
+      return toStore.length
+    } catch (e) {
+      toStore = toStore.slice(1)
+    }
+  }
+
+  console.warn('Entity snapshots could not be persisted')
+  return 0
+}
+
+export const clearStoredSnapshots = (widgetId: string | null) => {
+  try {
+    window.localStorage.removeItem(getStorageKey(widgetId))
+  } catch (e) {
+    console.warn('Could not clear entity snapshots:', e)
+  }
+}
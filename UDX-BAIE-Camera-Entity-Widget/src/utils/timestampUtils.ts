@@ -0,0 +1,113 @@
+import { EntityRecord } from '../WidgetView'
+
+export type BinMinutes = 5 | 15 | 60
+
+export const BIN_OPTIONS: BinMinutes[] = [5, 15, 60]
+
+export interface TimestampBin {
+  start: number
+  label: string
+  entries: number
+  exits: number
+  // Derived queue length at the end of the bin
+  queue: number
+  rejectedExits: number
+}
+
+export interface TimestampHistogram {
+  bins: TimestampBin[]
+  totalEntries: number
+  totalExits: number
+  derivedQueue: number
+  derivedRejectedExits: number
+}
+
+/**
+ * Crossline timestamps may be stored as epoch seconds or epoch milliseconds
+ */
+export const normalizeTimestamp = (timestamp: number): number => {
+  return timestamp < 1e12 ? timestamp * 1000 : timestamp
+}
+
+export const hasTimestamps = (record: EntityRecord | null | undefined): boolean => {
+  const timestamps = record?.timestamps
+  return !!timestamps && (
+    (timestamps.entry_timestamps?.length || 0) > 0 ||
+    (timestamps.exit_timestamps?.length || 0) > 0
+  )
+}
+
+const formatBinLabel = (start: number, binMinutes: BinMinutes, spansDays: boolean): string => {
+  const date = new Date(start)
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: binMinutes === 60 ? undefined : '2-digit' })
+  return spansDays ? `${date.toLocaleDateString([], { month: 'numeric', day: 'numeric' })} ${time}` : time
+}
+
+/**
+ * Bins entry/exit timestamps into fixed intervals and replays them in time order
+ * to derive a queue length curve. An exit while the derived queue is empty is
+ * counted as rejected, mirroring how metrics.rejected_exits is produced.
+ */
+export const buildTimestampHistogram = (
+  entryTimestamps: number[] = [],
+  exitTimestamps: number[] = [],
+  binMinutes: BinMinutes = 15
+): TimestampHistogram => {
+  const events = [
+    ...entryTimestamps.filter(Number.isFinite).map(t => ({ time: normalizeTimestamp(t), type: 'entry' as const })),
+    ...exitTimestamps.filter(Number.isFinite).map(t => ({ time: normalizeTimestamp(t), type: 'exit' as const }))
+  ].sort((a, b) => a.time - b.time)
+
+  if (events.length === 0) {
+    return { bins: [], totalEntries: 0, totalExits: 0, derivedQueue: 0, derivedRejectedExits: 0 }
+  }
+
+  const binMs = binMinutes * 60 * 1000
+  const firstBin = Math.floor(events[0].time / binMs) * binMs
+  const lastBin = Math.floor(events[events.length - 1].time / binMs) * binMs
+  const spansDays = new Date(firstBin).toDateString() !== new Date(lastBin).toDateString()
+
+  const bins: TimestampBin[] = []
+  for (let start = firstBin; start <= lastBin; start += binMs) {
+    bins.push({
+      start,
+      label: formatBinLabel(start, binMinutes, spansDays),
+      entries: 0,
+      exits: 0,
+      queue: 0,
+      rejectedExits: 0
+    })
+  }
+
+  let queue = 0
+  let rejected = 0
+  let eventIndex = 0
+
+  bins.forEach(bin => {
+    const binEnd = bin.start + binMs
+    while (eventIndex < events.length && events[eventIndex].time < binEnd) {
+      const event = events[eventIndex++]
+      if (event.type === 'entry') {
+        bin.entries++
+        queue++
+      } else {
+        bin.exits++
+        if (queue > 0) {
+          queue--
+        } else {
+          bin.rejectedExits++
+          rejected++
+        }
+      }
+    }
+    bin.queue = queue
+  })
+
+  return {
+    bins,
+    totalEntries: events.filter(e => e.type === 'entry').length,
+    totalExits: events.filter(e => e.type === 'exit').length,
+    derivedQueue: queue,
+    derivedRejectedExits: rejected
+  }
+}
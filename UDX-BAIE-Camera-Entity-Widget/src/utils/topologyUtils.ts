@@ -0,0 +1,265 @@
+import { EntityRecord, CameraDevice } from '../WidgetView'
+import { TopologyNode, TopologyTarget, VenueGroup } from '../types/dashboard'
+
+export const TOPOLOGY_ROW_HEIGHT = 28
+export const TOPOLOGY_COLUMN_WIDTH = 230
+export const TOPOLOGY_NODE_WIDTH = 190
+export const TOPOLOGY_NODE_HEIGHT = 22
+
+interface BuildTopologyInput {
+  entityData: EntityRecord[]
+  cameraDevices: CameraDevice[]
+  venueGroups: { queue: VenueGroup[], occupancy: VenueGroup[] }
+  venueRecordsById: Record<string, EntityRecord>
+}
+
+const scenarioTarget = (scenario: EntityRecord): TopologyTarget => ({
+  filterType: 'camera_scenario',
+  typeKey: 'camera_scenario',
+  parkKey: `camera_scenario_${scenario.info.park || 'Unknown'}`,
+  itemId: scenario.id
+})
+
+const cameraTarget = (camera: CameraDevice): TopologyTarget => camera.is_configured
+  ? { filterType: 'devices', typeKey: 'devices_configured', parkKey: `devices_${camera.park || 'Unknown'}`, itemId: camera.id }
+  : { filterType: 'devices', typeKey: 'devices_unconfigured', parkKey: null, itemId: camera.id }
+
+const venueTarget = (group: VenueGroup): TopologyTarget => {
+  const typeKey = group.venueType === 'queue' ? 'queue_venue' : 'occupancy_venue'
+  return { filterType: typeKey, typeKey, parkKey: `${typeKey}_${group.park || 'Unknown'}`, itemId: group.venueId }
+}
+
+// Venue records without scenarios only appear as entity records in the All view
+const venueRecordTarget = (record: EntityRecord): TopologyTarget => ({
+  filterType: 'all',
+  typeKey: record.record_type,
+  parkKey: `${record.record_type}_${record.info.park || 'Unknown'}`,
+  itemId: record.id
+})
+
+const buildScenarioNodes = (scenarios: EntityRecord[], parentKey: string, orphan: string | null): TopologyNode[] => {
+  return [...scenarios]
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map(scenario => ({
+      key: `${parentKey}/scenario:${scenario.id}`,
+      kind: 'scenario',
+      label: scenario.name,
+      sublabel: scenario.settings.direction || null,
+      orphan,
+      target: scenarioTarget(scenario),
+      children: []
+    }))
+}
+
+// Splits a venue's scenarios by camera hostname and matches each hostname to its camera device
+const buildCameraNodes = (
+  scenarios: EntityRecord[],
+  parentKey: string,
+  camerasByHostname: Map<string, CameraDevice>
+): TopologyNode[] => {
+  const byHostname = new Map<string, EntityRecord[]>()
+  scenarios.forEach(scenario => {
+    const hostname = scenario.info.camera_hostname || ''
+    if (!byHostname.has(hostname)) {
+      byHostname.set(hostname, [])
+    }
+    byHostname.get(hostname)!.push(scenario)
+  })
+
+  return Array.from(byHostname.entries())
+    .map(([hostname, hostScenarios]): TopologyNode => {
+      const camera = hostname ? camerasByHostname.get(hostname.toLowerCase()) : undefined
+      const key = `${parentKey}/camera:${hostname || 'none'}`
+      const orphan = camera ? null : hostname ? `No camera device with hostname ${hostname}` : 'Scenario has no camera_hostname'
+
+      return {
+        key,
+        kind: 'camera',
+        label: camera?.name || hostname || 'No hostname',
+        sublabel: hostname || null,
+        orphan,
+        target: camera ? cameraTarget(camera) : null,
+        children: buildScenarioNodes(hostScenarios, key, orphan ? 'No matching camera' : null)
+      }
+    })
+    .sort((a, b) => a.label.localeCompare(b.label))
+}
+
+/**
+ * Builds the park -> venue -> camera -> scenario tree. Scenarios without a venue sit under a
+ * "No venue" node per park; venue records nobody links to are flagged as orphans.
+ */
+export const buildTopology = ({
+  entityData,
+  cameraDevices,
+  venueGroups,
+  venueRecordsById
+}: BuildTopologyInput): TopologyNode[] => {
+  const camerasByHostname = new Map<string, CameraDevice>()
+  cameraDevices.forEach(camera => {
+    if (camera.hostname) camerasByHostname.set(camera.hostname.toLowerCase(), camera)
+  })
+
+  const venuesByPark = new Map<string, TopologyNode[]>()
+  const addVenue = (park: string, node: TopologyNode) => {
+    if (!venuesByPark.has(park)) {
+      venuesByPark.set(park, [])
+    }
+    venuesByPark.get(park)!.push(node)
+  }
+
+  const groupedVenueIds = new Set<string>()
+  const allVenueGroups = [...venueGroups.queue, ...venueGroups.occupancy]
+
+  allVenueGroups.forEach(group => {
+    groupedVenueIds.add(group.venueId)
+    const park = group.park || 'Unknown'
+    const key = `park:${park}/venue:${group.venueId}`
+
+    addVenue(park, {
+      key,
+      kind: 'venue',
+      label: group.venueId,
+      sublabel: group.venueType,
+      orphan: null,
+      target: venueTarget(group),
+      children: buildCameraNodes(group.scenarios, key, camerasByHostname)
+    })
+  })
+
+  Object.values(venueRecordsById).forEach(record => {
+    if (groupedVenueIds.has(record.unique_id)) return
+    const park = record.info.park || 'Unknown'
+
+    addVenue(park, {
+      key: `park:${park}/venue:${record.unique_id}`,
+      kind: 'venue',
+      label: record.unique_id,
+      sublabel: record.record_type === 'queue_venue' ? 'queue' : 'occupancy',
+      orphan: 'No scenarios linked to this venue',
+      target: venueRecordTarget(record),
+      children: []
+    })
+  })
+
+  // Scenarios that are not part of any venue group
+  const unassignedByPark = new Map<string, EntityRecord[]>()
+  entityData.forEach(record => {
+    if (record.record_type !== 'camera_scenario') return
+    if (record.settings.venue_id && groupedVenueIds.has(record.settings.venue_id)) return
+
+    const park = record.info.park || 'Unknown'
+    if (!unassignedByPark.has(park)) {
+      unassignedByPark.set(park, [])
+    }
+    unassignedByPark.get(park)!.push(record)
+  })
+
+  const parks = new Set([...venuesByPark.keys(), ...unassignedByPark.keys()])
+
+  return Array.from(parks)
+    .sort((a, b) => a.localeCompare(b))
+    .map(park => {
+      const venues = (venuesByPark.get(park) || []).sort((a, b) => a.label.localeCompare(b.label))
+      const unassigned = unassignedByPark.get(park)
+
+      if (unassigned) {
+        const key = `park:${park}/venue:none`
+        venues.push({
+          key,
+          kind: 'venue',
+          label: 'No venue',
+          sublabel: null,
+          orphan: null,
+          target: null,
+          children: buildCameraNodes(unassigned, key, camerasByHostname)
+        })
+      }
+
+      return {
+        key: `park:${park}`,
+        kind: 'park' as const,
+        label: park,
+        sublabel: null,
+        orphan: null,
+        target: null,
+        children: venues
+      }
+    })
+}
+
+export const countOrphans = (node: TopologyNode): number => {
+  return (node.orphan ? 1 : 0) + node.children.reduce((sum, child) => sum + countOrphans(child), 0)
+}
+
+export interface PositionedNode {
+  node: TopologyNode
+  x: number
+  y: number
+  isCollapsed: boolean
+}
+
+export interface TopologyEdge {
+  key: string
+  fromX: number
+  fromY: number
+  toX: number
+  toY: number
+  orphan: boolean
+}
+
+export interface TopologyLayout {
+  nodes: PositionedNode[]
+  edges: TopologyEdge[]
+  width: number
+  height: number
+}
+
+/**
+ * Left-to-right tree layout: each visible leaf gets its own row and parents are centred on
+ * their children. Collapsed nodes count as leaves.
+ */
+export const layoutTopology = (roots: TopologyNode[], isNodeCollapsed: (node: TopologyNode) => boolean): TopologyLayout => {
+  const nodes: PositionedNode[] = []
+  const edges: TopologyEdge[] = []
+  let row = 0
+  let maxDepth = 0
+
+  const place = (node: TopologyNode, depth: number): number => {
+    maxDepth = Math.max(maxDepth, depth)
+    const isCollapsed = node.children.length > 0 && isNodeCollapsed(node)
+    const x = depth * TOPOLOGY_COLUMN_WIDTH
+    let y: number
+
+    if (isCollapsed || node.children.length === 0) {
+      y = row * TOPOLOGY_ROW_HEIGHT + TOPOLOGY_ROW_HEIGHT / 2
+      row++
+    } else {
+      const childYs = node.children.map(child => place(child, depth + 1))
+      y = (childYs[0] + childYs[childYs.length - 1]) / 2
+
+      node.children.forEach((child, index) => {
+        edges.push({
+          key: `${node.key}->${child.key}`,
+          fromX: x + TOPOLOGY_NODE_WIDTH,
+          fromY: y,
+          toX: x + TOPOLOGY_COLUMN_WIDTH,
+          toY: childYs[index],
+          orphan: !!child.orphan
+        })
+      })
+    }
+
+    nodes.push({ node, x, y, isCollapsed })
+    return y
+  }
+
+  roots.forEach(root => place(root, 0))
+
+  return {
+    nodes,
+    edges,
+    width: maxDepth * TOPOLOGY_COLUMN_WIDTH + TOPOLOGY_NODE_WIDTH + 2,
+    height: Math.max(row, 1) * TOPOLOGY_ROW_HEIGHT
+  }
+}
@@ -0,0 +1,127 @@
+import { FilterType, RECORD_TYPE_LABELS, RecordType } from '../types/dashboard'
+import { isHealthFilter, getHealthRuleId } from './healthRules'
+
+export const MAX_RECENT_VIEWS = 8
+// Expand All can open hundreds of items; past this the link keeps the view but not the open items
+export const MAX_LINK_ITEMS = 50
+
+export interface ViewState {
+  filterType: FilterType
+  query: string
+  expandedTypes: string[]
+  expandedParks: string[]
+  expandedItems: string[]
+  selectedId: string | null
+}
+
+export interface SavedView {
+  key: string
+  label: string
+  savedAt: string
+  state: ViewState
+}
+
+const STATIC_FILTERS: FilterType[] = [
+  'all',
+  'camera_scenario',
+  'queue_venue',
+  'occupancy_venue',
+  'devices',
+  'offline',
+  'duplicates',
+  'unconfigured',
+  'inventory',
+  'corrections',
+  'changes',
+  'topology'
+]
+
+const FILTER_LABELS: Partial<Record<FilterType, string>> = {
+  all: 'All',
+  devices: 'Devices',
+  offline: 'Offline Cameras',
+  duplicates: 'Duplicates',
+  unconfigured: 'Unconfigured',
+  inventory: 'Inventory',
+  corrections: 'Corrections',
+  changes: 'What Changed',
+  topology: 'Topology'
+}
+
+const isFilterType = (value: string): value is FilterType => {
+  return (STATIC_FILTERS as string[]).includes(value) || (value.startsWith('health:') && value.length > 'health:'.length)
+}
+
+export const getViewLabel = (state: Pick<ViewState, 'filterType' | 'query'>): string => {
+  const filterLabel = isHealthFilter(state.filterType)
+    ? `Health: ${getHealthRuleId(state.filterType)}`
+    : FILTER_LABELS[state.filterType] || RECORD_TYPE_LABELS[state.filterType as RecordType] || state.filterType
+  return state.query ? `${filterLabel} · "${state.query}"` : filterLabel
+}
+
+/**
+ * Encodes a view as a URL fragment (without the leading #)
+ */
+export const serializeViewState = (state: ViewState): string => {
+  const params = new URLSearchParams()
+  params.set('view', state.filterType)
+  if (state.query) params.set('q', state.query)
+  state.expandedTypes.forEach(type => params.append('type', type))
+  state.expandedParks.forEach(park => params.append('park', park))
+  if (state.expandedItems.length <= MAX_LINK_ITEMS) {
+    state.expandedItems.forEach(item => params.append('item', item))
+  }
+  if (state.selectedId) params.set('sel', state.selectedId)
+  return params.toString()
+}
+
+/**
+ * Decodes a URL fragment; returns null when it does not describe a view
+ */
+export const parseViewState = (hash: string): ViewState | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''))
+  const view = params.get('view')
+  if (!view || !isFilterType(view)) return null
+
+  return {
+    filterType: view,
+    query: params.get('q') || '',
+    expandedTypes: params.getAll('type'),
+    expandedParks: params.getAll('park'),
+    expandedItems: params.getAll('item'),
+    selectedId: params.get('sel')
+  }
+}
+
+const getStorageKey = (widgetId: string | null): string => {
+  return `udx-camera-config-explorer:views:${widgetId || 'local'}`
+}
+
+export const loadRecentViews = (widgetId: string | null): SavedView[] => {
+  try {
+    const stored = window.localStorage.getItem(getStorageKey(widgetId))
+    const parsed = stored ? JSON.parse(stored) : []
+    return Array.isArray(parsed) ? parsed.filter(view => view?.state && isFilterType(view.state.filterType)) : []
+  } catch (e) {
+    console.warn('Could not load recent views:', e)
+    return []
+  }
+}
+
+export const saveRecentViews = (widgetId: string | null, views: SavedView[]) => {
+  try {
+    window.localStorage.setItem(getStorageKey(widgetId), JSON.stringify(views.slice(0, MAX_RECENT_VIEWS)))
+  } catch (e) {
+    console.warn('Could not save recent views:', e)
+  }
+}
+
+/**
+ * Moves the view to the front of the history. Views with the same filter and query are one
+ * entry, so expanding and collapsing cards updates the entry instead of adding new ones.
+ */
+export const addRecentView = (views: SavedView[], state: ViewState): SavedView[] => {
+  const key = `${state.filterType}|${state.query}`
+  const entry: SavedView = { key, label: getViewLabel(state), savedAt: new Date().toISOString(), state }
+  return [entry, ...views.filter(view => view.key !== key)].slice(0, MAX_RECENT_VIEWS)
+}
@@ -0,0 +1,39 @@
+// gzip + base64 on the platform's CompressionStream, which both browsers and Node 18+ provide,
+// so the analysis and the widget run the exact same code.
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = ''
+  // Chunked so large records don't overflow String.fromCharCode's argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+const fromBase64 = (base64: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+const pipe = async (bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Compresses a string using gzip and returns the base64 encoded result
+ */
+export const gzipToBase64 = async (text: string): Promise<string> => {
+  return toBase64(await pipe(new TextEncoder().encode(text), new CompressionStream('gzip')))
+}
+
+/**
+ * Decodes base64 and decompresses the gzip inside it
+ */
+export const gunzipFromBase64 = async (base64: string): Promise<string> => {
+  return new TextDecoder().decode(await pipe(fromBase64(base64), new DecompressionStream('gzip')))
+}
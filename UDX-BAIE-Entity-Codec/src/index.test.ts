@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_LIMITS, decodeChunks, decodeValue, encodeRecord, readEncoding } from './index'
+
+// Deterministic pseudo-random hex: barely compresses, so records built from it stay large after gzip
+const noise = (length: number, seed = 1): string => {
+  let state = seed
+  let text = ''
+  while (text.length < length) {
+    state = (state * 1103515245 + 12345) % 2147483648
+    text += state.toString(16)
+  }
+  return text.slice(0, length)
+}
+
+const smallRecord = {
+  id: 'rec-1',
+  unique_id: 'north-gate-queue',
+  record_type: 'queue_venue',
+  name: 'North Gate Queue',
+  info: { park: 'North Park', direction: 'in' }
+}
+
+// Repetitive venues compress well: over the value limit as JSON, well under it gzipped
+const gzipRecord = {
+  id: 'rec-2',
+  unique_id: 'main-street-scenario',
+  record_type: 'camera_scenario',
+  name: 'Main Street – Café entrance',
+  info: {
+    park: 'Main Street',
+    venues: Array.from({ length: 80 }, (_, i) => ({ venue_id: `venue-${i}`, type: 'queue', direction: 'in', park: 'Main Street' }))
+  }
+}
+
+const chunkedRecord = {
+  id: 'rec-3',
+  unique_id: 'large-scenario',
+  record_type: 'camera_scenario',
+  name: 'Large scenario',
+  info: { park: 'North Park', calibration: noise(20000) }
+}
+
+describe('encodeRecord / decodeValue', () => {
+  it('stores a small record as plain JSON', async () => {
+    const encoded = await encodeRecord(smallRecord)
+
+    expect(encoded).toEqual({ encoding: 'json', values: [JSON.stringify(smallRecord)] })
+    expect(await decodeValue(encoded.values[0], readEncoding({ encoding: encoded.encoding }))).toEqual({ ok: true, value: smallRecord })
+  })
+
+  it('gzips a record whose JSON is over the limit when the compressed value fits', async () => {
+    expect(JSON.stringify(gzipRecord).length).toBeGreaterThan(DEFAULT_LIMITS.maxValueSize)
+
+    const encoded = await encodeRecord(gzipRecord)
+
+    expect(encoded.encoding).toBe('gzip_base64')
+    expect(encoded.values).toHaveLength(1)
+    expect(encoded.values[0].length).toBeLessThanOrEqual(DEFAULT_LIMITS.maxValueSize)
+    expect(await decodeValue(encoded.values[0], readEncoding({ encoding: encoded.encoding }))).toEqual({ ok: true, value: gzipRecord })
+  })
+})
+
+describe('encodeRecord / decodeChunks', () => {
+  it('splits a record still over the limit after gzip into chunks that decode back to it', async () => {
+    const encoded = await encodeRecord(chunkedRecord)
+
+    expect(encoded.encoding).toBe('gzip_base64_chunked')
+    expect(encoded.values.length).toBeGreaterThan(2)
+    encoded.values.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(DEFAULT_LIMITS.chunkSize))
+    expect(await decodeChunks(encoded.values, readEncoding({ encoding: encoded.encoding }))).toEqual({ ok: true, value: chunkedRecord })
+  })
+
+  it('follows custom limits', async () => {
+    const encoded = await encodeRecord(smallRecord, { maxValueSize: 50, chunkSize: 40 })
+
+    expect(encoded.encoding).toBe('gzip_base64_chunked')
+    encoded.values.forEach(chunk => expect(chunk.length).toBeLessThanOrEqual(40))
+    expect(await decodeChunks(encoded.values, 'gzip_base64_chunked')).toEqual({ ok: true, value: smallRecord })
+  })
+
+  it('decodes chunks that arrived out of order once they are put back in chunk_index order', async () => {
+    const encoded = await encodeRecord(chunkedRecord)
+    const arrived = encoded.values.map((value, index) => ({ value, index })).reverse()
+
+    const outOfOrder = await decodeChunks(arrived.map(chunk => chunk.value), 'gzip_base64_chunked')
+    expect(outOfOrder.ok).toBe(false)
+
+    const sorted = [...arrived].sort((a, b) => a.index - b.index).map(chunk => chunk.value)
+    expect(await decodeChunks(sorted, 'gzip_base64_chunked')).toEqual({ ok: true, value: chunkedRecord })
+  })
+
+  it('reports incomplete chunk sets as a decompression failure instead of throwing', async () => {
+    const encoded = await encodeRecord(chunkedRecord)
+
+    const result = await decodeChunks(encoded.values.slice(0, -1), 'gzip_base64_chunked')
+
+    expect(result).toMatchObject({ ok: false, stage: 'decompression' })
+  })
+})
+
+describe('readEncoding', () => {
+  it('treats points without an encoding as plain JSON', () => {
+    expect(readEncoding(undefined)).toBe('json')
+    expect(readEncoding(null)).toBe('json')
+    expect(readEncoding({})).toBe('json')
+    expect(readEncoding({ encoding: '' })).toBe('json')
+  })
+
+  it('returns known encodings and null for anything else', () => {
+    expect(readEncoding({ encoding: 'gzip_base64' })).toBe('gzip_base64')
+    expect(readEncoding({ encoding: 'gzip_base64_chunked' })).toBe('gzip_base64_chunked')
+    expect(readEncoding({ encoding: 'brotli' })).toBeNull()
+  })
+
+  it('makes decoding fail at the encoding stage for unknown encodings', async () => {
+    const encoded = await encodeRecord(smallRecord)
+
+    expect(await decodeValue(encoded.values[0], readEncoding({ encoding: 'brotli' }))).toMatchObject({ ok: false, stage: 'encoding' })
+  })
+})
+
+describe('decodeValue failures', () => {
+  it('reports invalid JSON at the json stage', async () => {
+    expect(await decodeValue('{"id":', 'json')).toMatchObject({ ok: false, stage: 'json' })
+  })
+
+  it('reports a value that is not gzip at the decompression stage', async () => {
+    expect(await decodeValue(btoa('not gzip'), 'gzip_base64')).toMatchObject({ ok: false, stage: 'decompression' })
+  })
+})
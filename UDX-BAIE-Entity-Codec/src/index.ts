@@ -0,0 +1,108 @@
+import { gunzipFromBase64, gzipToBase64 } from './gzip'
+
+export { gunzipFromBase64, gzipToBase64 }
+
+/**
+ * How a record is stored in a data point value, written to the point's `encoding` metadata
+ */
+export type ValueEncoding = 'json' | 'gzip_base64' | 'gzip_base64_chunked'
+
+export const VALUE_ENCODINGS: ValueEncoding[] = ['json', 'gzip_base64', 'gzip_base64_chunked']
+
+export interface CodecLimits {
+  // Largest value written to a single data point
+  maxValueSize: number
+  // Size of each chunk when a compressed record is still over maxValueSize
+  chunkSize: number
+}
+
+// 5kB to stay safely under TagoIO's 6kB value limit
+export const DEFAULT_LIMITS: CodecLimits = {
+  maxValueSize: 5000,
+  chunkSize: 4500
+}
+
+/**
+ * A record ready to be written: one value, or several chunks when chunked
+ */
+export interface EncodedRecord {
+  encoding: ValueEncoding
+  values: string[]
+}
+
+export type DecodeFailureStage = 'encoding' | 'decompression' | 'json'
+
+export interface DecodeFailure {
+  ok: false
+  stage: DecodeFailureStage
+  error: string
+}
+
+export type DecodeResult<T = unknown> = { ok: true, value: T } | DecodeFailure
+
+/**
+ * Encodes a record as plain JSON when it fits, gzip/base64 when compressing makes it fit,
+ * and gzip/base64 split into chunks otherwise
+ */
+export const encodeRecord = async (record: unknown, limits: CodecLimits = DEFAULT_LIMITS): Promise<EncodedRecord> => {
+  const json = JSON.stringify(record)
+  if (json.length <= limits.maxValueSize) {
+    return { encoding: 'json', values: [json] }
+  }
+
+  const compressed = await gzipToBase64(json)
+  if (compressed.length <= limits.maxValueSize) {
+    return { encoding: 'gzip_base64', values: [compressed] }
+  }
+
+  const values: string[] = []
+  for (let i = 0; i < compressed.length; i += limits.chunkSize) {
+    values.push(compressed.slice(i, i + limits.chunkSize))
+  }
+  return { encoding: 'gzip_base64_chunked', values }
+}
+
+/**
+ * Reads the encoding from data point metadata. Points without one (camera_device,
+ * points written before encodings existed) hold plain JSON.
+ */
+export const readEncoding = (metadata: Record<string, any> | null | undefined): ValueEncoding | null => {
+  const encoding = metadata?.encoding
+  if (encoding === undefined || encoding === null || encoding === '') return 'json'
+  return VALUE_ENCODINGS.includes(encoding) ? encoding : null
+}
+
+const parseJson = <T>(text: string): DecodeResult<T> => {
+  try {
+    return { ok: true, value: JSON.parse(text) }
+  } catch (e) {
+    return { ok: false, stage: 'json', error: e instanceof Error ? e.message : String(e) }
+  }
+}
+
+/**
+ * Decodes a value (or the joined chunks of a chunked record) by its declared encoding
+ */
+export const decodeValue = async <T = unknown>(value: string, encoding: ValueEncoding | null): Promise<DecodeResult<T>> => {
+  if (encoding === null) {
+    return { ok: false, stage: 'encoding', error: 'Unknown encoding' }
+  }
+  if (encoding === 'json') {
+    return parseJson<T>(value)
+  }
+
+  let json: string
+  try {
+    json = await gunzipFromBase64(value)
+  } catch (e) {
+    return { ok: false, stage: 'decompression', error: e instanceof Error ? e.message : String(e) }
+  }
+  return parseJson<T>(json)
+}
+
+/**
+ * Decodes a chunked record from its chunks, in chunk_index order
+ */
+export const decodeChunks = <T = unknown>(chunks: string[], encoding: ValueEncoding | null): Promise<DecodeResult<T>> => {
+  return decodeValue<T>(chunks.join(''), encoding)
+}
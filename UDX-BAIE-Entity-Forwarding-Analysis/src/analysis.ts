@@ -0,0 +1,12 @@
+// Entry point uploaded to TagoIO (bundled by `pnpm build`)
+import { Analysis, Resources } from '@tago-io/sdk';
+import { forwardEntityData, readForwardingConfig } from './forward';
+
+// Export the analysis function with the required token
+export default Analysis.use(
+  (context) =>
+    forwardEntityData(context, Resources, readForwardingConfig(process.env)),
+  {
+    token: process.env.ANALYSIS_TOKEN,
+  },
+);
@@ -0,0 +1,167 @@
+// Reads entity records and camera devices from TagoIO
+import { toCameraDevice } from './format';
+import type {
+  CameraDevice,
+  EntityRecord,
+  ForwardingConfig,
+  Logger,
+  ResourcesClient,
+} from './types';
+
+export const ENTITY_PAGE_SIZE = 200;
+export const DEVICE_PAGE_SIZE = 100;
+
+const CAMERA_DEVICE_TYPES = ['axis-camera', 'hanwha-camera', 'camera'];
+
+/**
+ * Requests pages until one comes back short or more than `limit` items have been read.
+ * Returns at most `limit` items; `truncated` is set when there were more.
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (page: number, amount: number) => Promise<T[]>,
+  pageSize: number,
+  limit: number,
+): Promise<{ items: T[]; truncated: boolean }> {
+  const items: T[] = [];
+  let page = 1;
+
+  while (true) {
+    const result = await fetchPage(page, pageSize);
+    items.push(...result);
+
+    if (items.length > limit) {
+      return { items: items.slice(0, limit), truncated: true };
+    }
+    if (result.length < pageSize) {
+      return { items, truncated: false };
+    }
+    page++;
+  }
+}
+
+/**
+ * Ensures the entity data device exists and returns its ID
+ */
+export async function ensureEntityDevice(
+  client: ResourcesClient,
+  context: Logger,
+  deviceID: string | undefined,
+): Promise<string> {
+  context.log('Checking for entity data device...');
+
+  if (!deviceID) {
+    throw new Error(
+      'DEVICE_ID environment variable not set. Please configure your entity data device ID.',
+    );
+  }
+
+  try {
+    // Verify device exists
+    const device = await client.devices.info(deviceID);
+    context.log(`Using existing device: ${device.id} - ${device.name}`);
+    return device.id;
+  } catch (error) {
+    context.log(
+      'Device not found. Please create a device and set DEVICE_ID environment variable.',
+    );
+    throw new Error('Entity data device not configured');
+  }
+}
+
+/**
+ * Fetches all entity records with pagination, up to maxEntityRecords
+ */
+export async function fetchEntityRecords(
+  client: ResourcesClient,
+  context: Logger,
+  entityID: string,
+  config: Pick<ForwardingConfig, 'maxEntityRecords'>,
+): Promise<{ records: EntityRecord[]; truncated: boolean }> {
+  context.log(`Fetching entity data from entity: ${entityID}`);
+
+  const { items, truncated } = await fetchAllPages<EntityRecord>(
+    (page, amount) => client.entities.getEntityData(entityID, { page, amount }),
+    ENTITY_PAGE_SIZE,
+    config.maxEntityRecords,
+  );
+
+  context.log(`Retrieved ${items.length} entity records`);
+  if (truncated) {
+    context.log(
+      `Warning: Entity has more than ${config.maxEntityRecords} records, the rest were skipped (raise MAX_ENTITY_RECORDS to include them)`,
+    );
+  }
+
+  return { records: items, truncated };
+}
+
+/**
+ * Fetches devices by device_type tag value with pagination, up to maxCameraDevices
+ */
+async function fetchDevicesByType(
+  client: ResourcesClient,
+  context: Logger,
+  deviceType: string,
+  maxCameraDevices: number,
+) {
+  const filter = {
+    tags: [{ key: 'device_type', value: deviceType }],
+  };
+
+  const { items, truncated } = await fetchAllPages(
+    (page, amount) =>
+      client.devices.list({
+        page,
+        fields: ['id', 'name', 'tags', 'last_input', 'created_at', 'updated_at'],
+        filter,
+        amount,
+        orderBy: ['name', 'asc'],
+      }),
+    DEVICE_PAGE_SIZE,
+    maxCameraDevices,
+  );
+
+  if (truncated) {
+    context.log(
+      `Warning: More than ${maxCameraDevices} devices with device_type=${deviceType}, the rest were skipped (raise MAX_CAMERA_DEVICES to include them)`,
+    );
+  }
+
+  return { devices: items, truncated };
+}
+
+/**
+ * Fetches camera devices from TagoIO by device_type tag
+ * Returns devices tagged as axis-camera, hanwha-camera, or camera, and whether the list was truncated
+ */
+export async function fetchCameraDevices(
+  client: ResourcesClient,
+  context: Logger,
+  config: Pick<ForwardingConfig, 'maxCameraDevices'>,
+): Promise<{ cameraDevices: CameraDevice[]; truncated: boolean }> {
+  context.log('Fetching camera devices...');
+
+  // Fetch each device type in parallel
+  const devicesByType = await Promise.all(
+    CAMERA_DEVICE_TYPES.map((type) =>
+      fetchDevicesByType(client, context, type, config.maxCameraDevices),
+    ),
+  );
+
+  // Flatten and deduplicate by ID
+  const allDevices = devicesByType.flatMap((result) => result.devices);
+  let uniqueDevices = [...new Map(allDevices.map((d) => [d.id, d])).values()];
+  let truncated = devicesByType.some((result) => result.truncated);
+
+  if (uniqueDevices.length > config.maxCameraDevices) {
+    uniqueDevices = uniqueDevices.slice(0, config.maxCameraDevices);
+    truncated = true;
+  }
+
+  context.log(
+    `Found ${uniqueDevices.length} camera devices (${CAMERA_DEVICE_TYPES.map((t, i) => `${t}: ${devicesByType[i].devices.length}`).join(', ')})`,
+  );
+
+  // Transform to a simpler structure for the widget
+  return { cameraDevices: uniqueDevices.map(toCameraDevice), truncated };
+}
@@ -0,0 +1,328 @@
+// Pure formatting: turns entity records and camera devices into device data points.
+// Nothing here talks to TagoIO, so it runs the same offline.
+import { createHash } from 'crypto';
+import type { DataCreate, DeviceListItem } from '@tago-io/sdk';
+import { encodeRecord } from 'udx-baie-entity-codec';
+import type {
+  CameraDevice,
+  EntityRecord,
+  SyncStats,
+  Truncation,
+} from './types';
+
+/**
+ * Identifies a record across runs, with the hash of its content and the generation writing it
+ */
+export interface SyncTag {
+  key: string;
+  hash: string;
+  generation: number;
+}
+
+export interface Clock {
+  start: Date;
+  next: () => Date;
+}
+
+export interface SummaryLimits {
+  maxEntityRecords: number;
+  maxCameraDevices: number;
+}
+
+/**
+ * Hashes a record's JSON so unchanged records can be skipped
+ */
+export function hashRecord(jsonStr: string): string {
+  return createHash('sha256').update(jsonStr).digest('hex').slice(0, 16);
+}
+
+const ENTITY_KEY_PREFIX = 'entity:';
+
+// Deleted ids listed in data_loaded, keeping its metadata well under TagoIO's size limit
+export const MAX_DELETED_RECORD_IDS = 100;
+
+export function getEntitySyncKey(record: EntityRecord, index: number): string {
+  return `${ENTITY_KEY_PREFIX}${record.id || record.unique_id || `record_${index}`}`;
+}
+
+/**
+ * The record id behind an entity sync key, null for camera keys
+ */
+export function getEntityIdFromSyncKey(key: string): string | null {
+  return key.startsWith(ENTITY_KEY_PREFIX) ? key.slice(ENTITY_KEY_PREFIX.length) : null;
+}
+
+export function getCameraSyncKey(camera: CameraDevice, index: number): string {
+  return `camera:${camera.id || `camera_${index}`}`;
+}
+
+/**
+ * Hands out increasing timestamps so data points written in one run never collide
+ */
+export function createClock(start = new Date()): Clock {
+  let offset = 0;
+  return {
+    start,
+    next: () => new Date(start.getTime() + offset++),
+  };
+}
+
+export function getGroupId(start: Date): string {
+  return `entity_${start.toISOString().split('T')[0]}_${start.getHours()}`;
+}
+
+/**
+ * Formats one entity record as data points, encoded by the shared codec:
+ * plain JSON, gzip compressed when large, chunked if still too large
+ */
+export async function formatEntityRecordPoints(
+  record: EntityRecord,
+  index: number,
+  sync: SyncTag,
+  clock: Clock,
+  groupId: string,
+): Promise<DataCreate[]> {
+  const recordId = record.unique_id || record.id || `record_${index}`;
+  const baseMetadata = {
+    record_type: record.record_type,
+    unique_id: record.unique_id,
+    name: record.name,
+    park: record.info?.park || 'Unknown',
+    index: index,
+    sync_key: sync.key,
+    hash: sync.hash,
+    generation: sync.generation,
+  };
+
+  const { encoding, values } = await encodeRecord(record);
+
+  if (encoding !== 'gzip_base64_chunked') {
+    return [
+      {
+        variable: 'entity_record',
+        value: values[0],
+        time: clock.next(),
+        group: groupId,
+        metadata: { ...baseMetadata, encoding },
+      },
+    ];
+  }
+
+  return values.map((chunkData, chunkIdx) => ({
+    variable: 'entity_record_chunk',
+    value: chunkData,
+    time: clock.next(),
+    group: groupId,
+    metadata: {
+      ...baseMetadata,
+      encoding,
+      chunk_id: recordId,
+      chunk_index: chunkIdx,
+      total_chunks: values.length,
+    },
+  }));
+}
+
+export function formatCameraDevicePoint(
+  camera: CameraDevice,
+  index: number,
+  sync: SyncTag,
+  clock: Clock,
+  groupId: string,
+): DataCreate {
+  return {
+    variable: 'camera_device',
+    value: JSON.stringify(camera),
+    time: clock.next(),
+    group: groupId,
+    metadata: {
+      device_id: camera.id,
+      name: camera.name,
+      hostname: camera.hostname,
+      device_type: camera.device_type,
+      park: camera.park,
+      is_configured: camera.is_configured,
+      index: index,
+      sync_key: sync.key,
+      hash: sync.hash,
+      generation: sync.generation,
+    },
+  };
+}
+
+/**
+ * Formats the summary statistics and the data_loaded marker.
+ * data_loaded is last and carries the generation, so the widget knows the generation is complete.
+ */
+export function formatSummaryPoints(
+  entityRecords: EntityRecord[],
+  cameraDevices: CameraDevice[],
+  generation: number,
+  syncStats: SyncStats,
+  truncation: Truncation,
+  limits: SummaryLimits,
+  clock: Clock,
+  groupId: string,
+): DataCreate[] {
+  const deviceData: DataCreate[] = [];
+
+  // Also send summary statistics as separate variables for quick access
+  const stats: Record<string, number> = {
+    camera_scenario: 0,
+    queue_venue: 0,
+    occupancy_venue: 0,
+  };
+
+  const parks = new Set<string>();
+
+  entityRecords.forEach((record) => {
+    if (record.record_type && stats[record.record_type] !== undefined) {
+      stats[record.record_type]++;
+    }
+    if (record.info?.park) {
+      parks.add(record.info.park);
+    }
+  });
+
+  // Camera device stats
+  const configuredCameras = cameraDevices.filter((c) => c.is_configured).length;
+  const unconfiguredCameras = cameraDevices.filter(
+    (c) => !c.is_configured,
+  ).length;
+
+  // Add summary variables (use the clock to avoid timestamp collisions)
+  deviceData.push({
+    variable: 'total_records',
+    value: entityRecords.length,
+    time: clock.next(),
+    group: groupId,
+  });
+
+  deviceData.push({
+    variable: 'camera_scenarios_count',
+    value: stats.camera_scenario,
+    time: clock.next(),
+    group: groupId,
+  });
+
+  deviceData.push({
+    variable: 'queue_venues_count',
+    value: stats.queue_venue,
+    time: clock.next(),
+    group: groupId,
+  });
+
+  deviceData.push({
+    variable: 'occupancy_venues_count',
+    value: stats.occupancy_venue,
+    time: clock.next(),
+    group: groupId,
+  });
+
+  deviceData.push({
+    variable: 'camera_devices_count',
+    value: cameraDevices.length,
+    time: clock.next(),
+    group: groupId,
+    metadata: {
+      configured: configuredCameras,
+      unconfigured: unconfiguredCameras,
+    },
+  });
+
+  deviceData.push({
+    variable: 'parks_count',
+    value: parks.size,
+    time: clock.next(),
+    group: groupId,
+    metadata: {
+      parks: Array.from(parks),
+    },
+  });
+
+  // Past the cap the ids are left out and the widget reloads everything instead
+  const fullReload = syncStats.deletedRecordIds.length > MAX_DELETED_RECORD_IDS;
+
+  // Add a marker to indicate data load is complete
+  deviceData.push({
+    variable: 'data_loaded',
+    value: true,
+    time: clock.next(),
+    group: groupId,
+    metadata: {
+      record_count: entityRecords.length,
+      camera_devices_count: cameraDevices.length,
+      last_update: clock.start.toISOString(),
+      generation: generation,
+      records_sent: syncStats.recordsSent,
+      records_deleted: syncStats.recordsDeleted,
+      records_unchanged: syncStats.recordsUnchanged,
+      deleted_record_ids: fullReload ? [] : syncStats.deletedRecordIds,
+      full_reload: fullReload,
+      truncated: truncation.entityRecords || truncation.cameraDevices,
+      entity_records_truncated: truncation.entityRecords,
+      entity_record_limit: limits.maxEntityRecords,
+      camera_devices_truncated: truncation.cameraDevices,
+      camera_device_limit: limits.maxCameraDevices,
+    },
+  });
+
+  return deviceData;
+}
+
+/**
+ * Transforms a TagoIO device to the simpler structure the widget reads
+ */
+export function toCameraDevice(device: DeviceListItem<'id' | 'name'>): CameraDevice {
+  const tags: Record<string, string> = {};
+  if (device.tags) {
+    device.tags.forEach((tag) => {
+      tags[tag.key] = tag.value;
+    });
+  }
+
+  return {
+    id: device.id,
+    name: device.name,
+    device_type: tags.device_type || 'unknown',
+    hostname: tags.hostname || tags.camera_hostname || null,
+    park: tags.park || null,
+    location: tags.location || null,
+    ip_address: tags.ip_address || null,
+    tags: tags,
+    last_input: device.last_input,
+    created_at: device.created_at,
+    updated_at: device.updated_at,
+    is_configured: tags.device_type !== 'camera', // 'camera' means unconfigured
+  };
+}
+
+/**
+ * Sets info.camera_device_id on camera scenarios whose camera_hostname matches a camera device.
+ * Returns the number of scenarios enriched.
+ */
+export function enrichCameraScenarios(
+  entityRecords: EntityRecord[],
+  cameraDevices: CameraDevice[],
+): number {
+  // Create hostname to device ID lookup for matching scenarios to devices
+  const hostnameToDeviceId = new Map<string, string>();
+  cameraDevices.forEach((camera) => {
+    if (camera.hostname) {
+      hostnameToDeviceId.set(camera.hostname.toLowerCase(), camera.id);
+    }
+  });
+
+  let scenariosEnriched = 0;
+  entityRecords.forEach((record) => {
+    if (record.record_type === 'camera_scenario' && record.info?.camera_hostname) {
+      const deviceId = hostnameToDeviceId.get(record.info.camera_hostname.toLowerCase());
+      if (deviceId) {
+        record.info.camera_device_id = deviceId;
+        scenariosEnriched++;
+      }
+    }
+  });
+
+  return scenariosEnriched;
+}
@@ -0,0 +1,269 @@
+import { randomBytes } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { DataCreate } from '@tago-io/sdk';
+import { DEFAULT_LIMITS, decodeChunks, decodeValue, readEncoding } from 'udx-baie-entity-codec';
+import { MAX_DELETED_RECORD_IDS } from './format';
+import { forwardEntityData, readForwardingConfig } from './forward';
+import { DEVICE_DATA_PAGE_SIZE, SEND_BATCH_SIZE } from './sync';
+import { createFakeResources, type FakeDevice } from './testing/fakeResources';
+import type { EntityRecord } from './types';
+
+const DEVICE_ID = 'entity-device';
+const ENTITY_ID = 'entity-id';
+
+const silent = { log: () => {} };
+
+const config = readForwardingConfig({ ENTITY_ID, DEVICE_ID });
+
+const camera: FakeDevice = {
+  id: 'camera-1',
+  name: 'North Gate Camera',
+  tags: [
+    { key: 'device_type', value: 'axis-camera' },
+    { key: 'hostname', value: 'cam-north.local' },
+    { key: 'park', value: 'North Park' },
+  ],
+};
+
+const makeRecord = (id: string, overrides: Partial<EntityRecord> = {}): EntityRecord =>
+  ({
+    id,
+    unique_id: `unique-${id}`,
+    record_type: 'queue_venue',
+    name: `Venue ${id}`,
+    info: { park: 'North Park' },
+    ...overrides,
+  }) as EntityRecord;
+
+const setup = (rows: EntityRecord[], runConfig = config) => {
+  const entities = { [ENTITY_ID]: rows };
+  const fake = createFakeResources({
+    devices: [{ id: DEVICE_ID, name: 'Entity Data' }, camera],
+    entities,
+  });
+  const run = () => forwardEntityData(silent, fake.client, runConfig);
+  return { fake, entities, run };
+};
+
+// Points sent to the entity device, in the batches they were sent in
+const getSentBatches = (calls: { method: string; args: unknown[] }[], variable: string): DataCreate[][] =>
+  calls
+    .filter((call) => call.method === 'devices.sendDeviceData' && call.args[0] === DEVICE_ID)
+    .map((call) => (call.args[1] as DataCreate[]).filter((point) => point.variable === variable))
+    .filter((batch) => batch.length > 0);
+
+describe('forwardEntityData', () => {
+  beforeEach(() => {
+    // Each run gets its own hour, so data point times never overlap between runs
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-03-01T10:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const nextRun = () => vi.setSystemTime(new Date(Date.now() + 60 * 60 * 1000));
+
+  it('splits records over the chunk size into chunks that decode back to the record', async () => {
+    // Random hex barely compresses, so the gzip output stays over the value limit
+    const large = makeRecord('large', { info: { park: 'North Park', blob: randomBytes(12000).toString('hex') } });
+    const { fake, run } = setup([makeRecord('small'), large]);
+
+    await run();
+
+    const chunks = fake
+      .getStoredData(DEVICE_ID, 'entity_record_chunk')
+      .sort((a, b) => a.metadata!.chunk_index - b.metadata!.chunk_index);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, index) => {
+      expect(chunk.metadata).toMatchObject({
+        chunk_id: 'unique-large',
+        chunk_index: index,
+        total_chunks: chunks.length,
+        encoding: 'gzip_base64_chunked',
+      });
+      expect(String(chunk.value).length).toBeLessThanOrEqual(DEFAULT_LIMITS.chunkSize);
+    });
+
+    const decoded = await decodeChunks(
+      chunks.map((chunk) => String(chunk.value)),
+      readEncoding(chunks[0].metadata),
+    );
+    expect(decoded).toEqual({ ok: true, value: large });
+
+    // The small record still fits in one plain JSON point
+    const [small] = fake.getStoredData(DEVICE_ID, 'entity_record');
+    expect(small.metadata).toMatchObject({ unique_id: 'unique-small', encoding: 'json' });
+  });
+
+  it(`sends record points in batches of ${SEND_BATCH_SIZE}`, async () => {
+    const rows = Array.from({ length: 250 }, (_, i) => makeRecord(`record-${i}`));
+    const { fake, run } = setup(rows);
+
+    await run();
+
+    const batches = getSentBatches(fake.calls, 'entity_record');
+    expect(batches.map((batch) => batch.length)).toEqual([100, 100, 50]);
+    expect(fake.getStoredData(DEVICE_ID, 'entity_record')).toHaveLength(250);
+  });
+
+  it('enriches camera scenarios with the matching camera device and tags every point for sync', async () => {
+    const scenario = makeRecord('scenario', {
+      record_type: 'camera_scenario',
+      info: { park: 'North Park', camera_hostname: 'CAM-NORTH.local' },
+    });
+    const unmatched = makeRecord('unmatched', {
+      record_type: 'camera_scenario',
+      info: { park: 'North Park', camera_hostname: 'cam-south.local' },
+    });
+    const { fake, run } = setup([scenario, unmatched]);
+
+    await run();
+
+    const points = fake.getStoredData(DEVICE_ID, 'entity_record');
+    const byId = new Map(points.map((point) => [point.metadata!.unique_id, point]));
+
+    const enriched = await decodeValue<EntityRecord>(
+      String(byId.get('unique-scenario')!.value),
+      readEncoding(byId.get('unique-scenario')!.metadata),
+    );
+    expect(enriched.ok && enriched.value.info?.camera_device_id).toBe('camera-1');
+
+    const notEnriched = await decodeValue<EntityRecord>(
+      String(byId.get('unique-unmatched')!.value),
+      readEncoding(byId.get('unique-unmatched')!.metadata),
+    );
+    expect(notEnriched.ok && notEnriched.value.info?.camera_device_id).toBeUndefined();
+
+    expect(byId.get('unique-scenario')!.metadata).toMatchObject({
+      record_type: 'camera_scenario',
+      name: 'Venue scenario',
+      park: 'North Park',
+      sync_key: 'entity:scenario',
+      generation: 1,
+      encoding: 'json',
+    });
+    expect(byId.get('unique-scenario')!.metadata!.hash).toMatch(/^[0-9a-f]{16}$/);
+
+    const [cameraPoint] = fake.getStoredData(DEVICE_ID, 'camera_device');
+    expect(cameraPoint.metadata).toMatchObject({
+      device_id: 'camera-1',
+      hostname: 'cam-north.local',
+      park: 'North Park',
+      is_configured: true,
+      sync_key: 'camera:camera-1',
+    });
+  });
+
+  it('writes the summary variables and closes the run with data_loaded', async () => {
+    const { fake, run } = setup([
+      makeRecord('scenario', { record_type: 'camera_scenario', info: { park: 'North Park' } }),
+      makeRecord('queue', { record_type: 'queue_venue', info: { park: 'South Park' } }),
+      makeRecord('occupancy', { record_type: 'occupancy_venue', info: { park: 'South Park' } }),
+    ]);
+
+    await run();
+
+    const latest = (variable: string) => fake.getStoredData(DEVICE_ID, variable)[0];
+    expect(latest('total_records').value).toBe(3);
+    expect(latest('camera_scenarios_count').value).toBe(1);
+    expect(latest('queue_venues_count').value).toBe(1);
+    expect(latest('occupancy_venues_count').value).toBe(1);
+    expect(latest('camera_devices_count')).toMatchObject({ value: 1, metadata: { configured: 1, unconfigured: 0 } });
+    expect(latest('parks_count')).toMatchObject({ value: 2, metadata: { parks: ['North Park', 'South Park'] } });
+    expect(latest('sync_generation').value).toBe(1);
+
+    const marker = latest('data_loaded');
+    expect(marker.metadata).toMatchObject({
+      record_count: 3,
+      camera_devices_count: 1,
+      generation: 1,
+      records_sent: 4,
+      records_unchanged: 0,
+      records_deleted: 0,
+      deleted_record_ids: [],
+      full_reload: false,
+      truncated: false,
+    });
+
+    // data_loaded is the last point written, so the widget only sees it once the run is complete
+    expect(fake.getStoredData(DEVICE_ID)[0].id).toBe(marker.id);
+  });
+
+  it('counts unchanged and deleted records across runs', async () => {
+    const { fake, entities, run } = setup([makeRecord('a'), makeRecord('b'), makeRecord('c')]);
+
+    const first = await run();
+    expect(first).toMatchObject({ generation: 1, recordsChanged: 4, recordsUnchanged: 0, recordsDeleted: 0 });
+
+    nextRun();
+    const second = await run();
+    expect(second).toMatchObject({ generation: 2, recordsChanged: 0, recordsUnchanged: 4, recordsDeleted: 0 });
+    expect(getSentBatches(fake.calls, 'entity_record').flat()).toHaveLength(3);
+
+    // Change one record and remove another
+    entities[ENTITY_ID] = [makeRecord('a', { name: 'Renamed' }), makeRecord('b')];
+    nextRun();
+    const third = await run();
+    expect(third).toMatchObject({ generation: 3, recordsChanged: 1, recordsUnchanged: 2, recordsDeleted: 1 });
+
+    const records = fake.getStoredData(DEVICE_ID, 'entity_record');
+    expect(records.map((point) => point.metadata!.name).sort()).toEqual(['Renamed', 'Venue b']);
+
+    const markers = fake.getStoredData(DEVICE_ID, 'data_loaded');
+    expect(markers).toHaveLength(1);
+    expect(markers[0].metadata).toMatchObject({
+      generation: 3,
+      record_count: 2,
+      records_sent: 1,
+      records_unchanged: 2,
+      records_deleted: 1,
+      deleted_record_ids: ['c'],
+      full_reload: false,
+    });
+    expect(fake.getStoredData(DEVICE_ID, 'sync_generation').map((point) => point.value)).toEqual([3]);
+  });
+
+  it(`asks for a full reload instead of listing more than ${MAX_DELETED_RECORD_IDS} deleted ids`, async () => {
+    const rows = Array.from({ length: MAX_DELETED_RECORD_IDS + 2 }, (_, i) => makeRecord(`record-${i}`));
+    const { fake, entities, run } = setup(rows);
+
+    await run();
+    entities[ENTITY_ID] = rows.slice(0, 1);
+    nextRun();
+    const second = await run();
+
+    expect(second).toMatchObject({ recordsDeleted: MAX_DELETED_RECORD_IDS + 1 });
+    const [marker] = fake.getStoredData(DEVICE_ID, 'data_loaded');
+    expect(marker.metadata).toMatchObject({ record_count: 1, deleted_record_ids: [], full_reload: true });
+  });
+
+  it('reads the whole manifest when the device holds more record points than one page', async () => {
+    const total = DEVICE_DATA_PAGE_SIZE + 50;
+    const rows = Array.from({ length: total }, (_, i) => makeRecord(`record-${i}`));
+    const { fake, run } = setup(rows, readForwardingConfig({ ENTITY_ID, DEVICE_ID, MAX_ENTITY_RECORDS: String(total) }));
+
+    await run();
+    expect(fake.getStoredData(DEVICE_ID, 'entity_record')).toHaveLength(total);
+
+    nextRun();
+    const second = await run();
+
+    // Records past the first page are found too, so nothing is sent again or left duplicated
+    expect(second).toMatchObject({ recordsChanged: 0, recordsUnchanged: total + 1, recordsDeleted: 0 });
+    expect(fake.getStoredData(DEVICE_ID, 'entity_record')).toHaveLength(total);
+
+    const manifestReads = fake.calls.filter(
+      (call) =>
+        call.method === 'devices.getDeviceData' &&
+        (call.args[1] as { variables?: string[] }).variables?.includes('entity_record'),
+    );
+    // One short page on the empty device, then two pages
+    expect(manifestReads.map((call) => (call.args[1] as { skip?: number }).skip)).toEqual([
+      0,
+      0,
+      DEVICE_DATA_PAGE_SIZE,
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+// Entity Data Widget Analysis - Fetches entity data and sends to device for widget display
+import { enrichCameraScenarios } from './format';
+import { ensureEntityDevice, fetchCameraDevices, fetchEntityRecords } from './fetch';
+import { updateEntityDevice } from './sync';
+import type { ForwardingConfig, Logger, ResourcesClient } from './types';
+
+const DEFAULT_MAX_ENTITY_RECORDS = 5000;
+const DEFAULT_MAX_CAMERA_DEVICES = 2000;
+
+/**
+ * Reads a positive integer limit, falling back to the default
+ */
+function readLimit(value: string | undefined, fallback: number): number {
+  const limit = Number.parseInt(value ?? '', 10);
+  return Number.isInteger(limit) && limit > 0 ? limit : fallback;
+}
+
+/**
+ * Reads the analysis configuration from environment variables
+ */
+export function readForwardingConfig(
+  env: Record<string, string | undefined>,
+): ForwardingConfig {
+  return {
+    entityID: env.ENTITY_ID,
+    deviceID: env.DEVICE_ID, // Device to send entity data to
+    maxEntityRecords: readLimit(env.MAX_ENTITY_RECORDS, DEFAULT_MAX_ENTITY_RECORDS),
+    maxCameraDevices: readLimit(env.MAX_CAMERA_DEVICES, DEFAULT_MAX_CAMERA_DEVICES),
+  };
+}
+
+/**
+ * Main analysis function
+ */
+export async function forwardEntityData(
+  context: Logger,
+  client: ResourcesClient,
+  config: ForwardingConfig,
+) {
+  context.log('=== Starting Entity Data Widget Analysis ===');
+
+  try {
+    // Verify entity ID is configured
+    if (!config.entityID) {
+      context.log('ERROR: ENTITY_ID environment variable not configured');
+      return;
+    }
+
+    // Ensure device exists
+    const deviceID = await ensureEntityDevice(client, context, config.deviceID);
+
+    // Fetch entity data
+    const { records: entityResult, truncated: entityTruncated } =
+      await fetchEntityRecords(client, context, config.entityID, config);
+
+    // Fetch camera devices
+    const { cameraDevices, truncated: camerasTruncated } =
+      await fetchCameraDevices(client, context, config);
+
+    // Log camera device summary
+    const configuredCameras = cameraDevices.filter((c) => c.is_configured);
+    const unconfiguredCameras = cameraDevices.filter((c) => !c.is_configured);
+    context.log(
+      `Camera devices: ${configuredCameras.length} configured, ${unconfiguredCameras.length} unconfigured`,
+    );
+
+    // Enrich camera scenarios with their device IDs
+    const scenariosEnriched = enrichCameraScenarios(entityResult, cameraDevices);
+    context.log(`Enriched ${scenariosEnriched} camera scenarios with device IDs`);
+
+    // Update the entity device with fresh data (including camera devices)
+    const result = await updateEntityDevice(
+      client,
+      context,
+      deviceID,
+      entityResult,
+      cameraDevices,
+      { entityRecords: entityTruncated, cameraDevices: camerasTruncated },
+      config,
+    );
+
+    context.log(`Entity device update completed:`);
+    context.log(`  - Generation ${result.generation}`);
+    context.log(`  - Sent ${result.recordsSent} data points`);
+    context.log(
+      `  - Records changed: ${result.recordsChanged}, unchanged: ${result.recordsUnchanged}, removed: ${result.recordsDeleted}`,
+    );
+    context.log(`  - Entity records: ${result.entityRecords}`);
+    context.log(`  - Camera devices: ${cameraDevices.length}`);
+    if (entityTruncated || camerasTruncated) {
+      context.log('  - Truncated: yes (see warnings above)');
+    }
+    context.log(`  - Device ID: ${result.deviceID}`);
+
+    context.log('Analysis completed successfully');
+    return result;
+  } catch (error: any) {
+    context.log(`Error in Entity Data Widget Analysis: ${error.message}`);
+    if (error.stack) context.log(`Stack trace: ${error.stack}`);
+    throw error;
+  } finally {
+    context.log('=== Completed Entity Data Widget Analysis ===');
+  }
+}
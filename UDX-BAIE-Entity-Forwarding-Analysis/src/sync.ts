@@ -0,0 +1,348 @@
+// Incremental sync of formatted records to the entity data device
+import type { DataCreate } from '@tago-io/sdk';
+import { fetchAllPages } from './fetch';
+import {
+  createClock,
+  formatCameraDevicePoint,
+  formatEntityRecordPoints,
+  formatSummaryPoints,
+  getCameraSyncKey,
+  getEntityIdFromSyncKey,
+  getEntitySyncKey,
+  getGroupId,
+  hashRecord,
+  type SummaryLimits,
+  type SyncTag,
+} from './format';
+import type {
+  CameraDevice,
+  EntityRecord,
+  Logger,
+  ResourcesClient,
+  SyncResult,
+  Truncation,
+} from './types';
+
+/**
+ * Variables written per record. Each data point carries its record's sync_key and content hash
+ * in metadata, so together they are the manifest of what the device currently holds.
+ */
+export const RECORD_VARIABLES = ['entity_record', 'entity_record_chunk', 'camera_device'];
+
+/**
+ * Variables rewritten on every run: summary counts, the data_loaded marker and the generation counter
+ */
+export const SUMMARY_VARIABLES = [
+  'total_records',
+  'camera_scenarios_count',
+  'queue_venues_count',
+  'occupancy_venues_count',
+  'camera_devices_count',
+  'parks_count',
+  'data_loaded',
+  'sync_generation',
+];
+
+export const SEND_BATCH_SIZE = 100;
+export const DELETE_BATCH_SIZE = 100;
+// TagoIO returns at most 10000 data points per request
+export const DEVICE_DATA_PAGE_SIZE = 10000;
+// Past this many record points the manifest is not loaded and the run fails
+export const MAX_MANIFEST_POINTS = 200000;
+
+interface ManifestEntry {
+  hashes: Set<string>;
+  ids: string[];
+  expectedPoints: number;
+}
+
+/**
+ * Reads the manifest from the record data points already on the device, page by page.
+ * Points written before incremental sync have no sync_key and are returned as untracked.
+ *
+ * Throws when the device holds more record points than can be read: a record missing from the
+ * manifest would be sent again while its old points stay on the device.
+ */
+async function loadDeviceManifest(
+  client: ResourcesClient,
+  context: Logger,
+  deviceID: string,
+) {
+  const { items: points, truncated } = await fetchAllPages(
+    (page, amount) =>
+      client.devices.getDeviceData(deviceID, {
+        variables: RECORD_VARIABLES,
+        qty: amount,
+        skip: (page - 1) * amount,
+      }),
+    DEVICE_DATA_PAGE_SIZE,
+    MAX_MANIFEST_POINTS,
+  );
+
+  if (truncated) {
+    throw new Error(
+      `Device holds more than ${MAX_MANIFEST_POINTS} record data points, the manifest can't be loaded completely`,
+    );
+  }
+
+  const manifest = new Map<string, ManifestEntry>();
+  const untrackedIds: string[] = [];
+
+  points.forEach((point) => {
+    const metadata = point.metadata || {};
+    if (!metadata.sync_key || !metadata.hash) {
+      untrackedIds.push(point.id);
+      return;
+    }
+
+    let entry = manifest.get(metadata.sync_key);
+    if (!entry) {
+      entry = { hashes: new Set(), ids: [], expectedPoints: 1 };
+      manifest.set(metadata.sync_key, entry);
+    }
+
+    entry.hashes.add(metadata.hash);
+    entry.ids.push(point.id);
+    if (point.variable === 'entity_record_chunk') {
+      entry.expectedPoints = Number(metadata.total_chunks) || 0;
+    }
+  });
+
+  context.log(
+    `Manifest: ${manifest.size} records on device, ${untrackedIds.length} untracked data points`,
+  );
+
+  return { manifest, untrackedIds };
+}
+
+/**
+ * Reads the last generation written to the device, 0 when there is none
+ */
+async function getCurrentGeneration(
+  client: ResourcesClient,
+  deviceID: string,
+): Promise<number> {
+  const [latest] = await client.devices.getDeviceData(deviceID, {
+    variables: ['sync_generation'],
+    qty: 1,
+  });
+  const generation = Number(latest?.value);
+  return Number.isInteger(generation) && generation > 0 ? generation : 0;
+}
+
+/**
+ * A record is unchanged when every point on the device has the same hash
+ * and a chunked record still has all of its chunks
+ */
+function isUnchanged(entry: ManifestEntry | undefined, hash: string): boolean {
+  return (
+    !!entry &&
+    entry.hashes.size === 1 &&
+    entry.hashes.has(hash) &&
+    entry.ids.length === entry.expectedPoints
+  );
+}
+
+/**
+ * Sends data points to the device in batches to avoid overwhelming the API
+ */
+export async function sendInBatches(
+  client: ResourcesClient,
+  context: Logger,
+  deviceID: string,
+  points: DataCreate[],
+  label: string,
+) {
+  for (let i = 0; i < points.length; i += SEND_BATCH_SIZE) {
+    const batch = points.slice(i, i + SEND_BATCH_SIZE);
+    await client.devices.sendDeviceData(deviceID, batch);
+    context.log(
+      `Sent ${label} batch ${Math.floor(i / SEND_BATCH_SIZE) + 1} with ${batch.length} data points (${Math.min(i + SEND_BATCH_SIZE, points.length)}/${points.length})`,
+    );
+  }
+}
+
+export async function deleteInBatches(
+  client: ResourcesClient,
+  context: Logger,
+  deviceID: string,
+  ids: string[],
+  label: string,
+) {
+  for (let i = 0; i < ids.length; i += DELETE_BATCH_SIZE) {
+    const batch = ids.slice(i, i + DELETE_BATCH_SIZE);
+    await client.devices.deleteDeviceData(deviceID, {
+      ids: batch,
+      qty: batch.length,
+    });
+  }
+  if (ids.length > 0) {
+    context.log(`Deleted ${ids.length} ${label} data points`);
+  }
+}
+
+/**
+ * Updates entity data in the device (incremental sync)
+ *
+ * Each run is a new generation. sync_generation is written first; records whose hash changed
+ * are written before their old points are deleted, so the widget never sees an empty device.
+ * data_loaded with the same generation is written last: until it arrives, the device holds a
+ * partial generation.
+ */
+export async function updateEntityDevice(
+  client: ResourcesClient,
+  context: Logger,
+  deviceID: string,
+  entityRecords: EntityRecord[],
+  cameraDevices: CameraDevice[],
+  truncation: Truncation,
+  limits: SummaryLimits,
+  clock = createClock(),
+): Promise<SyncResult> {
+  context.log('=== Starting entity device update (incremental sync) ===');
+
+  try {
+    const groupId = getGroupId(clock.start);
+
+    const generation = (await getCurrentGeneration(client, deviceID)) + 1;
+    const previousSummary = await client.devices.getDeviceData(deviceID, {
+      variables: SUMMARY_VARIABLES,
+      qty: DEVICE_DATA_PAGE_SIZE,
+    });
+
+    // Read before anything is written, so a manifest that can't be loaded leaves the device as it was
+    const { manifest, untrackedIds } = await loadDeviceManifest(
+      client,
+      context,
+      deviceID,
+    );
+
+    // Announce the generation before touching any records
+    await client.devices.sendDeviceData(deviceID, [
+      {
+        variable: 'sync_generation',
+        value: generation,
+        time: clock.next(),
+        group: groupId,
+        metadata: { started_at: clock.start.toISOString() },
+      },
+    ]);
+    context.log(`Starting generation ${generation}`);
+
+    const pointsToSend: DataCreate[] = [];
+    const idsToDelete = [...untrackedIds];
+    const desiredKeys = new Set<string>();
+    let recordsSent = 0;
+    let recordsUnchanged = 0;
+
+    const syncRecord = async (
+      key: string,
+      jsonStr: string,
+      formatPoints: (sync: SyncTag) => DataCreate[] | Promise<DataCreate[]>,
+    ) => {
+      desiredKeys.add(key);
+      const hash = hashRecord(jsonStr);
+      const entry = manifest.get(key);
+
+      if (isUnchanged(entry, hash)) {
+        recordsUnchanged++;
+        return;
+      }
+
+      pointsToSend.push(...(await formatPoints({ key, hash, generation })));
+      if (entry) idsToDelete.push(...entry.ids);
+      recordsSent++;
+    };
+
+    // One record at a time, so data point timestamps follow record order
+    for (const [index, record] of entityRecords.entries()) {
+      await syncRecord(getEntitySyncKey(record, index), JSON.stringify(record), (sync) =>
+        formatEntityRecordPoints(record, index, sync, clock, groupId),
+      );
+    }
+
+    for (const [index, camera] of cameraDevices.entries()) {
+      await syncRecord(getCameraSyncKey(camera, index), JSON.stringify(camera), (sync) => [
+        formatCameraDevicePoint(camera, index, sync, clock, groupId),
+      ]);
+    }
+
+    // Records no longer in the entity or device list
+    let recordsDeleted = 0;
+    const deletedRecordIds: string[] = [];
+    manifest.forEach((entry, key) => {
+      if (!desiredKeys.has(key)) {
+        idsToDelete.push(...entry.ids);
+        recordsDeleted++;
+        const recordId = getEntityIdFromSyncKey(key);
+        if (recordId) deletedRecordIds.push(recordId);
+      }
+    });
+
+    context.log(
+      `Generation ${generation}: ${recordsSent} records to send (${pointsToSend.length} data points), ${recordsUnchanged} unchanged, ${recordsDeleted} removed`,
+    );
+
+    // New versions first, then remove the old ones
+    await sendInBatches(client, context, deviceID, pointsToSend, 'record');
+    await deleteInBatches(client, context, deviceID, idsToDelete, 'outdated record');
+
+    const summaryData = formatSummaryPoints(
+      entityRecords,
+      cameraDevices,
+      generation,
+      { recordsSent, recordsDeleted, recordsUnchanged, deletedRecordIds },
+      truncation,
+      limits,
+      clock,
+      groupId,
+    );
+    await sendInBatches(client, context, deviceID, summaryData, 'summary');
+
+    // The previous summary and generation points, now superseded
+    await deleteInBatches(
+      client,
+      context,
+      deviceID,
+      previousSummary.map((point) => point.id),
+      'previous summary',
+    );
+
+    // Log summary
+    context.log('\n=== Entity Data Summary ===');
+    const stats = summaryData.find((d) => d.variable === 'total_records');
+    const cameras = summaryData.find(
+      (d) => d.variable === 'camera_scenarios_count',
+    );
+    const queues = summaryData.find((d) => d.variable === 'queue_venues_count');
+    const occupancy = summaryData.find(
+      (d) => d.variable === 'occupancy_venues_count',
+    );
+    const parks = summaryData.find((d) => d.variable === 'parks_count');
+
+    context.log(`Generation: ${generation}`);
+    context.log(`Total records: ${stats?.value || 0}`);
+    context.log(`Camera scenarios: ${cameras?.value || 0}`);
+    context.log(`Queue venues: ${queues?.value || 0}`);
+    context.log(`Occupancy venues: ${occupancy?.value || 0}`);
+    context.log(
+      `Parks: ${parks?.value || 0} (${parks?.metadata?.parks?.join(', ') || 'none'})`,
+    );
+
+    return {
+      deviceID: deviceID,
+      generation: generation,
+      recordsSent: pointsToSend.length + summaryData.length + 1,
+      recordsChanged: recordsSent,
+      recordsUnchanged: recordsUnchanged,
+      recordsDeleted: recordsDeleted,
+      entityRecords: entityRecords.length,
+    };
+  } catch (error: any) {
+    context.log(`Error in updateEntityDevice: ${error.message}`);
+    if (error.stack) context.log(`Stack trace: ${error.stack}`);
+    throw error;
+  } finally {
+    context.log('=== Completed entity device update ===');
+  }
+}
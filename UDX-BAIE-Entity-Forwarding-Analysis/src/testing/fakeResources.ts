@@ -0,0 +1,176 @@
+// In-memory stand-in for the parts of Resources.devices / Resources.entities the analysis uses,
+// so the forwarding can run offline against seeded devices and entity rows.
+import type { Data, DataCreate, DataQuery, DeviceQuery, TagsObj } from '@tago-io/sdk';
+import type { EntityRecord, ResourcesClient } from '../types';
+
+// TagoIO returns 15 data points when qty is not given
+const DEFAULT_QTY = 15;
+const DEFAULT_LIST_AMOUNT = 20;
+
+export interface FakeDevice {
+  id: string;
+  name: string;
+  tags?: TagsObj[];
+  last_input?: Date | null;
+  created_at?: Date;
+  updated_at?: Date;
+}
+
+export interface FakeResourcesOptions {
+  devices?: FakeDevice[];
+  // Entity rows by entity ID
+  entities?: Record<string, EntityRecord[]>;
+  // Rejects sendDeviceData when a string value is longer than this, like the API does
+  maxValueLength?: number;
+}
+
+export interface FakeCall {
+  method: string;
+  args: any[];
+}
+
+export interface FakeResources {
+  client: ResourcesClient;
+  // Every call made through the client, in order
+  calls: FakeCall[];
+  // Data points currently held by a device, newest first
+  getStoredData: (deviceID: string, variable?: string) => Data[];
+}
+
+const toList = <T>(value: T | T[] | undefined): T[] | null => {
+  if (value === undefined) return null;
+  return Array.isArray(value) ? value : [value];
+};
+
+/**
+ * Applies the variables/ids/groups filters and the qty/skip paging of a data query, newest first
+ */
+function queryData(points: Data[], query: DataQuery = {}): Data[] {
+  const variables = toList(query.variables);
+  const ids = toList(query.ids);
+  const groups = toList(query.groups);
+  const qty = 'qty' in query && query.qty ? query.qty : DEFAULT_QTY;
+  const skip = 'skip' in query && query.skip ? query.skip : 0;
+
+  return points
+    .filter((point) => !variables || variables.includes(point.variable))
+    .filter((point) => !ids || ids.includes(point.id))
+    .filter((point) => !groups || (point.group !== undefined && groups.includes(point.group)))
+    .sort((a, b) => b.time.getTime() - a.time.getTime())
+    .slice(skip, skip + qty);
+}
+
+function matchesTags(device: FakeDevice, filter: DeviceQuery['filter']): boolean {
+  const wanted = filter?.tags || [];
+  return wanted.every((tag) =>
+    (device.tags || []).some((t) => t.key === tag.key && t.value === tag.value),
+  );
+}
+
+export function createFakeResources(options: FakeResourcesOptions = {}): FakeResources {
+  const devices = options.devices || [];
+  const entities = options.entities || {};
+  const dataByDevice = new Map<string, Data[]>();
+  const calls: FakeCall[] = [];
+  let nextDataId = 1;
+
+  const getDevice = (deviceID: string): FakeDevice => {
+    const device = devices.find((d) => d.id === deviceID);
+    if (!device) throw new Error('Device not found');
+    return device;
+  };
+
+  const getData = (deviceID: string): Data[] => {
+    getDevice(deviceID);
+    if (!dataByDevice.has(deviceID)) dataByDevice.set(deviceID, []);
+    return dataByDevice.get(deviceID) as Data[];
+  };
+
+  const client: ResourcesClient = {
+    devices: {
+      async info(deviceID) {
+        calls.push({ method: 'devices.info', args: [deviceID] });
+        const device = getDevice(deviceID);
+        return { id: device.id, name: device.name };
+      },
+
+      async list(queryObj = {}) {
+        calls.push({ method: 'devices.list', args: [queryObj] });
+        const page = queryObj.page || 1;
+        const amount = queryObj.amount || DEFAULT_LIST_AMOUNT;
+
+        return devices
+          .filter((device) => matchesTags(device, queryObj.filter))
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .slice((page - 1) * amount, page * amount)
+          .map((device) => ({ ...device, tags: device.tags || [] }));
+      },
+
+      async getDeviceData(deviceID, queryParams) {
+        calls.push({ method: 'devices.getDeviceData', args: [deviceID, queryParams] });
+        return queryData(getData(deviceID), queryParams).map((point) => ({ ...point }));
+      },
+
+      async sendDeviceData(deviceID, data) {
+        const points = toList<DataCreate>(data) as DataCreate[];
+        calls.push({ method: 'devices.sendDeviceData', args: [deviceID, points] });
+
+        points.forEach((point) => {
+          if (
+            options.maxValueLength !== undefined &&
+            typeof point.value === 'string' &&
+            point.value.length > options.maxValueLength
+          ) {
+            throw new Error(`Value of ${point.variable} exceeds ${options.maxValueLength} characters`);
+          }
+        });
+
+        const stored = getData(deviceID);
+        points.forEach((point) => {
+          stored.push({
+            ...point,
+            id: String(nextDataId++),
+            device: deviceID,
+            time: point.time ? new Date(point.time) : new Date(),
+          } as Data);
+        });
+
+        return `${points.length} Data Added`;
+      },
+
+      async deleteDeviceData(deviceID, queryParams) {
+        calls.push({ method: 'devices.deleteDeviceData', args: [deviceID, queryParams] });
+        const stored = getData(deviceID);
+        const removed = new Set(queryData(stored, queryParams).map((point) => point.id));
+        dataByDevice.set(
+          deviceID,
+          stored.filter((point) => !removed.has(point.id)),
+        );
+
+        return `${removed.size} Data Removed`;
+      },
+    },
+
+    entities: {
+      async getEntityData(entityID, queryParams = {}) {
+        calls.push({ method: 'entities.getEntityData', args: [entityID, queryParams] });
+        const rows = entities[entityID];
+        if (!rows) throw new Error('Entity not found');
+
+        const amount = queryParams.amount || DEFAULT_LIST_AMOUNT;
+        const skip = queryParams.skip ?? ((queryParams.page || 1) - 1) * amount;
+        return rows.slice(skip, skip + amount).map((row) => structuredClone(row));
+      },
+    },
+  };
+
+  return {
+    client,
+    calls,
+    getStoredData: (deviceID, variable) =>
+      queryData(dataByDevice.get(deviceID) || [], {
+        variables: variable,
+        qty: Number.MAX_SAFE_INTEGER,
+      }),
+  };
+}
@@ -0,0 +1,96 @@
+import type {
+  Data,
+  DataCreate,
+  DataQuery,
+  DeviceListItem,
+  DeviceQuery,
+  EntityData,
+  EntityDataQuery,
+  TagoContext,
+} from '@tago-io/sdk';
+
+export type Logger = Pick<TagoContext, 'log'>;
+
+/**
+ * The part of the SDK's Resources the analysis uses. The analysis passes `Resources`;
+ * offline runs pass the in-memory stand-in from `testing/fakeResources`.
+ */
+export interface ResourcesClient {
+  devices: {
+    info(deviceID: string): Promise<{ id: string; name: string }>;
+    list(queryObj?: DeviceQuery): Promise<DeviceListItem<'id' | 'name'>[]>;
+    getDeviceData(deviceID: string, queryParams?: DataQuery): Promise<Data[]>;
+    sendDeviceData(deviceID: string, data: DataCreate | DataCreate[]): Promise<string>;
+    deleteDeviceData(deviceID: string, queryParams?: DataQuery): Promise<string>;
+  };
+  entities: {
+    getEntityData(entityID: string, queryParams?: EntityDataQuery): Promise<EntityData[]>;
+  };
+}
+
+export type EntityRecordType = 'camera_scenario' | 'queue_venue' | 'occupancy_venue';
+
+/**
+ * A row of the entity, as returned by getEntityData. Only the fields the analysis reads are typed.
+ */
+export type EntityRecord = EntityData & {
+  record_type?: EntityRecordType | string;
+  unique_id?: string;
+  name?: string;
+  info?: {
+    park?: string;
+    camera_hostname?: string;
+    camera_device_id?: string;
+    [key: string]: any;
+  };
+};
+
+/**
+ * Camera device in the simpler structure the widget reads
+ */
+export interface CameraDevice {
+  id: string;
+  name: string;
+  device_type: string;
+  hostname: string | null;
+  park: string | null;
+  location: string | null;
+  ip_address: string | null;
+  tags: Record<string, string>;
+  last_input?: Date | string | null;
+  created_at?: Date | string | null;
+  updated_at?: Date | string | null;
+  is_configured: boolean;
+}
+
+export interface ForwardingConfig {
+  entityID: string | undefined;
+  deviceID: string | undefined;
+  // Caps on how much is fetched per run; anything beyond is reported as truncated
+  maxEntityRecords: number;
+  maxCameraDevices: number;
+}
+
+export interface Truncation {
+  entityRecords: boolean;
+  cameraDevices: boolean;
+}
+
+export interface SyncStats {
+  recordsSent: number;
+  recordsDeleted: number;
+  recordsUnchanged: number;
+  // Ids of the entity records removed this run, so the widget can drop exactly those
+  deletedRecordIds: string[];
+}
+
+export interface SyncResult {
+  deviceID: string;
+  generation: number;
+  // Data points written, including summary and generation points
+  recordsSent: number;
+  recordsChanged: number;
+  recordsUnchanged: number;
+  recordsDeleted: number;
+  entityRecords: number;
+}
@@ -1,7 +1,19 @@
-import { useEffect, useState } from 'preact/hooks'
+import { useEffect, useMemo, useRef, useState } from 'preact/hooks'
 import { createContext } from 'preact'
 import App from './app'
 import { isDevelopmentMode, mockPeopleCounterTagoIOData } from './utils/mockData'
+import {
+  DiagnosticsDrawer,
+  DiagnosticsEvent,
+  appendDiagnosticsEvent,
+  countPoints,
+  createDiagnosticsEvent,
+  finishDiagnosticsEvent,
+  isDiagnosticsEnabled,
+  recordAccepted,
+  recordIssue
+} from 'uor-tagoio-widget-diagnostics'
+import { fetchSensorHistory, readHistoryConfig } from './utils/history'
 import "@tago-io/custom-widget"
 import "@tago-io/custom-widget/dist/custom-widget.css"
 
@@ -21,13 +33,36 @@ export interface SensorData {
   metadata?: Record<string, any>
 }
 
+// Time span the widget has complete data for: the realtime records, plus history loaded right before them
+export interface LoadedRange {
+  start: string
+  end: string
+}
+
+export interface HistoryStatus {
+  // A device token is configured, so ranges before the realtime records can be loaded
+  enabled: boolean
+  loading: boolean
+  error: string | null
+  // The last load stopped at MAX_HISTORY_POINTS, so it starts later than asked
+  truncated: boolean
+}
+
+// Span of the records loaded from the device API, in ms
+interface HistorySpan {
+  startMs: number
+  endMs: number
+}
+
 interface WidgetContextType {
   sensorData: SensorData[]
   isLoading: boolean
   widget: any
   realtimeEventCount: number
   availableDevices: any[]
-  fetchHistoricalDataForRange: (startDate: string, endDate: string, selectedDeviceIds?: string[]) => Promise<void>
+  loadedRange: LoadedRange | null
+  history: HistoryStatus
+  loadHistory: (startMs: number) => void
   fetchAvailableDevices: () => Promise<void>
 }
 
@@ -37,10 +72,128 @@ export const WidgetContext = createContext<WidgetContextType>({
   widget: null,
   realtimeEventCount: 0,
   availableDevices: [],
-  fetchHistoricalDataForRange: async () => {},
+  loadedRange: null,
+  history: { enabled: false, loading: false, error: null, truncated: false },
+  loadHistory: () => {},
   fetchAvailableDevices: async () => {}
 })
 
+// The device query returns at most this many records; older merged records beyond it are dropped
+const MAX_SENSOR_RECORDS = 10000
+
+/**
+ * Adds newly received records to those already loaded. Records are keyed by group and
+ * time, so a realtime event repeating earlier data replaces it instead of duplicating it.
+ */
+const mergeSensorData = (existing: SensorData[], incoming: SensorData[], maxRecords = MAX_SENSOR_RECORDS): SensorData[] => {
+  const byId = new Map(existing.map(record => [record.id, record]))
+  incoming.forEach(record => byId.set(record.id, record))
+
+  return Array.from(byId.values())
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime())
+    .slice(-maxRecords)
+}
+
+const getLoadedRange = (sensorData: SensorData[]): LoadedRange | null => {
+  if (sensorData.length === 0) return null
+  // mergeSensorData keeps records in time order
+  return { start: sensorData[0].time, end: sensorData[sensorData.length - 1].time }
+}
+
+/**
+ * Extends the realtime records' range back over loaded history, as long as the history reaches them
+ */
+const getCoveredRange = (realtimeRange: LoadedRange | null, historySpan: HistorySpan | null): LoadedRange | null => {
+  if (!realtimeRange || !historySpan) return realtimeRange
+
+  const realtimeStartMs = new Date(realtimeRange.start).getTime()
+  if (historySpan.endMs < realtimeStartMs) return realtimeRange
+
+  return {
+    start: new Date(Math.min(historySpan.startMs, realtimeStartMs)).toISOString(),
+    end: realtimeRange.end
+  }
+}
+
+/**
+ * Builds sensor records from the points of one realtime entry or history load: one per
+ * device_period_in, with the sensor details taken from the other points of its group
+ */
+const parseSensorRecords = (points: any[], diagnostics: DiagnosticsEvent): SensorData[] => {
+  const pointsByGroup = new Map<string, any[]>()
+  points.forEach(point => {
+    if (!point?.group) return
+    const groupPoints = pointsByGroup.get(point.group)
+    if (groupPoints) {
+      groupPoints.push(point)
+    } else {
+      pointsByGroup.set(point.group, [point])
+    }
+  })
+
+  const records: SensorData[] = []
+
+  // Create individual records for each data point
+  // This allows us to have multiple hourly data points per sensor
+  points.forEach(function(dataPoint: any) {
+    if (dataPoint.variable === 'device_period_in' && !dataPoint.group) {
+      recordIssue(diagnostics, 'rejected', 'device_period_in', 'Data point has no group', dataPoint.time || null)
+    }
+
+    if (dataPoint.variable === 'device_period_in' && dataPoint.group) {
+      // For each device_period_in, create a sensor record
+      const sensorRecord: SensorData = {
+        id: `${dataPoint.group}-${dataPoint.time}`,
+        deviceName: '', // Will be filled from other data points
+        park: '',
+        world: '',
+        building: '',
+        designation: '',
+        roomType: '',
+        floor: '',
+        totalIn: parseInt(dataPoint.value) || 0,
+        group: dataPoint.group,
+        time: dataPoint.time || new Date().toISOString(),
+        metadata: dataPoint.metadata || {}
+      }
+
+      // Find other variables for this group to fill in sensor details
+      pointsByGroup.get(dataPoint.group)!.forEach(function(otherPoint: any) {
+        switch(otherPoint.variable) {
+          case 'device_name': sensorRecord.deviceName = otherPoint.value; break;
+          case 'park': sensorRecord.park = otherPoint.value; break;
+          case 'world': sensorRecord.world = otherPoint.value; break;
+          case 'building': sensorRecord.building = otherPoint.value; break;
+          case 'floor': sensorRecord.floor = otherPoint.value; break;
+          case 'designation': sensorRecord.designation = otherPoint.value; break;
+          case 'room_type': sensorRecord.roomType = otherPoint.value; break;
+        }
+      })
+
+      // Only add if we have the required fields
+      if (sensorRecord.deviceName && sensorRecord.park && sensorRecord.world) {
+        records.push(sensorRecord)
+        recordAccepted(diagnostics)
+      } else {
+        const missing = [
+          !sensorRecord.deviceName && 'device_name',
+          !sensorRecord.park && 'park',
+          !sensorRecord.world && 'world'
+        ].filter(Boolean)
+        recordIssue(
+          diagnostics,
+          'rejected',
+          'device_period_in',
+          `Group is missing ${missing.join(', ')}`,
+          `${dataPoint.group} @ ${sensorRecord.time}`
+        )
+      }
+    }
+  })
+
+  return records
+}
+
 declare global {
   interface Window {
     TagoIO: any;
@@ -53,79 +206,45 @@ export const WidgetView = () => {
   const [isLoading, setIsLoading] = useState(true)
   const [widget, setWidget] = useState<any>(null)
   const [realtimeEventCount, setRealtimeEventCount] = useState(0)
+  const [diagnosticsEvents, setDiagnosticsEvents] = useState<DiagnosticsEvent[]>([])
+  const diagnosticsIdRef = useRef(0)
   const [availableDevices, setAvailableDevices] = useState<any[]>([])
+  const [historyData, setHistoryData] = useState<SensorData[]>([])
+  const [historySpan, setHistorySpan] = useState<HistorySpan | null>(null)
+  const [historyLoading, setHistoryLoading] = useState(false)
+  const [historyError, setHistoryError] = useState<string | null>(null)
+  const [historyTruncated, setHistoryTruncated] = useState(false)
+  // Start of the last history load, so a failed or cut-off load isn't repeated for the same range
+  const historyRequestRef = useRef<number | null>(null)
 
   const processRealtimeData = (realtimeData: any) => {
+    const startedAt = performance.now()
+    const diagnostics = createDiagnosticsEvent(++diagnosticsIdRef.current)
     const newSensorData: SensorData[] = []
     
     realtimeData.forEach(function(dataGroup: any) {
       if (dataGroup.result) {
-        // Create individual records for each data point
-        // This allows us to have multiple hourly data points per sensor
-        dataGroup.result.forEach(function(dataPoint: any) {
-          if (dataPoint.variable === 'device_period_in' && dataPoint.group) {
-            // For each device_period_in, create a sensor record
-            const sensorRecord: SensorData = {
-              id: `${dataPoint.group}-${dataPoint.time}`,
-              deviceName: '', // Will be filled from other data points
-              park: '',
-              world: '',
-              building: '',
-              designation: '',
-              roomType: '',
-              floor: '',
-              totalIn: parseInt(dataPoint.value) || 0,
-              group: dataPoint.group,
-              time: dataPoint.time || new Date().toISOString(),
-              metadata: dataPoint.metadata || {}
-            }
-            
-            // Find other variables for this group to fill in sensor details
-            dataGroup.result.forEach(function(otherPoint: any) {
-              if (otherPoint.group === dataPoint.group) {
-                switch(otherPoint.variable) {
-                  case 'device_name': sensorRecord.deviceName = otherPoint.value; break;
-                  case 'park': sensorRecord.park = otherPoint.value; break;
-                  case 'world': sensorRecord.world = otherPoint.value; break;
-                  case 'building': sensorRecord.building = otherPoint.value; break;
-                  case 'floor': sensorRecord.floor = otherPoint.value; break;
-                  case 'designation': sensorRecord.designation = otherPoint.value; break;
-                  case 'room_type': sensorRecord.roomType = otherPoint.value; break;
-                }
-              }
-            })
-            
-            // Only add if we have the required fields
-            if (sensorRecord.deviceName && sensorRecord.park && sensorRecord.world) {
-              newSensorData.push(sensorRecord)
-            }
-          }
-        })
+        countPoints(diagnostics, dataGroup.result)
+        newSensorData.push(...parseSensorRecords(dataGroup.result, diagnostics))
+      } else {
+        recordIssue(diagnostics, 'rejected', null, 'Realtime entry has no result array')
       }
     })
 
     console.log(`✅ Created ${newSensorData.length} sensor records`)
+    diagnostics.notes.push(`Created ${newSensorData.length} sensor records`)
     setRealtimeEventCount(prev => prev + 1)
     
     if (newSensorData.length > 0) {
-      setSensorData(newSensorData)
+      // Realtime events after the first only carry new points, so keep the history
+      setSensorData(prev => mergeSensorData(prev, newSensorData))
       setIsLoading(false)
     }
-  }
 
-
-  const fetchHistoricalDataForRange = async (startDate: string, endDate: string, selectedDeviceIds?: string[]) => {
-    try {
-      console.log('📅 Historical data is provided directly from device with up to 10,000 records')
-      // Since data comes directly from selected device, we don't need to fetch historical data
-      // The realtime data already contains the historical records we need
-      setIsLoading(false)
-    } catch (error) {
-      console.error('❌ Error with historical data:', error)
-      setIsLoading(false)
-    }
+    setDiagnosticsEvents(prev => appendDiagnosticsEvent(prev, finishDiagnosticsEvent(diagnostics, startedAt)))
   }
 
+
   const fetchAvailableDevicesHandler = async () => {
     try {
       console.log('📋 Available devices loaded from direct data source')
@@ -191,19 +310,85 @@ export const WidgetView = () => {
     console.log('✅ TagoIO People Counter Widget initialized')
   }, [])
 
+  const historyConfig = useMemo(() => readHistoryConfig(widget), [widget])
+  const loadedRange = useMemo(() => getCoveredRange(getLoadedRange(sensorData), historySpan), [sensorData, historySpan])
+
+  // History only fills in before the realtime records, which win for the same group and time
+  const allSensorData = useMemo(
+    () => historyData.length > 0 ? mergeSensorData(historyData, sensorData, Number.POSITIVE_INFINITY) : sensorData,
+    [historyData, sensorData]
+  )
+
+  /**
+   * Loads the records from startMs up to the start of the loaded data from the device API
+   */
+  const loadHistory = async (startMs: number) => {
+    if (!historyConfig || historyLoading || historyRequestRef.current === startMs) return
+
+    const endMs = loadedRange ? new Date(loadedRange.start).getTime() : Date.now()
+    if (startMs >= endMs) return
+
+    historyRequestRef.current = startMs
+    setHistoryLoading(true)
+    setHistoryError(null)
+
+    const startedAt = performance.now()
+    const diagnostics = createDiagnosticsEvent(++diagnosticsIdRef.current)
+
+    try {
+      const { points, truncated } = await fetchSensorHistory(historyConfig, startMs, endMs)
+      countPoints(diagnostics, points)
+      const records = parseSensorRecords(points, diagnostics)
+
+      // Points come newest first, so a cut-off load still reaches the loaded data
+      const loadedFromMs = truncated
+        ? points.reduce((earliest, point) => Math.min(earliest, new Date(point.time).getTime()), endMs)
+        : startMs
+      diagnostics.notes.push(
+        `Loaded ${records.length} sensor records from ${new Date(loadedFromMs).toISOString()} to ${new Date(endMs).toISOString()}`
+      )
+
+      setHistoryData(prev => mergeSensorData(prev, records, Number.POSITIVE_INFINITY))
+      setHistorySpan(prev => ({
+        startMs: loadedFromMs,
+        endMs: prev && prev.startMs <= endMs ? Math.max(prev.endMs, endMs) : endMs
+      }))
+      setHistoryTruncated(truncated)
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      console.error('❌ Error loading historical data:', error)
+      diagnostics.notes.push(`History load failed: ${message}`)
+      setHistoryError(message)
+    } finally {
+      setHistoryLoading(false)
+      setDiagnosticsEvents(prev => appendDiagnosticsEvent(prev, finishDiagnosticsEvent(diagnostics, startedAt)))
+    }
+  }
+
   const contextValue: WidgetContextType = {
-    sensorData,
+    sensorData: allSensorData,
     isLoading,
     widget,
     realtimeEventCount,
     availableDevices,
-    fetchHistoricalDataForRange,
+    loadedRange,
+    history: {
+      enabled: !!historyConfig,
+      loading: historyLoading,
+      error: historyError,
+      truncated: historyTruncated
+    },
+    loadHistory,
     fetchAvailableDevices: fetchAvailableDevicesHandler
   }
 
+  // Shown when the widget has the diagnostics parameter set, and always in development
+  const showDiagnostics = isDevelopmentMode() || isDiagnosticsEnabled(widget)
+
   return (
     <WidgetContext.Provider value={contextValue}>
       <App />
+      {showDiagnostics && <DiagnosticsDrawer events={diagnosticsEvents} />}
     </WidgetContext.Provider>
   )
 }
\ No newline at end of file
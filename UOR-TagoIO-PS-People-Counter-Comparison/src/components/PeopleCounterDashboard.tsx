@@ -1,13 +1,41 @@
-import { useContext } from 'preact/compat';
+import { useContext, useEffect, useMemo, useState } from 'preact/compat';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { WidgetContext } from '../WidgetView';
-import { exportChartDataToCSV, exportSensorDataToCSV, SensorExportData } from '../utils/csvExport';
+import {
+  ExportRange,
+  exportChartDataToCSV,
+  exportRawDataToCSV,
+  exportSensorDataToCSV,
+  RawExportRecord,
+  SensorExportData
+} from '../utils/csvExport';
 import { isDevelopmentMode } from '../utils/mockData';
 import packageJson from '../../package.json';
 import { useSensorFilters } from '../hooks/useSensorFilters';
-import { useSensorData } from '../hooks/useSensorData';
-import { useSelectedSensors } from '../hooks/useSelectedSensors';
+import { SensorInfo, useSensorData } from '../hooks/useSensorData';
+import { COLORS, useSelectedSensors } from '../hooks/useSelectedSensors';
 import { useChartData } from '../hooks/useChartData';
+import { GRANULARITIES, GRANULARITY_LABELS, Granularity, getDateRange, getWeekday, shiftDateInputValue } from '../utils/timeBuckets';
+import { TimezoneSource, getParkTimezones, resolveSiteTimezone } from '../utils/timezone';
+import { DEVICE_TOKEN_PARAMETER, MAX_HISTORY_POINTS } from '../utils/history';
+import {
+  COMPARISON_LABELS,
+  COMPARISON_MODES,
+  ComparisonMode,
+  formatPercentChange,
+  getBaselineKey,
+  getPercentChange,
+  isBaselineKey
+} from '../utils/comparison';
+import {
+  AGGREGATIONS,
+  AGGREGATION_LABELS,
+  GroupAggregation,
+  SensorGroup,
+  getGroupId,
+  getGroupMembers,
+  getSeriesBucketData
+} from '../utils/sensorGroups';
 import './PeopleCounterDashboard.css';
 
 // Type assertion for recharts components to work with Preact
@@ -20,10 +48,32 @@ const ChartTooltip = Tooltip as any;
 const ChartLegend = Legend as any;
 const ChartContainer = ResponsiveContainer as any;
 
+const TIMEZONE_SOURCE_LABELS: Record<TimezoneSource, string> = {
+  park: 'park setting',
+  widget: 'widget setting',
+  browser: 'browser timezone'
+};
+
+// Beyond this many points per line, dots are hidden so the lines stay readable
+const MAX_POINTS_WITH_DOTS = 48;
+
+const getChangeColor = (change: number | null) => {
+  if (change === null || change === 0) return '#666';
+  return change > 0 ? '#2e7d32' : '#c62828';
+};
+
 // Custom tooltip component
-const CustomTooltip = ({ active, payload, label }: any) => {
+const CustomTooltip = ({ active, payload, label, timeZone }: any) => {
   if (active && payload && payload.length) {
-    const total = payload.reduce((sum: number, item: any) => sum + (item.value || 0), 0);
+    const point = payload[0].payload;
+    // Baseline series are shown next to their sensor rather than as separate rows
+    const sensorEntries = payload.filter((item: any) => !isBaselineKey(String(item.dataKey)));
+    const comparing = !!point.baselineBucket;
+    const total = sensorEntries.reduce((sum: number, item: any) => sum + (item.value || 0), 0);
+    const baselineTotal = comparing
+      ? sensorEntries.reduce((sum: number, item: any) => sum + (point[getBaselineKey(item.dataKey)] || 0), 0)
+      : 0;
+    const totalChange = getPercentChange(total, baselineTotal);
 
     return (
       <div style={{
@@ -34,14 +84,33 @@ const CustomTooltip = ({ active, payload, label }: any) => {
         boxShadow: '0 2px 8px rgba(0,0,0,0.1)'
       }}>
         <p style={{ margin: '0 0 8px 0', fontWeight: 'bold' }}>{`Time: ${label}`}</p>
-        {payload.map((entry: any, index: number) => (
-          <p key={index} style={{ margin: '4px 0', color: entry.color }}>
-            {`${entry.dataKey}: ${entry.value}`}
+        {comparing && (
+          <p style={{ margin: '0 0 8px 0', fontSize: '12px', color: '#666' }}>
+            {`Baseline: ${new Date(point.baselineBucket).toLocaleString(undefined, { timeZone })}`}
           </p>
-        ))}
+        )}
+        {sensorEntries.map((entry: any, index: number) => {
+          const baselineValue = point[getBaselineKey(entry.dataKey)] || 0;
+          const change = getPercentChange(entry.value || 0, baselineValue);
+          return (
+            <p key={index} style={{ margin: '4px 0', color: entry.color }}>
+              {`${entry.dataKey}: ${entry.value}`}
+              {comparing && (
+                <span style={{ color: getChangeColor(change) }}>
+                  {` (was ${baselineValue}, ${formatPercentChange(change)})`}
+                </span>
+              )}
+            </p>
+          );
+        })}
         <hr style={{ margin: '8px 0', border: 'none', borderTop: '1px solid #eee' }} />
         <p style={{ margin: '4px 0 0 0', fontWeight: 'bold', color: '#333' }}>
           {`Total: ${total}`}
+          {comparing && (
+            <span style={{ color: getChangeColor(totalChange) }}>
+              {` (was ${baselineTotal}, ${formatPercentChange(totalChange)})`}
+            </span>
+          )}
         </p>
       </div>
     );
@@ -50,22 +119,111 @@ const CustomTooltip = ({ active, payload, label }: any) => {
 };
 
 const PeopleCounterDashboard = () => {
-  const { sensorData, isLoading } = useContext(WidgetContext);
+  const { sensorData, isLoading, loadedRange, history, loadHistory, widget } = useContext(WidgetContext);
   const isDevMode = isDevelopmentMode();
 
   // Use custom hooks
-  const { filters, actions } = useSensorFilters();
-  const { selectedSensors, addSensor, removeSensor, clearSensors } = useSelectedSensors();
+  const { selectedSensors, addSensor, addGroup, removeSensor, clearSensors } = useSelectedSensors();
+  const [groupAggregation, setGroupAggregation] = useState<GroupAggregation>('sum');
+  const [expandedGroupId, setExpandedGroupId] = useState<string | null>(null);
+
+  // Days, buckets and export timestamps follow the park's timezone, not the viewer's browser
+  const parkTimezones = useMemo(() => getParkTimezones(sensorData), [sensorData]);
+  const sitePark = selectedSensors[0]?.park || sensorData[0]?.park || null;
+  const { timeZone, source: timeZoneSource } = resolveSiteTimezone(widget, parkTimezones, sitePark);
+  const getParkTimeZone = (park: string) => resolveSiteTimezone(widget, parkTimezones, park).timeZone;
+
+  // Buckets of different timezones don't line up, so every series shares the first one's timezone
+  const isInSiteTimeZone = (park: string) => selectedSensors.length === 0 || getParkTimeZone(park) === timeZone;
+
+  const { filters, actions } = useSensorFilters(timeZone);
   const {
+    sensors,
     processedData,
+    baseline,
     worlds,
     buildings,
     floors,
     designations,
     roomTypes,
     availableSensors
-  } = useSensorData(sensorData, filters, selectedSensors);
-  const chartData = useChartData(selectedSensors, processedData, filters.selectedDate);
+  } = useSensorData(sensorData, filters, selectedSensors, timeZone);
+  const chartData = useChartData(selectedSensors, processedData, sensors, filters.startDate, filters.endDate, filters.granularity, baseline, timeZone);
+
+  // The current location filters, offered as a group combining every matching sensor
+  const pendingGroup: SensorGroup = {
+    filter: {
+      world: filters.selectedWorld,
+      building: filters.selectedBuilding,
+      floor: filters.selectedFloor,
+      designation: filters.selectedDesignation,
+      roomType: filters.selectedRoomType
+    },
+    aggregation: groupAggregation
+  };
+  const pendingGroupMembers = useMemo(
+    () => filters.selectedWorld ? getGroupMembers(sensors, pendingGroup.filter) : [],
+    [sensors, filters.selectedWorld, filters.selectedBuilding, filters.selectedFloor, filters.selectedDesignation, filters.selectedRoomType]
+  );
+  const pendingGroupTimeZones = [...new Set(pendingGroupMembers.map(member => getParkTimeZone(member.park)))];
+  const pendingGroupTimeZoneConflict = pendingGroupTimeZones.length > 1
+    ? `Matching sensors span ${pendingGroupTimeZones.join(', ')}; narrow the filters to one timezone`
+    : pendingGroupMembers.length > 0 && !isInSiteTimeZone(pendingGroupMembers[0].park)
+      ? `Matching sensors are in ${pendingGroupTimeZones[0]}, the selected series in ${timeZone}`
+      : null;
+  const canAddGroup = pendingGroupMembers.length > 0 &&
+    !pendingGroupTimeZoneConflict &&
+    selectedSensors.length < COLORS.length &&
+    !selectedSensors.some(sensor => sensor.sensorId === getGroupId(pendingGroup));
+
+  // Members of each selected group, for the member counts and drill-down
+  const groupMembers = useMemo(() => {
+    const members: Record<string, SensorInfo[]> = {};
+    selectedSensors.forEach(sensor => {
+      if (sensor.group) {
+        members[sensor.sensorId] = getGroupMembers(sensors, sensor.group.filter);
+      }
+    });
+    return members;
+  }, [selectedSensors, sensors]);
+  const expandedGroup = selectedSensors.find(sensor => sensor.group && sensor.sensorId === expandedGroupId);
+
+  const handleAddGroup = () => {
+    if (!canAddGroup) return;
+    addGroup(pendingGroup, pendingGroupMembers[0].park);
+  };
+
+  const rangeLabel = filters.startDate === filters.endDate ? filters.startDate : `${filters.startDate} to ${filters.endDate}`;
+  const fileRange = filters.startDate === filters.endDate ? filters.startDate : `${filters.startDate}_${filters.endDate}`;
+
+  // The widget starts with the records its device query returned; ranges reaching before them
+  // load the rest from the device API when a device token is configured, and are flagged otherwise
+  const loadedFrom = loadedRange ? new Date(loadedRange.start) : null;
+  const requiredStartMs = getDateRange(baseline?.startDate || filters.startDate, filters.endDate, timeZone).startMs;
+  const rangeStartsBeforeData = !!loadedFrom && requiredStartMs < loadedFrom.getTime();
+
+  useEffect(() => {
+    if (rangeStartsBeforeData && history.enabled && !history.loading) {
+      loadHistory(requiredStartMs);
+    }
+  }, [rangeStartsBeforeData, requiredStartMs, history.enabled, history.loading]);
+
+  // Presets for the common comparisons; the range and baseline stay editable afterwards
+  const compareTodayWithLastWeek = () => {
+    actions.setStartDate(filters.maxDate);
+    actions.setEndDate(filters.maxDate);
+    actions.setComparison('previous_week');
+  };
+
+  const compareThisWeekWithLastWeek = () => {
+    // Weeks start on Monday
+    const daysSinceMonday = (getWeekday(filters.maxDate) + 6) % 7;
+    actions.setStartDate(shiftDateInputValue(filters.maxDate, -daysSinceMonday));
+    actions.setEndDate(filters.maxDate);
+    actions.setComparison('previous_week');
+  };
+
+  const exportRange: ExportRange = { startDate: filters.startDate, endDate: filters.endDate, timeZone };
 
   const handleExportCSV = () => {
     if (selectedSensors.length === 0) {
@@ -74,7 +232,7 @@ const PeopleCounterDashboard = () => {
     }
 
     // Convert chart data to CSV format
-    exportChartDataToCSV(chartData, selectedSensors, `sensor-comparison-${new Date().toISOString().split('T')[0]}.csv`);
+    exportChartDataToCSV(chartData, selectedSensors, { ...exportRange, includeBaseline: !!baseline }, `sensor-comparison-${fileRange}.csv`);
   };
 
   const handleExportDetailedCSV = () => {
@@ -85,6 +243,25 @@ const PeopleCounterDashboard = () => {
 
     // Convert processed sensor data to detailed CSV format
     const detailedData: SensorExportData[] = selectedSensors.map(selected => {
+      const baselineBucketData = baseline ? getSeriesBucketData(selected, baseline.processedData, sensors) : undefined;
+      if (selected.group) {
+        const { filter, aggregation } = selected.group;
+        return {
+          sensorId: selected.sensorId,
+          sensorName: selected.sensorName,
+          park: selected.park,
+          world: filter.world,
+          building: filter.building,
+          floor: filter.floor,
+          designation: filter.designation,
+          roomType: filter.roomType,
+          bucketData: getSeriesBucketData(selected, processedData, sensors),
+          baselineBucketData,
+          aggregation: AGGREGATION_LABELS[aggregation],
+          memberCount: groupMembers[selected.sensorId]?.length || 0
+        };
+      }
+
       const sensor = processedData.find(s => s.sensorId === selected.sensorId);
       return {
         sensorId: selected.sensorId,
@@ -95,11 +272,53 @@ const PeopleCounterDashboard = () => {
         floor: sensor?.floor || '',
         designation: sensor?.designation || '',
         roomType: sensor?.roomType || '',
-        hourlyData: sensor?.hourlyData || {}
+        bucketData: sensor?.bucketData || {},
+        baselineBucketData
       };
     });
 
-    exportSensorDataToCSV(detailedData, `sensor-detailed-data-${new Date().toISOString().split('T')[0]}.csv`);
+    exportSensorDataToCSV(detailedData, {
+      ...exportRange,
+      granularity: filters.granularity,
+      baselineOffsetDays: baseline?.offsetDays ?? null
+    }, `sensor-detailed-data-${fileRange}.csv`);
+  };
+
+  const handleExportRawCSV = () => {
+    if (selectedSensors.length === 0) {
+      alert('Please select at least one sensor to export data.');
+      return;
+    }
+
+    // Every data point of the selected sensors and group members inside the range, as received
+    const range = getDateRange(filters.startDate, filters.endDate, timeZone);
+    const selectedIds = new Set(selectedSensors.flatMap(sensor =>
+      sensor.group ? (groupMembers[sensor.sensorId] || []).map(member => member.sensorId) : [sensor.sensorId]
+    ));
+    const rawRecords: RawExportRecord[] = sensorData
+      .filter(record => {
+        const time = new Date(record.time).getTime();
+        return selectedIds.has(record.group) && time >= range.startMs && time < range.endMs;
+      })
+      .map(record => ({
+        sensorName: record.deviceName,
+        park: record.park,
+        world: record.world,
+        building: record.building || '',
+        floor: record.floor || '',
+        designation: record.designation || '',
+        roomType: record.roomType || '',
+        group: record.group,
+        time: record.time,
+        value: Number(record.totalIn) || 0
+      }));
+
+    if (rawRecords.length === 0) {
+      alert('The selected sensors have no data points in this date range.');
+      return;
+    }
+
+    exportRawDataToCSV(rawRecords, exportRange, `sensor-raw-data-${fileRange}.csv`);
   };
 
   const handleClearAll = () => {
@@ -141,20 +360,130 @@ const PeopleCounterDashboard = () => {
 
         {/* Date Range Filter */}
         <div style={{ marginBottom: '20px', padding: '10px', backgroundColor: '#e8f4f8', borderRadius: '6px', border: '1px solid #2196F3' }}>
-          <input
-            type="date"
-            value={filters.selectedDate}
-            min={filters.minDate}
-            max={filters.maxDate}
-            onInput={(e) => actions.setSelectedDate((e.target as HTMLInputElement).value)}
-            style={{
-              width: '100%',
-              padding: '8px',
-              borderRadius: '4px',
-              border: '1px solid #ccc',
-              fontSize: '14px'
-            }}
-          />
+          <div style={{ display: 'flex', gap: '10px', marginBottom: '10px' }}>
+            <label style={{ flex: 1, fontSize: '12px', fontWeight: 'bold' }}>
+              From:
+              <input
+                type="date"
+                value={filters.startDate}
+                max={filters.maxDate}
+                onInput={(e) => actions.setStartDate((e.target as HTMLInputElement).value)}
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  marginTop: '4px',
+                  borderRadius: '4px',
+                  border: '1px solid #ccc',
+                  fontSize: '14px',
+                  boxSizing: 'border-box'
+                }}
+              />
+            </label>
+            <label style={{ flex: 1, fontSize: '12px', fontWeight: 'bold' }}>
+              To:
+              <input
+                type="date"
+                value={filters.endDate}
+                max={filters.maxDate}
+                onInput={(e) => actions.setEndDate((e.target as HTMLInputElement).value)}
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  marginTop: '4px',
+                  borderRadius: '4px',
+                  border: '1px solid #ccc',
+                  fontSize: '14px',
+                  boxSizing: 'border-box'
+                }}
+              />
+            </label>
+          </div>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            {GRANULARITIES.map((granularity: Granularity) => (
+              <button
+                key={granularity}
+                onClick={() => actions.setGranularity(granularity)}
+                style={{
+                  flex: 1,
+                  padding: '6px',
+                  fontSize: '12px',
+                  borderRadius: '4px',
+                  border: '1px solid #2196F3',
+                  backgroundColor: filters.granularity === granularity ? '#2196F3' : '#fff',
+                  color: filters.granularity === granularity ? 'white' : '#2196F3',
+                  cursor: 'pointer'
+                }}
+              >
+                {GRANULARITY_LABELS[granularity]}
+              </button>
+            ))}
+          </div>
+          <div style={{ marginTop: '10px' }}>
+            <label style={{ display: 'block', fontSize: '12px', fontWeight: 'bold', marginBottom: '4px' }}>Compare with:</label>
+            <select
+              value={filters.comparison}
+              onInput={(e) => actions.setComparison((e.target as HTMLSelectElement).value as ComparisonMode)}
+              style={{
+                width: '100%',
+                padding: '8px',
+                borderRadius: '4px',
+                border: '1px solid #ccc'
+              }}
+            >
+              {COMPARISON_MODES.map(mode => (
+                <option key={mode} value={mode}>{COMPARISON_LABELS[mode]}</option>
+              ))}
+            </select>
+            {filters.comparison === 'custom' && (
+              <input
+                type="date"
+                value={filters.baselineDate}
+                max={filters.maxDate}
+                onInput={(e) => actions.setBaselineDate((e.target as HTMLInputElement).value)}
+                style={{
+                  width: '100%',
+                  padding: '8px',
+                  marginTop: '6px',
+                  borderRadius: '4px',
+                  border: '1px solid #ccc',
+                  fontSize: '14px',
+                  boxSizing: 'border-box'
+                }}
+              />
+            )}
+            <div style={{ display: 'flex', gap: '6px', marginTop: '6px' }}>
+              <button
+                onClick={compareTodayWithLastWeek}
+                style={{ flex: 1, padding: '6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: '#fff', cursor: 'pointer' }}
+              >
+                Today vs last week
+              </button>
+              <button
+                onClick={compareThisWeekWithLastWeek}
+                style={{ flex: 1, padding: '6px', fontSize: '12px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: '#fff', cursor: 'pointer' }}
+              >
+                This week vs last week
+              </button>
+            </div>
+            {baseline && (
+              <div style={{ fontSize: '12px', color: '#666', marginTop: '6px' }}>
+                Baseline: {baseline.startDate === baseline.endDate ? baseline.startDate : `${baseline.startDate} to ${baseline.endDate}`} (dashed lines)
+              </div>
+            )}
+          </div>
+          {rangeStartsBeforeData && loadedFrom && (
+            <div style={{ fontSize: '12px', color: '#b45309', marginTop: '8px' }}>
+              {history.loading
+                ? `Loading data before ${loadedFrom.toLocaleString(undefined, { timeZone })}...`
+                : `Loaded data starts ${loadedFrom.toLocaleString(undefined, { timeZone })} — earlier parts of the range show no traffic.`}
+              {!history.loading && history.error && ` Could not load earlier data: ${history.error}`}
+              {!history.loading && history.truncated && ` The range holds more than ${MAX_HISTORY_POINTS.toLocaleString()} data points, so only the most recent were loaded.`}
+              {!history.enabled && ` Set the ${DEVICE_TOKEN_PARAMETER} widget parameter to load earlier data.`}
+            </div>
+          )}
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '8px' }}>
+            Times in {timeZone} ({TIMEZONE_SOURCE_LABELS[timeZoneSource]})
+          </div>
         </div>
 
         <button
@@ -294,6 +623,51 @@ const PeopleCounterDashboard = () => {
           </select>
         </div>
 
+        {/* Group Selection */}
+        <div style={{ margin: '10px 0', padding: '10px', backgroundColor: '#fff', borderRadius: '6px', border: '1px solid #ddd' }}>
+          <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>Add Filters as Group:</label>
+          <div style={{ display: 'flex', gap: '6px' }}>
+            <select
+              value={groupAggregation}
+              onInput={(e) => setGroupAggregation((e.target as HTMLSelectElement).value as GroupAggregation)}
+              disabled={!filters.selectedWorld}
+              style={{
+                flex: 1,
+                padding: '8px',
+                borderRadius: '4px',
+                border: '1px solid #ccc'
+              }}
+            >
+              {AGGREGATIONS.map(aggregation => (
+                <option key={aggregation} value={aggregation}>{AGGREGATION_LABELS[aggregation]}</option>
+              ))}
+            </select>
+            <button
+              onClick={handleAddGroup}
+              disabled={!canAddGroup}
+              style={{
+                flex: 2,
+                padding: '8px',
+                fontSize: '12px',
+                backgroundColor: '#673AB7',
+                color: 'white',
+                border: 'none',
+                borderRadius: '4px',
+                cursor: canAddGroup ? 'pointer' : 'not-allowed',
+                opacity: canAddGroup ? 1 : 0.5,
+                transition: 'opacity 0.2s'
+              }}
+            >
+              Add group ({pendingGroupMembers.length} {pendingGroupMembers.length === 1 ? 'sensor' : 'sensors'})
+            </button>
+          </div>
+          <div style={{ fontSize: '12px', color: '#666', marginTop: '6px' }}>
+            {!filters.selectedWorld
+              ? 'Select a world to group its sensors'
+              : pendingGroupTimeZoneConflict || 'Combines every sensor matching the filters above into one series'}
+          </div>
+        </div>
+
         {/* Available Sensors */}
         <div style={{ display: 'flex', flexDirection: 'column', minHeight: '300px' }}>
           <label style={{ display: 'block', marginBottom: '8px', fontWeight: 'bold' }}>Available Sensors:</label>
@@ -326,6 +700,7 @@ const PeopleCounterDashboard = () => {
               if (!filters.selectedRoomType && sensor.roomType) {
                 metadataItems.push(`${sensor.roomType}`);
               }
+              const canAdd = isInSiteTimeZone(sensor.park);
 
               return (
                 <div
@@ -333,11 +708,13 @@ const PeopleCounterDashboard = () => {
                   style={{
                     padding: '12px',
                     borderBottom: '1px solid #eee',
-                    cursor: 'pointer',
+                    cursor: canAdd ? 'pointer' : 'not-allowed',
+                    opacity: canAdd ? 1 : 0.5,
                     backgroundColor: '#fff',
                     transition: 'background-color 0.2s'
                   }}
-                  onClick={() => addSensor(sensor)}
+                  title={canAdd ? undefined : `In ${getParkTimeZone(sensor.park)}; the selected series use ${timeZone}`}
+                  onClick={() => canAdd && addSensor(sensor)}
                   onMouseEnter={(e) => e.currentTarget.style.backgroundColor = '#f0f0f0'}
                   onMouseLeave={(e) => e.currentTarget.style.backgroundColor = '#fff'}
                 >
@@ -369,7 +746,7 @@ const PeopleCounterDashboard = () => {
 
       {/* Chart Panel */}
       <div style={{ flex: 1, backgroundColor: '#f5f5f5', padding: '20px', borderRadius: '8px', display: 'flex', flexDirection: 'column', position: 'relative' }}>
-        <h3 style={{ margin: '0 0 20px 0' }}>Hourly Traffic Count (IN) - 24 Hour Period</h3>
+        <h3 style={{ margin: '0 0 20px 0' }}>{GRANULARITY_LABELS[filters.granularity]} Traffic Count (IN) - {rangeLabel}</h3>
 
         {/* Selected Sensors - Horizontal Layout */}
         <div style={{ marginBottom: '20px' }}>
@@ -412,6 +789,24 @@ const PeopleCounterDashboard = () => {
               >
                 Export Detailed
               </button>
+              <button
+                onClick={handleExportRawCSV}
+                disabled={selectedSensors.length === 0}
+                style={{
+                  padding: '4px 8px',
+                  fontSize: '12px',
+                  backgroundColor: '#607D8B',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  cursor: selectedSensors.length === 0 ? 'not-allowed' : 'pointer',
+                  opacity: selectedSensors.length === 0 ? 0.5 : 1,
+                  transition: 'opacity 0.2s'
+                }}
+                title="Export every data point in the range as CSV, without bucketing"
+              >
+                Export Raw
+              </button>
             </div>
           </div>
           <div style={{
@@ -452,6 +847,25 @@ const PeopleCounterDashboard = () => {
                   }}
                 >
                   <span style={{ marginRight: '8px' }}>{sensor.sensorName}</span>
+                  {sensor.group && (
+                    <button
+                      onClick={() => setExpandedGroupId(expandedGroupId === sensor.sensorId ? null : sensor.sensorId)}
+                      style={{
+                        backgroundColor: expandedGroupId === sensor.sensorId ? 'rgba(255,255,255,0.6)' : 'rgba(255,255,255,0.3)',
+                        color: 'white',
+                        border: 'none',
+                        borderRadius: '10px',
+                        padding: '2px 8px',
+                        marginRight: '6px',
+                        cursor: 'pointer',
+                        fontSize: '12px',
+                        fontWeight: 'bold'
+                      }}
+                      title="Show member sensors"
+                    >
+                      {groupMembers[sensor.sensorId]?.length || 0}
+                    </button>
+                  )}
                   <button
                     onClick={() => removeSensor(sensor.sensorId)}
                     style={{
@@ -476,15 +890,70 @@ const PeopleCounterDashboard = () => {
               ))
             )}
           </div>
+          {expandedGroup && (
+            <div style={{
+              marginTop: '8px',
+              padding: '8px',
+              maxHeight: '200px',
+              overflowY: 'auto',
+              backgroundColor: '#fff',
+              borderRadius: '4px',
+              border: `1px solid ${expandedGroup.color}`
+            }}>
+              <div style={{ fontSize: '13px', fontWeight: 'bold', marginBottom: '6px' }}>
+                {expandedGroup.sensorName}: {groupMembers[expandedGroup.sensorId]?.length || 0} member sensors, traffic in {rangeLabel}
+              </div>
+              {(groupMembers[expandedGroup.sensorId] || []).map(member => {
+                // Members without data in the range still count towards the group, with no traffic
+                const bucketData = processedData.find(sensor => sensor.sensorId === member.sensorId)?.bucketData || {};
+                const total = Object.values(bucketData).reduce((sum, count) => sum + count, 0);
+                const isSelected = selectedSensors.some(sensor => sensor.sensorId === member.sensorId);
+                return (
+                  <div
+                    key={member.sensorId}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      alignItems: 'center',
+                      gap: '8px',
+                      padding: '4px 0',
+                      borderBottom: '1px solid #eee',
+                      fontSize: '12px'
+                    }}
+                  >
+                    <span>
+                      <strong>{member.sensorName}</strong>
+                      <span style={{ color: '#888', marginLeft: '6px' }}>
+                        {[member.building, member.floor, member.designation, member.roomType].filter(Boolean).join(' • ')}
+                      </span>
+                    </span>
+                    <span style={{ display: 'flex', alignItems: 'center', gap: '8px', whiteSpace: 'nowrap' }}>
+                      {total} in
+                      {!isSelected && (
+                        <button
+                          onClick={() => addSensor(member)}
+                          disabled={selectedSensors.length >= COLORS.length}
+                          style={{ padding: '2px 6px', fontSize: '11px', borderRadius: '4px', border: '1px solid #ccc', backgroundColor: '#fff', cursor: 'pointer' }}
+                          title="Add this sensor as its own series"
+                        >
+                          Add
+                        </button>
+                      )}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+          )}
         </div>
 
         <div style={{ flex: 1, minHeight: 0, position: 'relative' }}>
           <ChartContainer width="100%" height="100%" minWidth={0}>
             <Chart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
               <ChartGrid strokeDasharray="3 3" />
-              <ChartXAxis dataKey="hour" />
+              <ChartXAxis dataKey="label" minTickGap={20} />
               <ChartYAxis allowDecimals={false} />
-              <ChartTooltip content={<CustomTooltip />} />
+              <ChartTooltip content={<CustomTooltip timeZone={timeZone} />} />
               <ChartLegend />
               {selectedSensors.map(sensor => (
                 <ChartLine
@@ -493,7 +962,19 @@ const PeopleCounterDashboard = () => {
                   dataKey={sensor.sensorName}
                   stroke={sensor.color}
                   strokeWidth={2}
-                  dot={{ r: 4 }}
+                  dot={chartData.length > MAX_POINTS_WITH_DOTS ? false : { r: 4 }}
+                />
+              ))}
+              {baseline && selectedSensors.map(sensor => (
+                <ChartLine
+                  key={`${sensor.sensorId}-baseline`}
+                  type="monotone"
+                  dataKey={getBaselineKey(sensor.sensorName)}
+                  stroke={sensor.color}
+                  strokeWidth={2}
+                  strokeDasharray="6 4"
+                  strokeOpacity={0.6}
+                  dot={false}
                 />
               ))}
             </Chart>
@@ -2,7 +2,7 @@ export { useSensorFilters } from './useSensorFilters';
 export type { SensorFilters, SensorFiltersActions } from './useSensorFilters';
 
 export { useSensorData } from './useSensorData';
-export type { ProcessedSensorData, SensorDataResult } from './useSensorData';
+export type { SensorInfo, ProcessedSensorData, SensorDataResult, BaselineData } from './useSensorData';
 
 export { useSelectedSensors, COLORS } from './useSelectedSensors';
 export type { SelectedSensor, UseSelectedSensorsResult } from './useSelectedSensors';
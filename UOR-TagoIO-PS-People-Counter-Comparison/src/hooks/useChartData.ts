@@ -1,44 +1,71 @@
 import { useMemo } from 'preact/compat';
-import { ProcessedSensorData } from './useSensorData';
+import { BaselineData, ProcessedSensorData, SensorInfo } from './useSensorData';
 import { SelectedSensor } from './useSelectedSensors';
+import {
+  Granularity,
+  formatBucketLabel,
+  getDateRange,
+  isMultiDayRange,
+  listBucketStarts
+} from '../utils/timeBuckets';
+import { getBaselineBucketStart, getBaselineKey } from '../utils/comparison';
+import { getSeriesBucketData } from '../utils/sensorGroups';
 
 export interface ChartDataPoint {
-  hour: string;
-  [sensorName: string]: number | string;
+  // Bucket start as an ISO string
+  bucket: string;
+  label: string;
+  // Start of the lined-up baseline bucket, when comparing periods
+  baselineBucket?: string;
+  [sensorName: string]: number | string | undefined;
 }
 
 export const useChartData = (
   selectedSensors: SelectedSensor[],
   processedData: ProcessedSensorData[],
-  selectedDate: string
+  sensors: SensorInfo[],
+  startDate: string,
+  endDate: string,
+  granularity: Granularity,
+  baseline: BaselineData | null,
+  timeZone: string
 ): ChartDataPoint[] => {
   return useMemo(() => {
-    const hours = Array.from({ length: 24 }, (_, i) => `${i.toString().padStart(2, '0')}:00`);
-    const now = new Date();
-    const currentHour = now.getHours();
-    const currentDate = now.toISOString().split('T')[0];
-
-    // Only show hours up to current time if we're looking at today
-    const validHours = hours.filter((_, index) => {
-      // If we're showing today's data, only show hours up to current hour
-      if (selectedDate === currentDate) {
-        return index <= currentHour;
-      }
-      // For past dates, show all hours
-      return true;
-    });
+    const range = getDateRange(startDate, endDate, timeZone);
+    const multiDay = isMultiDayRange(range, timeZone);
+    const now = Date.now();
+
+    // Only show buckets that have started; a range ending today stops at the current bucket
+    const bucketStarts = listBucketStarts(range, granularity, timeZone).filter(start => start.getTime() <= now);
 
-    const chartPoints = validHours.map(hour => {
-      const dataPoint: any = { hour };
+    // Resolve each series once; groups combine their members' buckets
+    const seriesData = selectedSensors.map(sensor => getSeriesBucketData(sensor, processedData, sensors));
+    const baselineSeriesData = baseline
+      ? selectedSensors.map(sensor => getSeriesBucketData(sensor, baseline.processedData, sensors))
+      : [];
 
-      selectedSensors.forEach(sensor => {
-        const sensorData = processedData.find(s => s.sensorId === sensor.sensorId);
-        dataPoint[sensor.sensorName] = sensorData?.hourlyData[hour] || 0;
+    const chartPoints = bucketStarts.map(start => {
+      const bucket = start.toISOString();
+      const dataPoint: ChartDataPoint = {
+        bucket,
+        label: formatBucketLabel(start, granularity, multiDay, timeZone)
+      };
+
+      selectedSensors.forEach((sensor, index) => {
+        dataPoint[sensor.sensorName] = seriesData[index][bucket] || 0;
       });
 
+      if (baseline) {
+        const baselineBucket = getBaselineBucketStart(start, baseline.offsetDays, timeZone).toISOString();
+        dataPoint.baselineBucket = baselineBucket;
+        selectedSensors.forEach((sensor, index) => {
+          dataPoint[getBaselineKey(sensor.sensorName)] = baselineSeriesData[index][baselineBucket] || 0;
+        });
+      }
+
       return dataPoint;
     });
 
     return chartPoints;
-  }, [selectedSensors, processedData, selectedDate]);
+  }, [selectedSensors, processedData, sensors, startDate, endDate, granularity, baseline, timeZone]);
 };
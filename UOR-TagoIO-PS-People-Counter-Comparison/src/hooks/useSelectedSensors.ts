@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'preact/compat';
-import { ProcessedSensorData } from './useSensorData';
+import { SensorInfo } from './useSensorData';
+import { SensorGroup, getGroupId, getGroupName } from '../utils/sensorGroups';
 
 export interface SelectedSensor {
   sensorId: string;
@@ -7,13 +8,16 @@ export interface SelectedSensor {
   park: string;
   world: string;
   color: string;
+  // Set for virtual sensors combining every sensor matching a filter
+  group?: SensorGroup;
 }
 
 export const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff7300', '#8dd1e1', '#d084d0', '#87d068'];
 
 export interface UseSelectedSensorsResult {
   selectedSensors: SelectedSensor[];
-  addSensor: (sensor: ProcessedSensorData) => void;
+  addSensor: (sensor: SensorInfo) => void;
+  addGroup: (group: SensorGroup, park: string) => void;
   removeSensor: (sensorId: string) => void;
   clearSensors: () => void;
 }
@@ -21,7 +25,7 @@ export interface UseSelectedSensorsResult {
 export const useSelectedSensors = (): UseSelectedSensorsResult => {
   const [selectedSensors, setSelectedSensors] = useState<SelectedSensor[]>([]);
 
-  const addSensor = useCallback((sensor: ProcessedSensorData) => {
+  const addSensor = useCallback((sensor: SensorInfo) => {
     setSelectedSensors(prev => {
       // Only add if we haven't reached the max limit
       if (prev.length < COLORS.length) {
@@ -37,6 +41,23 @@ export const useSelectedSensors = (): UseSelectedSensorsResult => {
     });
   }, []);
 
+  const addGroup = useCallback((group: SensorGroup, park: string) => {
+    setSelectedSensors(prev => {
+      const sensorId = getGroupId(group);
+      if (prev.length >= COLORS.length || prev.some(s => s.sensorId === sensorId)) {
+        return prev;
+      }
+      return [...prev, {
+        sensorId,
+        sensorName: getGroupName(group),
+        park,
+        world: group.filter.world,
+        color: COLORS[prev.length],
+        group
+      }];
+    });
+  }, []);
+
   const removeSensor = useCallback((sensorId: string) => {
     setSelectedSensors(prev => prev.filter(s => s.sensorId !== sensorId));
   }, []);
@@ -48,6 +69,7 @@ export const useSelectedSensors = (): UseSelectedSensorsResult => {
   return {
     selectedSensors,
     addSensor,
+    addGroup,
     removeSensor,
     clearSensors,
   };
@@ -1,8 +1,10 @@
 import { useMemo } from 'preact/compat';
 import { SensorData } from '../WidgetView';
 import { SensorFilters } from './useSensorFilters';
+import { DateRange, Granularity, getBucketKey, getDateRange } from '../utils/timeBuckets';
+import { BaselinePeriod, getBaselinePeriod } from '../utils/comparison';
 
-export interface ProcessedSensorData {
+export interface SensorInfo {
   sensorId: string;
   sensorName: string;
   park: string;
@@ -11,7 +13,11 @@ export interface ProcessedSensorData {
   floor: string;
   designation: string;
   roomType: string;
-  hourlyData: { [hour: string]: number };
+}
+
+export interface ProcessedSensorData extends SensorInfo {
+  // Traffic summed per bucket of the selected granularity, keyed by bucket start (ISO)
+  bucketData: { [bucketStart: string]: number };
 }
 
 interface RawDataItem {
@@ -22,8 +28,15 @@ interface RawDataItem {
   time: string;
 }
 
+export interface BaselineData extends BaselinePeriod {
+  processedData: ProcessedSensorData[];
+}
+
 export interface SensorDataResult {
+  // Every sensor the widget has records for, whether or not it has data in the selected range
+  sensors: SensorInfo[];
   processedData: ProcessedSensorData[];
+  baseline: BaselineData | null;
   worlds: string[];
   buildings: string[];
   floors: string[];
@@ -32,10 +45,72 @@ export interface SensorDataResult {
   availableSensors: ProcessedSensorData[];
 }
 
+/**
+ * Groups the raw points inside a range by sensor, summing traffic into buckets of the granularity
+ */
+const aggregateSensorData = (
+  rawData: RawDataItem[],
+  range: DateRange,
+  granularity: Granularity,
+  timeZone: string
+): ProcessedSensorData[] => {
+  const filteredData = rawData.filter(item => {
+    const itemTime = new Date(item.time).getTime();
+    return itemTime >= range.startMs && itemTime < range.endMs;
+  });
+
+  const sensorMap = new Map<string, ProcessedSensorData>();
+
+  filteredData.forEach(item => {
+    const sensorId = item.group;
+
+    if (!sensorMap.has(sensorId)) {
+      sensorMap.set(sensorId, {
+        sensorId,
+        sensorName: '',
+        park: '',
+        world: '',
+        building: '',
+        floor: '',
+        designation: '',
+        roomType: '',
+        bucketData: {}
+      });
+    }
+
+    const sensor = sensorMap.get(sensorId)!;
+
+    if (item.variable === 'device_name') {
+      sensor.sensorName = item.value as string;
+    } else if (item.variable === 'park') {
+      sensor.park = item.value as string;
+    } else if (item.variable === 'world') {
+      sensor.world = item.value as string;
+    } else if (item.variable === 'building') {
+      sensor.building = item.value as string;
+    } else if (item.variable === 'floor') {
+      sensor.floor = item.value as string;
+    } else if (item.variable === 'designation') {
+      sensor.designation = item.value as string;
+    } else if (item.variable === 'room_type') {
+      sensor.roomType = item.value as string;
+    } else if (item.variable === 'device_period_in') {
+      const bucketKey = getBucketKey(item.time, granularity, timeZone);
+      // Accumulate traffic count for each bucket (sum multiple data points)
+      sensor.bucketData[bucketKey] = (sensor.bucketData[bucketKey] || 0) + (Number(item.value) || 0);
+    }
+  });
+
+  return Array.from(sensorMap.values()).filter(sensor =>
+    sensor.sensorName && sensor.park && sensor.world
+  );
+};
+
 export const useSensorData = (
   sensorData: SensorData[],
   filters: SensorFilters,
-  selectedSensors: any[]
+  selectedSensors: any[],
+  timeZone: string
 ): SensorDataResult => {
   // Convert sensor data to raw data format
   const rawData: RawDataItem[] = useMemo(() => {
@@ -51,87 +126,46 @@ export const useSensorData = (
     ]);
   }, [sensorData]);
 
-  // Process data with date filtering
-  const processedData = useMemo(() => {
-    console.log(`🔍 Processing data for date: ${filters.selectedDate}`);
-    console.log(`📊 Raw data sample:`, rawData.slice(0, 3));
-
-    // Filter raw data by selected date
-    const filteredData = rawData.filter(item => {
-      if (!filters.selectedDate) return true;
-
-      const itemDate = new Date(item.time);
-      const start = new Date(filters.selectedDate + 'T00:00:00.000Z');
-      const end = new Date(filters.selectedDate + 'T23:59:59.999Z');
-
-      const isInRange = itemDate >= start && itemDate <= end;
-
-      // Log first few items for debugging
-      if (rawData.indexOf(item) < 3) {
-        console.log(`📅 Item ${item.id}: ${item.time} -> ${itemDate.toISOString()} (${isInRange ? 'IN' : 'OUT'} range ${start.toISOString()} to ${end.toISOString()})`);
-      }
-
-      return isInRange;
+  // Sensors keyed by device group, with the metadata of their latest record
+  const sensors = useMemo(() => {
+    const sensorMap = new Map<string, SensorInfo>();
+    sensorData.forEach(sensor => {
+      sensorMap.set(sensor.group, {
+        sensorId: sensor.group,
+        sensorName: sensor.deviceName,
+        park: sensor.park,
+        world: sensor.world,
+        building: sensor.building,
+        floor: sensor.floor,
+        designation: sensor.designation,
+        roomType: sensor.roomType
+      });
     });
-
-    console.log(`📅 Filtered data: ${filteredData.length} points (from ${rawData.length} total) for date ${filters.selectedDate}`);
-
-    const sensorMap = new Map<string, ProcessedSensorData>();
-
-    filteredData.forEach(item => {
-      const sensorId = item.group;
-
-      if (!sensorMap.has(sensorId)) {
-        sensorMap.set(sensorId, {
-          sensorId,
-          sensorName: '',
-          park: '',
-          world: '',
-          building: '',
-          floor: '',
-          designation: '',
-          roomType: '',
-          hourlyData: {}
-        });
-      }
-
-      const sensor = sensorMap.get(sensorId)!;
-
-      if (item.variable === 'device_name') {
-        sensor.sensorName = item.value as string;
-      } else if (item.variable === 'park') {
-        sensor.park = item.value as string;
-      } else if (item.variable === 'world') {
-        sensor.world = item.value as string;
-      } else if (item.variable === 'building') {
-        sensor.building = item.value as string;
-      } else if (item.variable === 'floor') {
-        sensor.floor = item.value as string;
-      } else if (item.variable === 'designation') {
-        sensor.designation = item.value as string;
-      } else if (item.variable === 'room_type') {
-        sensor.roomType = item.value as string;
-      } else if (item.variable === 'device_period_in') {
-        const hour = new Date(item.time).getHours();
-        const hourKey = `${hour.toString().padStart(2, '0')}:00`;
-        // Accumulate traffic count for each hour (sum multiple data points)
-        if (!sensor.hourlyData[hourKey]) {
-          sensor.hourlyData[hourKey] = 0;
-        }
-        sensor.hourlyData[hourKey] += Number(item.value) || 0;
-      }
-    });
-
     return Array.from(sensorMap.values()).filter(sensor =>
       sensor.sensorName && sensor.park && sensor.world
     );
-  }, [rawData, filters.selectedDate]);
+  }, [sensorData]);
+
+  // Process data within the selected date range
+  const processedData = useMemo(() => {
+    const range = getDateRange(filters.startDate, filters.endDate, timeZone);
+    return aggregateSensorData(rawData, range, filters.granularity, timeZone);
+  }, [rawData, filters.startDate, filters.endDate, filters.granularity, timeZone]);
+
+  // The same sensors over the baseline period, when comparing periods
+  const baseline = useMemo((): BaselineData | null => {
+    const period = getBaselinePeriod(filters.startDate, filters.endDate, filters.comparison, filters.baselineDate);
+    if (!period) return null;
+
+    return {
+      ...period,
+      processedData: aggregateSensorData(rawData, getDateRange(period.startDate, period.endDate, timeZone), filters.granularity, timeZone)
+    };
+  }, [rawData, filters.startDate, filters.endDate, filters.granularity, filters.comparison, filters.baselineDate, timeZone]);
 
   // Derive filter options from processed data
   const worlds = useMemo(() => {
     const worldList = [...new Set(processedData.map(sensor => sensor.world))].filter(Boolean).sort();
-    console.log('Available worlds:', worldList);
-    console.log('Processed data:', processedData.slice(0, 3));
     return worldList;
   }, [processedData]);
 
@@ -186,22 +220,14 @@ export const useSensorData = (
       return worldMatch && buildingMatch && floorMatch && designationMatch && roomTypeMatch && notSelected;
     });
 
-    console.log('Filter conditions:', {
-      selectedWorld: filters.selectedWorld,
-      selectedBuilding: filters.selectedBuilding,
-      selectedFloor: filters.selectedFloor,
-      selectedDesignation: filters.selectedDesignation,
-      selectedRoomType: filters.selectedRoomType,
-      selectedSensorsCount: selectedSensors.length
-    });
-    console.log('Available sensors after filtering:', filtered.length);
-
     return filtered;
   }, [processedData, filters.selectedWorld, filters.selectedBuilding, filters.selectedFloor,
       filters.selectedDesignation, filters.selectedRoomType, selectedSensors]);
 
   return {
+    sensors,
     processedData,
+    baseline,
     worlds,
     buildings,
     floors,
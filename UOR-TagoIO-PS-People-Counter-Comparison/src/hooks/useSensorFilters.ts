@@ -1,4 +1,6 @@
 import { useState, useCallback } from 'preact/compat';
+import { Granularity, shiftDateInputValue, toDateInputValue } from '../utils/timeBuckets';
+import { ComparisonMode } from '../utils/comparison';
 
 export interface SensorFilters {
   selectedWorld: string;
@@ -6,9 +8,14 @@ export interface SensorFilters {
   selectedFloor: string;
   selectedDesignation: string;
   selectedRoomType: string;
-  selectedDate: string;
-  minDate: string;
+  // Inclusive date range, YYYY-MM-DD
+  startDate: string;
+  endDate: string;
+  granularity: Granularity;
   maxDate: string;
+  comparison: ComparisonMode;
+  // First day of the baseline when comparison is 'custom'
+  baselineDate: string;
 }
 
 export interface SensorFiltersActions {
@@ -17,25 +24,45 @@ export interface SensorFiltersActions {
   setSelectedFloor: (floor: string) => void;
   setSelectedDesignation: (designation: string) => void;
   setSelectedRoomType: (roomType: string) => void;
-  setSelectedDate: (date: string) => void;
+  setStartDate: (date: string) => void;
+  setEndDate: (date: string) => void;
+  setGranularity: (granularity: Granularity) => void;
+  setComparison: (comparison: ComparisonMode) => void;
+  setBaselineDate: (date: string) => void;
   clearAllFilters: () => void;
 }
 
-export const useSensorFilters = () => {
+export const useSensorFilters = (timeZone: string) => {
   const [selectedWorld, setSelectedWorldState] = useState<string>('');
   const [selectedBuilding, setSelectedBuildingState] = useState<string>('');
   const [selectedFloor, setSelectedFloorState] = useState<string>('');
   const [selectedDesignation, setSelectedDesignationState] = useState<string>('');
   const [selectedRoomType, setSelectedRoomTypeState] = useState<string>('');
-  const [selectedDate, setSelectedDate] = useState<string>(() => {
-    const today = new Date();
-    return today.toISOString().split('T')[0];
-  });
+  // Dates stay null (today) until picked, so they follow the site timezone once it is known
+  const [startDateState, setStartDateState] = useState<string | null>(null);
+  const [endDateState, setEndDateState] = useState<string | null>(null);
+  const [granularity, setGranularity] = useState<Granularity>('hour');
+  const [comparison, setComparison] = useState<ComparisonMode>('none');
+  const [baselineDateState, setBaselineDate] = useState<string | null>(null);
 
-  // Calculate min and max dates for input constraints
-  const today = new Date();
-  const maxDate = today.toISOString().split('T')[0];
-  const minDate = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+  // Ranges can't extend past today in the site timezone
+  const maxDate = toDateInputValue(new Date(), timeZone);
+  const startDate = startDateState || maxDate;
+  const endDate = endDateState || maxDate;
+  const baselineDate = baselineDateState || shiftDateInputValue(maxDate, -7);
+
+  // Keep the range ordered: moving one end past the other drags it along
+  const setStartDate = useCallback((date: string) => {
+    if (!date) return;
+    setStartDateState(date);
+    setEndDateState(prev => (prev || maxDate) < date ? date : prev);
+  }, [maxDate]);
+
+  const setEndDate = useCallback((date: string) => {
+    if (!date) return;
+    setEndDateState(date);
+    setStartDateState(prev => (prev || maxDate) > date ? date : prev);
+  }, [maxDate]);
 
   // Cascading reset logic: when a parent filter changes, child filters reset
   const setSelectedWorld = useCallback((world: string) => {
@@ -82,9 +109,12 @@ export const useSensorFilters = () => {
     selectedFloor,
     selectedDesignation,
     selectedRoomType,
-    selectedDate,
-    minDate,
+    startDate,
+    endDate,
+    granularity,
     maxDate,
+    comparison,
+    baselineDate,
   };
 
   const actions: SensorFiltersActions = {
@@ -93,7 +123,11 @@ export const useSensorFilters = () => {
     setSelectedFloor,
     setSelectedDesignation,
     setSelectedRoomType,
-    setSelectedDate,
+    setStartDate,
+    setEndDate,
+    setGranularity,
+    setComparison,
+    setBaselineDate,
     clearAllFilters,
   };
 
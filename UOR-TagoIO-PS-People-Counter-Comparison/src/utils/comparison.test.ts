@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatPercentChange,
+  getBaselineBucketStart,
+  getBaselineKey,
+  getBaselinePeriod,
+  getPercentChange,
+  isBaselineKey,
+} from './comparison';
+
+describe('getBaselinePeriod', () => {
+  it('shifts the range back a week for the previous week', () => {
+    expect(getBaselinePeriod('2026-03-09', '2026-03-11', 'previous_week', '')).toEqual({
+      startDate: '2026-03-02',
+      endDate: '2026-03-04',
+      offsetDays: 7,
+    });
+  });
+
+  it('starts a range of the same length on the chosen baseline date', () => {
+    expect(getBaselinePeriod('2026-03-09', '2026-03-11', 'custom', '2026-02-25')).toEqual({
+      startDate: '2026-02-25',
+      endDate: '2026-02-27',
+      offsetDays: 12,
+    });
+  });
+
+  it('is null when not comparing or comparing the range with itself', () => {
+    expect(getBaselinePeriod('2026-03-09', '2026-03-11', 'none', '2026-02-25')).toBeNull();
+    expect(getBaselinePeriod('2026-03-09', '2026-03-11', 'custom', '')).toBeNull();
+    expect(getBaselinePeriod('2026-03-09', '2026-03-11', 'custom', '2026-03-09')).toBeNull();
+  });
+});
+
+describe('getBaselineBucketStart', () => {
+  it('lines up the same wall-clock time across a DST change', () => {
+    expect(getBaselineBucketStart(new Date('2026-03-09T13:00:00Z'), 7, 'America/New_York').toISOString())
+      .toBe('2026-03-02T14:00:00.000Z');
+  });
+});
+
+describe('baseline keys', () => {
+  it('marks the baseline series of a sensor', () => {
+    expect(getBaselineKey('Lobby')).toBe('Lobby (baseline)');
+    expect(isBaselineKey(getBaselineKey('Lobby'))).toBe(true);
+    expect(isBaselineKey('Lobby')).toBe(false);
+  });
+});
+
+describe('percent change', () => {
+  it('compares against the baseline', () => {
+    expect(getPercentChange(150, 100)).toBe(50);
+    expect(getPercentChange(50, 100)).toBe(-50);
+    expect(getPercentChange(10, 0)).toBeNull();
+  });
+
+  it('formats with a sign and one decimal', () => {
+    expect(formatPercentChange(12.345)).toBe('+12.3%');
+    expect(formatPercentChange(-4)).toBe('-4%');
+    expect(formatPercentChange(0)).toBe('0%');
+    expect(formatPercentChange(null)).toBe('n/a');
+  });
+});
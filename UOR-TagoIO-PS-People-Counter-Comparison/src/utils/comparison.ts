@@ -0,0 +1,76 @@
+import { daysBetween, shiftDateInputValue, shiftZonedTime } from './timeBuckets';
+
+// What the selected range is compared against
+export type ComparisonMode = 'none' | 'previous_week' | 'custom';
+
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  none: 'No comparison',
+  previous_week: 'Same days last week',
+  custom: 'Baseline starting on...',
+};
+
+export const COMPARISON_MODES: ComparisonMode[] = ['none', 'previous_week', 'custom'];
+
+export interface BaselinePeriod {
+  startDate: string;
+  endDate: string;
+  // Calendar days from each baseline bucket forward to the bucket it is compared with
+  offsetDays: number;
+}
+
+/**
+ * The baseline period for the selected range: the same days shifted back a week, or
+ * a range of the same length starting on the chosen baseline date. Null when not comparing.
+ */
+export const getBaselinePeriod = (
+  startDate: string,
+  endDate: string,
+  mode: ComparisonMode,
+  baselineDate: string
+): BaselinePeriod | null => {
+  let offsetDays: number;
+  if (mode === 'previous_week') {
+    offsetDays = 7;
+  } else if (mode === 'custom' && baselineDate) {
+    offsetDays = daysBetween(baselineDate, startDate);
+  } else {
+    return null;
+  }
+
+  if (offsetDays === 0) return null;
+
+  return {
+    startDate: shiftDateInputValue(startDate, -offsetDays),
+    endDate: shiftDateInputValue(endDate, -offsetDays),
+    offsetDays,
+  };
+};
+
+/**
+ * Start of the baseline bucket lined up with a bucket of the selected range: the same
+ * wall-clock time, offsetDays earlier
+ */
+export const getBaselineBucketStart = (bucketStart: Date, offsetDays: number, timeZone: string): Date => {
+  return shiftZonedTime(bucketStart, -offsetDays, timeZone);
+};
+
+const BASELINE_SUFFIX = ' (baseline)';
+
+// Chart / CSV column holding a sensor's baseline series
+export const getBaselineKey = (sensorName: string) => `${sensorName}${BASELINE_SUFFIX}`;
+
+export const isBaselineKey = (key: string) => key.endsWith(BASELINE_SUFFIX);
+
+/**
+ * Percent change from the baseline, or null when there is no baseline traffic to compare with
+ */
+export const getPercentChange = (current: number, baseline: number): number | null => {
+  if (!baseline) return null;
+  return ((current - baseline) / baseline) * 100;
+};
+
+export const formatPercentChange = (change: number | null): string => {
+  if (change === null) return 'n/a';
+  const rounded = Math.round(change * 10) / 10;
+  return `${rounded > 0 ? '+' : ''}${rounded}%`;
+};
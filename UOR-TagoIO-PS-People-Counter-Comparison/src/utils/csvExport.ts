@@ -1,4 +1,6 @@
 import Papa from 'papaparse';
+import { Granularity, formatBucketLabel, formatZonedTimestamp } from './timeBuckets';
+import { getBaselineBucketStart, getBaselineKey, getPercentChange } from './comparison';
 
 export interface SensorExportData {
   sensorId: string;
@@ -9,9 +11,36 @@ export interface SensorExportData {
   floor: string;
   designation: string;
   roomType: string;
-  hourlyData: { [hour: string]: number };
+  bucketData: { [bucketStart: string]: number };
+  // The same sensor over the baseline period, when comparing periods
+  baselineBucketData?: { [bucketStart: string]: number };
+  // Set for groups: how members were combined and how many there are
+  aggregation?: string;
+  memberCount?: number;
 }
 
+// Selected date range (YYYY-MM-DD, both inclusive) and the timezone its days are cut in
+export interface ExportRange {
+  startDate: string;
+  endDate: string;
+  timeZone: string;
+}
+
+// Columns identifying the range and timezone, repeated on every row so a file stays self-describing
+const getRangeColumns = ({ startDate, endDate, timeZone }: ExportRange) => ({
+  rangeStart: startDate,
+  rangeEnd: endDate,
+  timeZone,
+});
+
+const RANGE_COLUMNS = ['rangeStart', 'rangeEnd', 'timeZone'];
+
+// Change from the baseline rounded for export; empty when the baseline had no traffic
+const formatChangeForExport = (current: number, baseline: number): number | '' => {
+  const change = getPercentChange(current, baseline);
+  return change === null ? '' : Math.round(change * 10) / 10;
+};
+
 export interface CSVRow {
   sensorName: string;
   park: string;
@@ -20,22 +49,66 @@ export interface CSVRow {
   floor: string;
   designation: string;
   roomType: string;
-  hour: string;
+  period: string;
   trafficCount: number;
   timestamp: string;
+  baselineTimestamp?: string;
+  baselineTrafficCount?: number;
+  changePercent?: number | '';
+  aggregation?: string;
+  memberCount?: number | '';
+  rangeStart: string;
+  rangeEnd: string;
+  timeZone: string;
+}
+
+// One device_period_in data point as received, for the raw export
+export interface RawExportRecord {
+  sensorName: string;
+  park: string;
+  world: string;
+  building: string;
+  floor: string;
+  designation: string;
+  roomType: string;
+  group: string;
+  time: string;
+  value: number;
+}
+
+const downloadCSV = (csv: string, filename: string) => {
+  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+  const link = document.createElement('a');
+  
+  if (link.download !== undefined) {
+    const url = URL.createObjectURL(blob);
+    link.setAttribute('href', url);
+    link.setAttribute('download', filename);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  }
+};
+
+export interface SensorExportOptions extends ExportRange {
+  granularity: Granularity;
+  // Set when comparing periods, to add the baseline and change columns
+  baselineOffsetDays: number | null;
 }
 
-export const exportSensorDataToCSV = (sensors: SensorExportData[], filename?: string) => {
+export const exportSensorDataToCSV = (
+  sensors: SensorExportData[],
+  { granularity, baselineOffsetDays, ...range }: SensorExportOptions,
+  filename?: string
+) => {
+  const { timeZone } = range;
+  const hasGroups = sensors.some(sensor => sensor.memberCount !== undefined);
   const csvData: CSVRow[] = [];
   
   sensors.forEach(sensor => {
-    Object.entries(sensor.hourlyData).forEach(([hour, count]) => {
-      // Create a timestamp for the hour (using today's date)
-      const today = new Date();
-      const [hourNum] = hour.split(':');
-      const timestamp = new Date(today.getFullYear(), today.getMonth(), today.getDate(), parseInt(hourNum));
-      
-      csvData.push({
+    Object.entries(sensor.bucketData).forEach(([bucketStart, count]) => {
+      const row: CSVRow = {
         sensorName: sensor.sensorName,
         park: sensor.park,
         world: sensor.world,
@@ -43,19 +116,34 @@ export const exportSensorDataToCSV = (sensors: SensorExportData[], filename?: st
         floor: sensor.floor || '',
         designation: sensor.designation || '',
         roomType: sensor.roomType || '',
-        hour: hour,
+        period: formatBucketLabel(new Date(bucketStart), granularity, true, timeZone),
         trafficCount: count,
-        timestamp: timestamp.toISOString()
-      });
+        timestamp: formatZonedTimestamp(new Date(bucketStart), timeZone),
+        ...getRangeColumns(range)
+      };
+
+      if (baselineOffsetDays !== null) {
+        const baselineStart = getBaselineBucketStart(new Date(bucketStart), baselineOffsetDays, timeZone);
+        row.baselineTimestamp = formatZonedTimestamp(baselineStart, timeZone);
+        row.baselineTrafficCount = sensor.baselineBucketData?.[baselineStart.toISOString()] || 0;
+        row.changePercent = formatChangeForExport(count, row.baselineTrafficCount);
+      }
+
+      if (hasGroups) {
+        row.aggregation = sensor.aggregation || '';
+        row.memberCount = sensor.memberCount ?? '';
+      }
+
+      csvData.push(row);
     });
   });
   
-  // Sort by sensor name, then by hour
+  // Sort by sensor name, then by time
   csvData.sort((a, b) => {
     if (a.sensorName !== b.sensorName) {
       return a.sensorName.localeCompare(b.sensorName);
     }
-    return a.hour.localeCompare(b.hour);
+    return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
   });
   
   // Convert to CSV
@@ -69,40 +157,48 @@ export const exportSensorDataToCSV = (sensors: SensorExportData[], filename?: st
       'floor', 
       'designation',
       'roomType',
-      'hour',
+      'period',
       'trafficCount',
-      'timestamp'
+      'timestamp',
+      ...(baselineOffsetDays !== null ? ['baselineTimestamp', 'baselineTrafficCount', 'changePercent'] : []),
+      ...(hasGroups ? ['aggregation', 'memberCount'] : []),
+      ...RANGE_COLUMNS
     ]
   });
   
-  // Create and download file
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  
-  if (link.download !== undefined) {
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename || `sensor-data-${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-  }
+  downloadCSV(csv, filename || `sensor-data-${new Date().toISOString().split('T')[0]}.csv`);
 };
 
-export const exportChartDataToCSV = (chartData: any[], selectedSensors: { sensorName: string }[], filename?: string) => {
+export const exportChartDataToCSV = (
+  chartData: any[],
+  selectedSensors: { sensorName: string }[],
+  { includeBaseline, ...range }: ExportRange & { includeBaseline: boolean },
+  filename?: string
+) => {
   if (!chartData.length || !selectedSensors.length) {
     console.warn('No data to export');
     return;
   }
   
+  const { timeZone } = range;
+
   // Transform chart data for CSV export
-  const csvData = chartData.map(hourData => {
-    const row: any = { hour: hourData.hour };
+  const csvData = chartData.map(bucketData => {
+    const row: any = { timestamp: formatZonedTimestamp(new Date(bucketData.bucket), timeZone), period: bucketData.label };
+    if (includeBaseline) {
+      row.baselineTimestamp = bucketData.baselineBucket ? formatZonedTimestamp(new Date(bucketData.baselineBucket), timeZone) : '';
+    }
     selectedSensors.forEach(sensor => {
-      row[sensor.sensorName] = hourData[sensor.sensorName] || 0;
+      const count = bucketData[sensor.sensorName] || 0;
+      row[sensor.sensorName] = count;
+      if (includeBaseline) {
+        const baselineKey = getBaselineKey(sensor.sensorName);
+        const baselineCount = bucketData[baselineKey] || 0;
+        row[baselineKey] = baselineCount;
+        row[`${sensor.sensorName} change %`] = formatChangeForExport(count, baselineCount);
+      }
     });
-    return row;
+    return { ...row, ...getRangeColumns(range) };
   });
   
   // Convert to CSV
@@ -110,17 +206,52 @@ export const exportChartDataToCSV = (chartData: any[], selectedSensors: { sensor
     header: true
   });
   
-  // Create and download file
-  const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-  const link = document.createElement('a');
-  
-  if (link.download !== undefined) {
-    const url = URL.createObjectURL(blob);
-    link.setAttribute('href', url);
-    link.setAttribute('download', filename || `sensor-comparison-${new Date().toISOString().split('T')[0]}.csv`);
-    link.style.visibility = 'hidden';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  downloadCSV(csv, filename || `sensor-comparison-${new Date().toISOString().split('T')[0]}.csv`);
+};
+
+/**
+ * Exports the device_period_in data points behind the chart, one row per point, without bucketing
+ */
+export const exportRawDataToCSV = (
+  records: RawExportRecord[],
+  range: ExportRange,
+  filename?: string
+) => {
+  if (!records.length) {
+    console.warn('No data to export');
+    return;
   }
-};
\ No newline at end of file
+
+  const csvData = records
+    .map(record => ({
+      ...record,
+      localTime: formatZonedTimestamp(new Date(record.time), range.timeZone),
+      ...getRangeColumns(range)
+    }))
+    .sort((a, b) => {
+      if (a.sensorName !== b.sensorName) {
+        return a.sensorName.localeCompare(b.sensorName);
+      }
+      return new Date(a.time).getTime() - new Date(b.time).getTime();
+    });
+
+  const csv = Papa.unparse(csvData, {
+    header: true,
+    columns: [
+      'sensorName',
+      'park',
+      'world',
+      'building',
+      'floor',
+      'designation',
+      'roomType',
+      'group',
+      'time',
+      'localTime',
+      'value',
+      ...RANGE_COLUMNS
+    ]
+  });
+
+  downloadCSV(csv, filename || `sensor-raw-data-${new Date().toISOString().split('T')[0]}.csv`);
+};
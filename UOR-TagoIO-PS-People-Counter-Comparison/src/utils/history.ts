@@ -0,0 +1,96 @@
+// Widget parameter (Display > Parameters in the TagoIO widget editor) with a device token for loading history
+export const DEVICE_TOKEN_PARAMETER = 'device_token';
+
+// Widget parameter overriding the API address, for accounts outside the default region
+export const API_URL_PARAMETER = 'api_url';
+
+export const DEFAULT_API_URL = 'https://api.tago.io';
+
+// Variables processRealtimeData reads from a sensor's group
+export const SENSOR_VARIABLES = [
+  'device_period_in',
+  'device_name',
+  'park',
+  'world',
+  'building',
+  'floor',
+  'designation',
+  'room_type',
+];
+
+export const HISTORY_PAGE_SIZE = 10000;
+
+// Points one history request loads at most; past it the oldest part of the range is left out
+export const MAX_HISTORY_POINTS = 200000;
+
+export interface HistoryConfig {
+  token: string;
+  apiUrl: string;
+}
+
+export interface HistoryPage {
+  points: any[];
+  // True when the range held more than MAX_HISTORY_POINTS points
+  truncated: boolean;
+}
+
+const readParameter = (widget: any, key: string): string => {
+  const parameters = widget?.display?.parameters;
+  if (!Array.isArray(parameters)) return '';
+  return String(parameters.find((p: any) => p?.key === key)?.value ?? '').trim();
+};
+
+/**
+ * Reads the history parameters from the widget config. TagoIO passes parameters
+ * as a list of { key, value } pairs under display.parameters. Without a token there is no history.
+ */
+export const readHistoryConfig = (widget: any): HistoryConfig | null => {
+  const token = readParameter(widget, DEVICE_TOKEN_PARAMETER);
+  if (!token) return null;
+
+  const apiUrl = readParameter(widget, API_URL_PARAMETER) || DEFAULT_API_URL;
+  return { token, apiUrl: apiUrl.replace(/\/+$/, '') };
+};
+
+const buildDataUrl = (config: HistoryConfig, startMs: number, endMs: number, skip: number): string => {
+  const params = new URLSearchParams();
+  SENSOR_VARIABLES.forEach((variable, index) => params.append(`variables[${index}]`, variable));
+  params.set('start_date', new Date(startMs).toISOString());
+  params.set('end_date', new Date(endMs).toISOString());
+  params.set('qty', String(HISTORY_PAGE_SIZE));
+  params.set('skip', String(skip));
+  return `${config.apiUrl}/data?${params.toString()}`;
+};
+
+const fetchPage = async (config: HistoryConfig, startMs: number, endMs: number, skip: number): Promise<any[]> => {
+  const response = await fetch(buildDataUrl(config, startMs, endMs, skip), {
+    headers: { token: config.token },
+  });
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok || !body || body.status === false) {
+    throw new Error(body?.message || `TagoIO API returned ${response.status}`);
+  }
+  if (!Array.isArray(body.result)) {
+    throw new Error('TagoIO API returned no data list');
+  }
+  return body.result;
+};
+
+/**
+ * Loads the sensor data points between startMs and endMs from the device API, newest first,
+ * a page at a time until a short page comes back
+ */
+export const fetchSensorHistory = async (config: HistoryConfig, startMs: number, endMs: number): Promise<HistoryPage> => {
+  const points: any[] = [];
+
+  for (let skip = 0; skip < MAX_HISTORY_POINTS; skip += HISTORY_PAGE_SIZE) {
+    const page = await fetchPage(config, startMs, endMs, skip);
+    points.push(...page);
+    if (page.length < HISTORY_PAGE_SIZE) {
+      return { points, truncated: false };
+    }
+  }
+
+  return { points, truncated: true };
+};
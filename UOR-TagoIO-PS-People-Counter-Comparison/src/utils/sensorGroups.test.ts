@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { ProcessedSensorData, SensorInfo } from '../hooks/useSensorData';
+import {
+  SensorGroup,
+  aggregateGroupBuckets,
+  getGroupId,
+  getGroupMembers,
+  getGroupName,
+  getSeriesBucketData,
+  matchesSensorGroup,
+} from './sensorGroups';
+
+const sensor = (sensorId: string, sensorName: string, info: Partial<SensorInfo> = {}): SensorInfo => ({
+  sensorId,
+  sensorName,
+  park: 'Epic Universe',
+  world: 'World X',
+  building: 'B1',
+  floor: '1',
+  designation: 'Men',
+  roomType: 'Restroom',
+  ...info,
+});
+
+const processed = (info: SensorInfo, bucketData: ProcessedSensorData['bucketData']): ProcessedSensorData => ({
+  ...info,
+  bucketData,
+});
+
+const filter = (values: Partial<SensorGroup['filter']> = {}): SensorGroup['filter'] => ({
+  world: '',
+  building: '',
+  floor: '',
+  designation: '',
+  roomType: '',
+  ...values,
+});
+
+const north = sensor('s1', 'North Restroom');
+const south = sensor('s2', 'South Restroom', { designation: 'Women' });
+const office = sensor('s3', 'Office', { world: 'World Y', roomType: 'Office' });
+const sensors = [south, office, north];
+
+const T1 = '2026-03-09T13:00:00.000Z';
+const T2 = '2026-03-09T14:00:00.000Z';
+
+describe('group ids and names', () => {
+  it('ids a group by its filter and aggregation', () => {
+    const group: SensorGroup = { filter: filter({ world: 'World X', roomType: 'Restroom' }), aggregation: 'average' };
+
+    expect(getGroupId(group)).toBe('group:average:World X||||Restroom');
+    expect(getGroupId({ ...group, aggregation: 'sum' })).not.toBe(getGroupId(group));
+    expect(getGroupName(group)).toBe('World X / Restroom (Average)');
+  });
+});
+
+describe('group members', () => {
+  it('matches sensors on every filled filter field', () => {
+    expect(matchesSensorGroup(north, filter({ world: 'World X', designation: 'Men' }))).toBe(true);
+    expect(matchesSensorGroup(south, filter({ world: 'World X', designation: 'Men' }))).toBe(false);
+    expect(matchesSensorGroup(office, filter())).toBe(true);
+  });
+
+  it('lists members by name', () => {
+    expect(getGroupMembers(sensors, filter({ roomType: 'Restroom' })).map(member => member.sensorId)).toEqual(['s1', 's2']);
+  });
+});
+
+describe('aggregateGroupBuckets', () => {
+  const data = [
+    processed(north, { [T1]: 4, [T2]: 1 }),
+    processed(south, { [T1]: 2 }),
+    processed(office, { [T1]: 100 }),
+  ];
+
+  it('sums the members', () => {
+    expect(aggregateGroupBuckets([north, south], data, 'sum')).toEqual({ [T1]: 6, [T2]: 1 });
+  });
+
+  it('averages over every member, counting missing buckets as zero', () => {
+    expect(aggregateGroupBuckets([north, south], data, 'average')).toEqual({ [T1]: 3, [T2]: 0.5 });
+  });
+
+  it('counts members without data in the period in the divisor', () => {
+    const missing = sensor('s4', 'West Restroom');
+    expect(aggregateGroupBuckets([north, south, missing], data, 'average')).toEqual({ [T1]: 2, [T2]: 0.3 });
+  });
+
+  it('is empty for a group without members', () => {
+    expect(aggregateGroupBuckets([], data, 'average')).toEqual({});
+  });
+});
+
+describe('getSeriesBucketData', () => {
+  const data = [processed(north, { [T1]: 4 }), processed(south, { [T1]: 2 })];
+
+  it('returns the buckets of a single sensor', () => {
+    expect(getSeriesBucketData({ sensorId: 's1' }, data, sensors)).toEqual({ [T1]: 4 });
+    expect(getSeriesBucketData({ sensorId: 's3' }, data, sensors)).toEqual({});
+  });
+
+  it('combines the members of a group', () => {
+    const group: SensorGroup = { filter: filter({ roomType: 'Restroom' }), aggregation: 'sum' };
+    expect(getSeriesBucketData({ sensorId: getGroupId(group), group }, data, sensors)).toEqual({ [T1]: 6 });
+  });
+});
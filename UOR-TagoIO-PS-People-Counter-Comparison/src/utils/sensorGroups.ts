@@ -0,0 +1,98 @@
+import { ProcessedSensorData, SensorInfo } from '../hooks/useSensorData';
+
+// How a group's member sensors are combined into one series
+export type GroupAggregation = 'sum' | 'average';
+
+export const AGGREGATION_LABELS: Record<GroupAggregation, string> = {
+  sum: 'Sum',
+  average: 'Average',
+};
+
+export const AGGREGATIONS: GroupAggregation[] = ['sum', 'average'];
+
+// Location filter selecting a group's members; empty fields match any value
+export interface SensorGroupFilter {
+  world: string;
+  building: string;
+  floor: string;
+  designation: string;
+  roomType: string;
+}
+
+export interface SensorGroup {
+  filter: SensorGroupFilter;
+  aggregation: GroupAggregation;
+}
+
+const FILTER_FIELDS: (keyof SensorGroupFilter)[] = ['world', 'building', 'floor', 'designation', 'roomType'];
+
+/**
+ * Id of the virtual sensor for a group, stable for the same filter and aggregation so a group
+ * can't be selected twice and never collides with a device group id
+ */
+export const getGroupId = ({ filter, aggregation }: SensorGroup): string => {
+  return `group:${aggregation}:${FILTER_FIELDS.map(field => filter[field]).join('|')}`;
+};
+
+// Series name shown in the legend, tooltip and exports, e.g. "World X / Restroom (Average)"
+export const getGroupName = ({ filter, aggregation }: SensorGroup): string => {
+  const parts = FILTER_FIELDS.map(field => filter[field]).filter(Boolean);
+  return `${parts.join(' / ')} (${AGGREGATION_LABELS[aggregation]})`;
+};
+
+export const matchesSensorGroup = (sensor: SensorGroupFilter, filter: SensorGroupFilter): boolean => {
+  return FILTER_FIELDS.every(field => !filter[field] || sensor[field] === filter[field]);
+};
+
+/**
+ * Sensors in the group, out of every sensor the widget knows, so membership doesn't change with
+ * the range and a period without traffic from a member still counts it
+ */
+export const getGroupMembers = (sensors: SensorInfo[], filter: SensorGroupFilter): SensorInfo[] => {
+  return sensors
+    .filter(sensor => matchesSensorGroup(sensor, filter))
+    .sort((a, b) => a.sensorName.localeCompare(b.sensorName));
+};
+
+/**
+ * Combines the members' buckets from the processed data of a period. Averages divide by the
+ * number of members, so a member with no traffic in a bucket, or no data in the period at all,
+ * counts as zero and the current and baseline periods share the same divisor.
+ */
+export const aggregateGroupBuckets = (
+  members: SensorInfo[],
+  processedData: ProcessedSensorData[],
+  aggregation: GroupAggregation
+): { [bucketStart: string]: number } => {
+  const memberIds = new Set(members.map(member => member.sensorId));
+  const totals: { [bucketStart: string]: number } = {};
+  processedData
+    .filter(sensor => memberIds.has(sensor.sensorId))
+    .forEach(sensor => {
+      Object.entries(sensor.bucketData).forEach(([bucketStart, count]) => {
+        totals[bucketStart] = (totals[bucketStart] || 0) + count;
+      });
+    });
+
+  if (aggregation === 'average' && members.length > 0) {
+    Object.keys(totals).forEach(bucketStart => {
+      totals[bucketStart] = Math.round((totals[bucketStart] / members.length) * 10) / 10;
+    });
+  }
+
+  return totals;
+};
+
+/**
+ * Buckets behind a selected series in a period: the sensor's own, or its group's members combined
+ */
+export const getSeriesBucketData = (
+  sensor: { sensorId: string, group?: SensorGroup },
+  processedData: ProcessedSensorData[],
+  sensors: SensorInfo[]
+): { [bucketStart: string]: number } => {
+  if (sensor.group) {
+    return aggregateGroupBuckets(getGroupMembers(sensors, sensor.group.filter), processedData, sensor.group.aggregation);
+  }
+  return processedData.find(s => s.sensorId === sensor.sensorId)?.bucketData || {};
+};
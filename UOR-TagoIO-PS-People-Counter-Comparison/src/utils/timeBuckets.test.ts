@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  daysBetween,
+  formatBucketLabel,
+  formatZonedTimestamp,
+  getBucketKey,
+  getDateRange,
+  getWeekday,
+  isMultiDayRange,
+  listBucketStarts,
+  shiftDateInputValue,
+  shiftZonedTime,
+  toDateInputValue,
+} from './timeBuckets';
+
+const NEW_YORK = 'America/New_York';
+const KOLKATA = 'Asia/Kolkata';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('date input values', () => {
+  it('formats instants as the calendar date in the timezone', () => {
+    expect(toDateInputValue(new Date('2026-03-08T03:00:00Z'), NEW_YORK)).toBe('2026-03-07');
+    expect(toDateInputValue(new Date('2026-03-08T03:00:00Z'), 'UTC')).toBe('2026-03-08');
+  });
+
+  it('shifts and compares calendar days', () => {
+    expect(shiftDateInputValue('2026-02-28', 1)).toBe('2026-03-01');
+    expect(shiftDateInputValue('2026-01-01', -1)).toBe('2025-12-31');
+    expect(daysBetween('2026-03-01', '2026-03-08')).toBe(7);
+    expect(daysBetween('2026-03-08', '2026-03-01')).toBe(-7);
+    expect(getWeekday('2026-10-18')).toBe(0);
+  });
+});
+
+describe('getDateRange', () => {
+  it('runs from midnight of the first day to midnight after the last day', () => {
+    expect(getDateRange('2026-01-05', '2026-01-06', NEW_YORK)).toEqual({
+      startMs: Date.parse('2026-01-05T05:00:00Z'),
+      endMs: Date.parse('2026-01-07T05:00:00Z'),
+    });
+  });
+
+  it('follows DST changes', () => {
+    const springForward = getDateRange('2026-03-08', '2026-03-08', NEW_YORK);
+    const fallBack = getDateRange('2026-11-01', '2026-11-01', NEW_YORK);
+
+    expect(springForward.endMs - springForward.startMs).toBe(23 * HOUR_MS);
+    expect(fallBack.endMs - fallBack.startMs).toBe(25 * HOUR_MS);
+  });
+});
+
+describe('getBucketKey', () => {
+  it('keys buckets by their start as an ISO string', () => {
+    expect(getBucketKey('2026-03-09T13:47:12.345Z', '15min', NEW_YORK)).toBe('2026-03-09T13:45:00.000Z');
+    expect(getBucketKey('2026-03-09T13:47:12.345Z', 'hour', NEW_YORK)).toBe('2026-03-09T13:00:00.000Z');
+  });
+
+  it('starts days at midnight in the timezone', () => {
+    expect(getBucketKey('2026-03-08T03:00:00Z', 'day', NEW_YORK)).toBe('2026-03-07T05:00:00.000Z');
+  });
+
+  it('cuts hours on the wall clock of half-hour offsets', () => {
+    // 15:40 in Kolkata (UTC+5:30) belongs to the bucket starting at 15:00 local time
+    expect(getBucketKey('2026-01-01T10:10:00Z', 'hour', KOLKATA)).toBe('2026-01-01T09:30:00.000Z');
+  });
+});
+
+describe('listBucketStarts', () => {
+  it('lists every bucket in the range', () => {
+    const range = getDateRange('2026-01-05', '2026-01-07', NEW_YORK);
+    expect(listBucketStarts(range, 'day', NEW_YORK)).toHaveLength(3);
+    expect(listBucketStarts(range, 'hour', NEW_YORK)).toHaveLength(72);
+    expect(listBucketStarts(range, '15min', NEW_YORK)).toHaveLength(288);
+  });
+
+  it('has 23 and 25 hourly buckets on DST change days, keeping the repeated hour apart', () => {
+    expect(listBucketStarts(getDateRange('2026-03-08', '2026-03-08', NEW_YORK), 'hour', NEW_YORK)).toHaveLength(23);
+
+    const fallBack = listBucketStarts(getDateRange('2026-11-01', '2026-11-01', NEW_YORK), 'hour', NEW_YORK);
+    expect(fallBack).toHaveLength(25);
+    expect(fallBack.filter(start => formatBucketLabel(start, 'hour', false, NEW_YORK) === '01:00')).toHaveLength(2);
+  });
+
+  it('steps whole days across DST changes', () => {
+    const days = listBucketStarts(getDateRange('2026-03-07', '2026-03-09', NEW_YORK), 'day', NEW_YORK);
+    expect(days.map(day => toDateInputValue(day, NEW_YORK))).toEqual(['2026-03-07', '2026-03-08', '2026-03-09']);
+  });
+});
+
+describe('isMultiDayRange', () => {
+  it('is true once the range covers more than one day', () => {
+    expect(isMultiDayRange(getDateRange('2026-01-05', '2026-01-05', NEW_YORK), NEW_YORK)).toBe(false);
+    expect(isMultiDayRange(getDateRange('2026-01-05', '2026-01-06', NEW_YORK), NEW_YORK)).toBe(true);
+  });
+});
+
+describe('shiftZonedTime', () => {
+  it('keeps the wall-clock time across a DST change', () => {
+    // 09:00 EDT on March 9 lines up with 09:00 EST a week earlier
+    expect(shiftZonedTime(new Date('2026-03-09T13:00:00Z'), -7, NEW_YORK).toISOString()).toBe('2026-03-02T14:00:00.000Z');
+  });
+});
+
+describe('formatting', () => {
+  it('labels sub-day buckets with the time, and the date on multi-day ranges', () => {
+    const start = new Date('2026-03-09T17:45:00Z');
+    expect(formatBucketLabel(start, '15min', false, NEW_YORK)).toBe('13:45');
+    expect(formatBucketLabel(start, '15min', true, NEW_YORK)).toBe('03/09 13:45');
+    expect(formatBucketLabel(start, 'day', false, NEW_YORK)).toContain('03/09');
+  });
+
+  it('stamps times with the UTC offset of the timezone', () => {
+    expect(formatZonedTimestamp(new Date('2026-03-09T17:45:00Z'), NEW_YORK)).toBe('2026-03-09T13:45:00-04:00');
+    expect(formatZonedTimestamp(new Date('2026-01-01T10:10:00Z'), KOLKATA)).toBe('2026-01-01T15:40:00+05:30');
+  });
+});
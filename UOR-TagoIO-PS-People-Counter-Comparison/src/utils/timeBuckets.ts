@@ -0,0 +1,234 @@
+export type Granularity = 'day' | 'hour' | '15min';
+
+export const GRANULARITY_LABELS: Record<Granularity, string> = {
+  day: 'Daily',
+  hour: 'Hourly',
+  '15min': '15-Minute',
+};
+
+export const GRANULARITIES: Granularity[] = ['day', 'hour', '15min'];
+
+export interface DateRange {
+  // Inclusive start of the first day, in ms
+  startMs: number;
+  // Exclusive end: the start of the day after the last day, in ms
+  endMs: number;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Bucket length for the sub-day granularities; every UTC offset is a multiple of 15 minutes
+const BUCKET_MINUTES: Record<Exclude<Granularity, 'day'>, number> = {
+  hour: 60,
+  '15min': 15,
+};
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+const getZonedParts = (ms: number, timeZone: string): ZonedParts => {
+  const parts: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(new Date(ms)).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  });
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+};
+
+const getOffsetMs = (ms: number, timeZone: string): number => {
+  const parts = getZonedParts(ms, timeZone);
+  const asUtc = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return asUtc - Math.floor(ms / 1000) * 1000;
+};
+
+/**
+ * The instant a wall-clock time occurs in a timezone. Times skipped by a DST change
+ * resolve to the instant just after the gap.
+ */
+const zonedTimeToMs = (year: number, month: number, day: number, hour: number, minute: number, timeZone: string): number => {
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  const firstGuess = asUtc - getOffsetMs(asUtc, timeZone);
+  return asUtc - getOffsetMs(firstGuess, timeZone);
+};
+
+const parseDateInputValue = (value: string): { year: number, month: number, day: number } => {
+  const [year, month, day] = value.split('-').map(Number);
+  return { year, month, day };
+};
+
+/**
+ * Formats an instant as YYYY-MM-DD in the timezone, the format used by date inputs
+ */
+export const toDateInputValue = (date: Date, timeZone: string): string => {
+  const parts = getZonedParts(date.getTime(), timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+/**
+ * Moves a YYYY-MM-DD date by a number of calendar days
+ */
+export const shiftDateInputValue = (value: string, days: number): string => {
+  const { year, month, day } = parseDateInputValue(value);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+};
+
+/**
+ * Calendar days from one YYYY-MM-DD date to another
+ */
+export const daysBetween = (from: string, to: string): number => {
+  const toUtc = (value: string) => {
+    const { year, month, day } = parseDateInputValue(value);
+    return Date.UTC(year, month - 1, day);
+  };
+  return Math.round((toUtc(to) - toUtc(from)) / DAY_MS);
+};
+
+/**
+ * Day of the week of a YYYY-MM-DD date, 0 for Sunday
+ */
+export const getWeekday = (value: string): number => {
+  const { year, month, day } = parseDateInputValue(value);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+};
+
+const startOfZonedDay = (value: string, timeZone: string): number => {
+  const { year, month, day } = parseDateInputValue(value);
+  return zonedTimeToMs(year, month, day, 0, 0, timeZone);
+};
+
+/**
+ * Turns a start / end date pair (YYYY-MM-DD, both inclusive) into bounds at midnight in the timezone
+ */
+export const getDateRange = (startDate: string, endDate: string, timeZone: string): DateRange => {
+  return {
+    startMs: startOfZonedDay(startDate, timeZone),
+    endMs: startOfZonedDay(shiftDateInputValue(endDate, 1), timeZone),
+  };
+};
+
+/**
+ * Start of the bucket a time falls in. Days start at midnight in the timezone; hours and
+ * quarter hours are cut on the wall clock, which also keeps the repeated hour of a DST
+ * change as a bucket of its own.
+ */
+export const getBucketStart = (time: Date, granularity: Granularity, timeZone: string): Date => {
+  const ms = time.getTime();
+  const parts = getZonedParts(ms, timeZone);
+
+  if (granularity === 'day') {
+    return new Date(zonedTimeToMs(parts.year, parts.month, parts.day, 0, 0, timeZone));
+  }
+
+  const intoBucketMs = (parts.minute % BUCKET_MINUTES[granularity]) * MINUTE_MS + parts.second * 1000 + (ms % 1000);
+  return new Date(ms - intoBucketMs);
+};
+
+/**
+ * Buckets are keyed by their start time as an ISO string, so keys sort chronologically
+ * and still carry the real date when the range spans several days.
+ */
+export const getBucketKey = (time: string | Date, granularity: Granularity, timeZone: string): string => {
+  return getBucketStart(new Date(time), granularity, timeZone).toISOString();
+};
+
+const nextBucketStart = (start: Date, granularity: Granularity, timeZone: string): Date => {
+  if (granularity === 'day') {
+    // Days are 23 or 25 hours long across DST changes, so step the calendar instead
+    const next = shiftDateInputValue(toDateInputValue(start, timeZone), 1);
+    return new Date(startOfZonedDay(next, timeZone));
+  }
+  return new Date(start.getTime() + BUCKET_MINUTES[granularity] * MINUTE_MS);
+};
+
+/**
+ * Every bucket start in the range, in order
+ */
+export const listBucketStarts = (range: DateRange, granularity: Granularity, timeZone: string): Date[] => {
+  const starts: Date[] = [];
+  for (
+    let start = getBucketStart(new Date(range.startMs), granularity, timeZone);
+    start.getTime() < range.endMs;
+    start = nextBucketStart(start, granularity, timeZone)
+  ) {
+    starts.push(start);
+  }
+  return starts;
+};
+
+/**
+ * The same wall-clock time a number of calendar days later (negative for earlier)
+ */
+export const shiftZonedTime = (time: Date, days: number, timeZone: string): Date => {
+  const parts = getZonedParts(time.getTime(), timeZone);
+  const { year, month, day } = parseDateInputValue(shiftDateInputValue(`${parts.year}-${pad(parts.month)}-${pad(parts.day)}`, days));
+  return new Date(zonedTimeToMs(year, month, day, parts.hour, parts.minute, timeZone));
+};
+
+/**
+ * Axis / tooltip label for a bucket. The date is included once the range covers more than one day.
+ */
+export const formatBucketLabel = (start: Date, granularity: Granularity, multiDay: boolean, timeZone: string): string => {
+  const parts = getZonedParts(start.getTime(), timeZone);
+  const date = `${pad(parts.month)}/${pad(parts.day)}`;
+  const time = `${pad(parts.hour)}:${pad(parts.minute)}`;
+
+  if (granularity === 'day') {
+    return `${start.toLocaleDateString(undefined, { weekday: 'short', timeZone })} ${date}`;
+  }
+  return multiDay ? `${date} ${time}` : time;
+};
+
+/**
+ * ISO 8601 time with the timezone's UTC offset, e.g. 2026-03-08T13:45:00-04:00
+ */
+export const formatZonedTimestamp = (time: Date, timeZone: string): string => {
+  const ms = time.getTime();
+  const parts = getZonedParts(ms, timeZone);
+  const offsetMinutes = Math.round(getOffsetMs(ms, timeZone) / MINUTE_MS);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const offset = `${sign}${pad(Math.floor(Math.abs(offsetMinutes) / 60))}:${pad(Math.abs(offsetMinutes) % 60)}`;
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}:${pad(parts.second)}${offset}`;
+};
+
+export const isMultiDayRange = (range: DateRange, timeZone: string): boolean => {
+  return listBucketStarts(range, 'day', timeZone).length > 1;
+};
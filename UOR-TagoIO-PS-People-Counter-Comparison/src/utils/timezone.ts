@@ -0,0 +1,69 @@
+import { SensorData } from '../WidgetView';
+
+// Widget parameter (Display > Parameters in the TagoIO widget editor) with the site's IANA timezone
+export const TIMEZONE_PARAMETER = 'timezone';
+
+// Data point metadata key that sets the timezone of a sensor's park
+export const TIMEZONE_METADATA_KEY = 'timezone';
+
+export type TimezoneSource = 'park' | 'widget' | 'browser';
+
+export interface SiteTimezone {
+  timeZone: string;
+  source: TimezoneSource;
+}
+
+export const isValidTimeZone = (timeZone: unknown): timeZone is string => {
+  if (typeof timeZone !== 'string' || !timeZone.trim()) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch (error) {
+    return false;
+  }
+};
+
+export const getBrowserTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Reads the timezone parameter from the widget config. TagoIO passes parameters
+ * as a list of { key, value } pairs under display.parameters.
+ */
+export const readTimezoneParameter = (widget: any): string | null => {
+  const parameters = widget?.display?.parameters;
+  if (!Array.isArray(parameters)) return null;
+
+  const value = String(parameters.find((p: any) => p?.key === TIMEZONE_PARAMETER)?.value ?? '').trim();
+  return isValidTimeZone(value) ? value : null;
+};
+
+/**
+ * Timezones set per park through data point metadata. The first valid value seen for a park wins.
+ */
+export const getParkTimezones = (sensorData: SensorData[]): Record<string, string> => {
+  const timezones: Record<string, string> = {};
+  sensorData.forEach(record => {
+    const timeZone = record.metadata?.[TIMEZONE_METADATA_KEY];
+    if (record.park && !timezones[record.park] && isValidTimeZone(timeZone)) {
+      timezones[record.park] = timeZone;
+    }
+  });
+  return timezones;
+};
+
+/**
+ * Timezone used for day boundaries, buckets and export timestamps: the park's own timezone
+ * from metadata, then the widget parameter, then the browser's timezone.
+ */
+export const resolveSiteTimezone = (widget: any, parkTimezones: Record<string, string>, park: string | null): SiteTimezone => {
+  if (park && parkTimezones[park]) {
+    return { timeZone: parkTimezones[park], source: 'park' };
+  }
+
+  const parameter = readTimezoneParameter(widget);
+  if (parameter) {
+    return { timeZone: parameter, source: 'widget' };
+  }
+
+  return { timeZone: getBrowserTimeZone(), source: 'browser' };
+};
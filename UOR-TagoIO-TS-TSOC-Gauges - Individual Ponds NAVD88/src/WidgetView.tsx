@@ -1,7 +1,18 @@
-import { useEffect, useState } from 'preact/hooks'
+import { useEffect, useRef, useState } from 'preact/hooks'
 import { createContext } from 'preact'
 import App from './app'
 import { isDevelopmentMode, mockWaterLevelTagoIOData } from './utils/mockData'
+import {
+  DiagnosticsDrawer,
+  DiagnosticsEvent,
+  appendDiagnosticsEvent,
+  countPoints,
+  createDiagnosticsEvent,
+  finishDiagnosticsEvent,
+  isDiagnosticsEnabled,
+  recordAccepted,
+  recordIssue
+} from 'uor-tagoio-widget-diagnostics'
 import "@tago-io/custom-widget"
 import "@tago-io/custom-widget/dist/custom-widget.css"
 
@@ -51,14 +62,19 @@ export const WidgetView = () => {
   const [isLoading, setIsLoading] = useState(true)
   const [widget, setWidget] = useState<any>(null)
   const [realtimeEventCount, setRealtimeEventCount] = useState(0)
+  const [diagnosticsEvents, setDiagnosticsEvents] = useState<DiagnosticsEvent[]>([])
+  const diagnosticsIdRef = useRef(0)
 
   const processRealtimeData = (realtimeData: any) => {
+    const startedAt = performance.now()
+    const diagnostics = createDiagnosticsEvent(++diagnosticsIdRef.current)
     const newWaterLevelData: EntityWaterLevelData[] = []
     
     realtimeData.forEach(function(dataGroup: any) {
       if (dataGroup.result) {
         // Group variables by group ID for water level records
         const variablesByGroup: { [key: string]: any } = {}
+        countPoints(diagnostics, dataGroup.result)
         
         dataGroup.result.forEach(function(dataPoint: any) {
           const groupKey = dataPoint.group || new Date().toISOString()
@@ -124,12 +140,19 @@ export const WidgetView = () => {
             }
             
             newWaterLevelData.push(waterLevelRecord)
+            recordAccepted(diagnostics)
+          } else {
+            const missing = [!variables.name && 'name', variables.navd_current_we === undefined && 'navd_current_we'].filter(Boolean)
+            recordIssue(diagnostics, 'rejected', null, `Group is missing ${missing.join(' and ')}`, groupKey)
           }
         })
+      } else {
+        recordIssue(diagnostics, 'rejected', null, 'Realtime entry has no result array')
       }
     })
 
     console.log(`✅ Created ${newWaterLevelData.length} water level records`)
+    diagnostics.notes.push(`Created ${newWaterLevelData.length} water level records`)
     setRealtimeEventCount(prev => prev + 1)
 
     if (newWaterLevelData.length > 0) {
@@ -148,9 +171,12 @@ export const WidgetView = () => {
       const sortedData = uniqueData.sort((a, b) => a.name.localeCompare(b.name))
 
       console.log(`✅ After deduplication: ${sortedData.length} unique ponds`)
+      diagnostics.notes.push(`After deduplication: ${sortedData.length} unique ponds`)
       setWaterLevelData(sortedData)
       setIsLoading(false)
     }
+
+    setDiagnosticsEvents(prev => appendDiagnosticsEvent(prev, finishDiagnosticsEvent(diagnostics, startedAt)))
   }
 
   useEffect(() => {
@@ -208,9 +234,13 @@ export const WidgetView = () => {
     realtimeEventCount
   }
 
+  // Shown when the widget has the diagnostics parameter set, and always in development
+  const showDiagnostics = isDevelopmentMode() || isDiagnosticsEnabled(widget)
+
   return (
     <WidgetContext.Provider value={contextValue}>
       <App />
+      {showDiagnostics && <DiagnosticsDrawer events={diagnosticsEvents} />}
     </WidgetContext.Provider>
   )
 }
\ No newline at end of file
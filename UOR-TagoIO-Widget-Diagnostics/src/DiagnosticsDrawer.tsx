@@ -0,0 +1,97 @@
+import { useState } from 'preact/hooks'
+import { DiagnosticsEvent, summarizeIssues } from './diagnostics'
+import './DiagnosticsDrawer.css'
+
+interface DiagnosticsDrawerProps {
+  events: DiagnosticsEvent[]
+}
+
+const DiagnosticsEventCard = ({ event, defaultOpen }: { event: DiagnosticsEvent, defaultOpen: boolean }) => {
+  const [isOpen, setIsOpen] = useState(defaultOpen)
+  const pointCount = Object.values(event.pointsByVariable).reduce((sum, count) => sum + count, 0)
+  const decompressionFailures = event.issues.filter(issue => issue.kind === 'decompression').length
+
+  return (
+    <div className={`diagnostics-event ${event.rejected > 0 ? 'has-issues' : ''}`}>
+      <button className="diagnostics-event-header" onClick={() => setIsOpen(!isOpen)}>
+        <span>{isOpen ? '-' : '+'}</span>
+        <strong>#{event.id}</strong>
+        <span>{new Date(event.receivedAt).toLocaleTimeString()}</span>
+        <span>{pointCount} points</span>
+        <span>{event.accepted} accepted</span>
+        <span className={event.rejected > 0 ? 'diagnostics-bad' : ''}>{event.rejected} rejected</span>
+        {event.warnings > 0 && <span>{event.warnings} warnings</span>}
+        {decompressionFailures > 0 && (
+          <span className="diagnostics-bad">{decompressionFailures} decompression</span>
+        )}
+        <span className="diagnostics-duration">{event.durationMs} ms</span>
+      </button>
+
+      {isOpen && (
+        <div className="diagnostics-event-body">
+          <table className="diagnostics-table">
+            <thead>
+              <tr><th>Variable</th><th>Points</th></tr>
+            </thead>
+            <tbody>
+              {Object.entries(event.pointsByVariable)
+                .sort(([, a], [, b]) => b - a)
+                .map(([variable, count]) => (
+                  <tr key={variable}><td>{variable}</td><td>{count}</td></tr>
+                ))}
+            </tbody>
+          </table>
+
+          {summarizeIssues(event.issues).map(summary => (
+            <div key={`${summary.kind}|${summary.variable}|${summary.reason}`} className={`diagnostics-issue kind-${summary.kind}`}>
+              <div>
+                <strong>{summary.count}×</strong> {summary.variable && <code>{summary.variable}</code>} {summary.reason}
+              </div>
+              {summary.details.map((detail, index) => (
+                <div key={index} className="diagnostics-detail">{detail}</div>
+              ))}
+            </div>
+          ))}
+          {event.rejected + event.warnings > event.issues.length && (
+            <div className="diagnostics-detail">
+              Showing {event.issues.length} of {event.rejected + event.warnings} issues
+            </div>
+          )}
+
+          {event.notes.map((note, index) => (
+            <div key={index} className="diagnostics-note">{note}</div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Floating drawer listing recent realtime events, for dashboards where nobody sees the console
+ */
+export const DiagnosticsDrawer = ({ events }: DiagnosticsDrawerProps) => {
+  const [isOpen, setIsOpen] = useState(false)
+  const latestRejected = events[0]?.rejected || 0
+
+  return (
+    <div className={`diagnostics-drawer ${isOpen ? 'open' : ''}`}>
+      <button className="diagnostics-toggle" onClick={() => setIsOpen(!isOpen)}>
+        Diagnostics
+        {latestRejected > 0 && <span className="diagnostics-count">{latestRejected}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="diagnostics-panel">
+          {events.length === 0 ? (
+            <p className="diagnostics-empty">No realtime events received yet.</p>
+          ) : (
+            events.map((event, index) => (
+              <DiagnosticsEventCard key={event.id} event={event} defaultOpen={index === 0} />
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+// Widget parameter (Display > Parameters in the TagoIO widget editor) that shows the diagnostics drawer
+export const DIAGNOSTICS_PARAMETER = 'diagnostics'
+
+export const MAX_DIAGNOSTICS_EVENTS = 20
+export const MAX_ISSUES_PER_EVENT = 100
+
+// 'warning' marks a point the widget kept anyway, so it counts towards warnings instead of rejected
+export type DiagnosticsIssueKind = 'rejected' | 'decompression' | 'warning'
+
+export interface DiagnosticsIssue {
+  kind: DiagnosticsIssueKind
+  variable: string | null
+  reason: string
+  detail: string | null
+}
+
+/**
+ * What one processRealtimeData call received and what it made of it
+ */
+export interface DiagnosticsEvent {
+  id: number
+  receivedAt: string
+  durationMs: number
+  pointsByVariable: Record<string, number>
+  accepted: number
+  rejected: number
+  warnings: number
+  // Capped at MAX_ISSUES_PER_EVENT; rejected and warnings keep the full counts
+  issues: DiagnosticsIssue[]
+  notes: string[]
+}
+
+const ENABLED_VALUES = ['true', '1', 'yes', 'on']
+
+/**
+ * Reads the diagnostics parameter from the widget config. TagoIO passes parameters
+ * as a list of { key, value } pairs under display.parameters.
+ */
+export const isDiagnosticsEnabled = (widget: any): boolean => {
+  const parameters = widget?.display?.parameters
+  if (!Array.isArray(parameters)) return false
+
+  const parameter = parameters.find((p: any) => p?.key === DIAGNOSTICS_PARAMETER)
+  return ENABLED_VALUES.includes(String(parameter?.value ?? '').trim().toLowerCase())
+}
+
+export const createDiagnosticsEvent = (id: number): DiagnosticsEvent => ({
+  id,
+  receivedAt: new Date().toISOString(),
+  durationMs: 0,
+  pointsByVariable: {},
+  accepted: 0,
+  rejected: 0,
+  warnings: 0,
+  issues: [],
+  notes: []
+})
+
+export const countPoints = (event: DiagnosticsEvent, points: any[]) => {
+  points.forEach(point => {
+    const variable = point?.variable || '(no variable)'
+    event.pointsByVariable[variable] = (event.pointsByVariable[variable] || 0) + 1
+  })
+}
+
+export const recordAccepted = (event: DiagnosticsEvent, count = 1) => {
+  event.accepted += count
+}
+
+export const recordIssue = (
+  event: DiagnosticsEvent,
+  kind: DiagnosticsIssueKind,
+  variable: string | null,
+  reason: string,
+  detail: string | null = null
+) => {
+  if (kind === 'warning') {
+    event.warnings++
+  } else {
+    event.rejected++
+  }
+  if (event.issues.length < MAX_ISSUES_PER_EVENT) {
+    event.issues.push({ kind, variable, reason, detail })
+  }
+}
+
+export const finishDiagnosticsEvent = (event: DiagnosticsEvent, startedAt: number): DiagnosticsEvent => {
+  event.durationMs = Math.round(performance.now() - startedAt)
+  return event
+}
+
+/**
+ * Adds an event to the front of the list, keeping the most recent MAX_DIAGNOSTICS_EVENTS
+ */
+export const appendDiagnosticsEvent = (events: DiagnosticsEvent[], event: DiagnosticsEvent): DiagnosticsEvent[] => {
+  return [event, ...events].slice(0, MAX_DIAGNOSTICS_EVENTS)
+}
+
+export interface IssueSummary {
+  kind: DiagnosticsIssueKind
+  variable: string | null
+  reason: string
+  count: number
+  details: string[]
+}
+
+/**
+ * Groups an event's issues by reason, keeping a few example details for each
+ */
+export const summarizeIssues = (issues: DiagnosticsIssue[], maxDetails = 3): IssueSummary[] => {
+  const summaries = new Map<string, IssueSummary>()
+
+  issues.forEach(issue => {
+    const key = `${issue.kind}|${issue.variable}|${issue.reason}`
+    let summary = summaries.get(key)
+    if (!summary) {
+      summary = { kind: issue.kind, variable: issue.variable, reason: issue.reason, count: 0, details: [] }
+      summaries.set(key, summary)
+    }
+    summary.count++
+    if (issue.detail && summary.details.length < maxDetails) {
+      summary.details.push(issue.detail)
+    }
+  })
+
+  return Array.from(summaries.values()).sort((a, b) => b.count - a.count)
+}
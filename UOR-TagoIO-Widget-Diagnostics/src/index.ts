@@ -0,0 +1,2 @@
+export * from './diagnostics'
+export { DiagnosticsDrawer } from './DiagnosticsDrawer'
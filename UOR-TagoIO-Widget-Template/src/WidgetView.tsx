@@ -1,7 +1,18 @@
-import { useEffect, useState } from 'preact/hooks'
+import { useEffect, useRef, useState } from 'preact/hooks'
 import { createContext } from 'preact'
 import App from './app'
 import { isDevelopmentMode, mockTagoIOData } from './utils/mockData'
+import {
+  DiagnosticsDrawer,
+  DiagnosticsEvent,
+  appendDiagnosticsEvent,
+  countPoints,
+  createDiagnosticsEvent,
+  finishDiagnosticsEvent,
+  isDiagnosticsEnabled,
+  recordAccepted,
+  recordIssue
+} from 'uor-tagoio-widget-diagnostics'
 import "@tago-io/custom-widget"
 import "@tago-io/custom-widget/dist/custom-widget.css"
 
@@ -40,16 +51,25 @@ export const WidgetView = () => {
   const [isLoading, setIsLoading] = useState(true)
   const [widget, setWidget] = useState<any>(null)
   const [realtimeEventCount, setRealtimeEventCount] = useState(0)
+  const [diagnosticsEvents, setDiagnosticsEvents] = useState<DiagnosticsEvent[]>([])
+  const diagnosticsIdRef = useRef(0)
 
   const processRealtimeData = (realtimeData: any) => {
+    const startedAt = performance.now()
+    const diagnostics = createDiagnosticsEvent(++diagnosticsIdRef.current)
     const newData: WidgetData[] = []
     
     realtimeData.forEach(function(dataGroup: any) {
       if (dataGroup.result) {
         // Group variables by group ID
         const variablesByGroup: { [key: string]: any } = {}
+        countPoints(diagnostics, dataGroup.result)
         
         dataGroup.result.forEach(function(dataPoint: any) {
+          if (!dataPoint.variable) {
+            recordIssue(diagnostics, 'warning', null, 'Data point has no variable name', dataPoint.id || null)
+          }
+
           const groupKey = dataPoint.group || new Date().toISOString()
           
           if (!variablesByGroup[groupKey]) {
@@ -80,11 +100,16 @@ export const WidgetView = () => {
           }
           
           newData.push(record)
+          recordAccepted(diagnostics)
         })
+      } else {
+        recordIssue(diagnostics, 'rejected', null, 'Realtime entry has no result array')
       }
     })
 
     console.log(`✅ Created ${newData.length} data records`)
+    diagnostics.notes.push(`Created ${newData.length} data records`)
+    setDiagnosticsEvents(prev => appendDiagnosticsEvent(prev, finishDiagnosticsEvent(diagnostics, startedAt)))
     setRealtimeEventCount(prev => prev + 1)
     
     if (newData.length > 0) {
@@ -148,9 +173,13 @@ export const WidgetView = () => {
     realtimeEventCount
   }
 
+  // Shown when the widget has the diagnostics parameter set, and always in development
+  const showDiagnostics = isDevelopmentMode() || isDiagnosticsEnabled(widget)
+
   return (
     <WidgetContext.Provider value={contextValue}>
       <App />
+      {showDiagnostics && <DiagnosticsDrawer events={diagnosticsEvents} />}
     </WidgetContext.Provider>
   )
 }
\ No newline at end of file